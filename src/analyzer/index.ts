@@ -0,0 +1,206 @@
+/**
+ * Feasibility Analyzer
+ *
+ * Checks the input for problems that make a full schedule impossible before
+ * any solving is done: courses with more demand than seats, courses nobody
+ * can teach or no room can hold, teachers stretched past maxSections, and
+ * grades that require more courses than there are periods in a day (or than
+ * MAX_PERIODS_PER_DAY allows).
+ */
+
+import type {
+  ScheduleInput,
+  FeasibilityReport,
+  FeasibilityIssue,
+  CourseDemand,
+  Course,
+  Student,
+  TeacherId,
+  CourseId,
+} from '../types/index.js';
+import { withTeacherAvailability } from '../scheduler/availability.js';
+import { getLunchRule } from '../scheduler/lunch.js';
+import { getDailyLimits } from '../scheduler/daily-limits.js';
+import {
+  getQualifiedTeachers,
+  getSectionPeriodCount,
+  getAvailablePeriodCount,
+} from '../scheduler/teacher-assignment.js';
+
+export function analyzeFeasibility(rawInput: ScheduleInput): FeasibilityReport {
+  const input = withTeacherAvailability(rawInput);
+  const courseMap = new Map(input.courses.map(c => [c.id, c]));
+
+  const demand = getCourseDemand(input);
+  const issues: FeasibilityIssue[] = [
+    ...checkCourseCapacity(demand),
+    ...checkQualifiedTeachers(input),
+    ...checkRoomFeatures(input),
+    ...checkTeacherCapacity(input),
+    ...checkGradeLoad(input, courseMap),
+  ];
+
+  return { feasible: issues.length === 0, issues, demand };
+}
+
+function isGradeAllowed(student: Student, course: Course | undefined): boolean {
+  return !course?.gradeRestrictions || course.gradeRestrictions.includes(student.grade);
+}
+
+/**
+ * Students requiring each course (in an allowed grade) against its seats
+ */
+function getCourseDemand(input: ScheduleInput): CourseDemand[] {
+  return input.courses.map(course => ({
+    courseId: course.id,
+    demand: input.students.filter(s =>
+      s.requiredCourses.includes(course.id) && isGradeAllowed(s, course)
+    ).length,
+    capacity: course.sections * course.maxStudents,
+  }));
+}
+
+function checkCourseCapacity(demand: CourseDemand[]): FeasibilityIssue[] {
+  return demand
+    .filter(d => d.demand > d.capacity)
+    .map(d => ({
+      type: 'course_capacity',
+      description: `${d.courseId}: ${d.demand} students require it but its sections seat ${d.capacity} (${d.demand - d.capacity} short)`,
+      entities: { courses: [d.courseId] },
+    }));
+}
+
+function checkQualifiedTeachers(input: ScheduleInput): FeasibilityIssue[] {
+  return input.courses
+    .filter(course => course.sections > 0 && getQualifiedTeachers(course, input.teachers, input.config).length === 0)
+    .map(course => ({
+      type: 'no_qualified_teacher',
+      description: `${course.id}: no teacher is qualified and available to teach it`,
+      entities: { courses: [course.id] },
+    }));
+}
+
+function checkRoomFeatures(input: ScheduleInput): FeasibilityIssue[] {
+  const issues: FeasibilityIssue[] = [];
+
+  for (const course of input.courses) {
+    const required = course.requiredFeatures || [];
+    if (course.sections === 0 || required.length === 0) continue;
+
+    const hasRoom = input.rooms.some(room => required.every(f => room.features.includes(f)));
+    if (!hasRoom) {
+      issues.push({
+        type: 'no_suitable_room',
+        description: `${course.id}: no room has all of its required features (${required.join(', ')})`,
+        entities: { courses: [course.id] },
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Sections that only a given set of teachers can teach must fit in their
+ * maxSections (and their available periods). Checked per course, against
+ * all its qualified teachers, and per teacher, against the courses only
+ * they can teach.
+ */
+function checkTeacherCapacity(input: ScheduleInput): FeasibilityIssue[] {
+  const issues: FeasibilityIssue[] = [];
+  const soleCourses = new Map<TeacherId, Course[]>();
+
+  for (const course of input.courses) {
+    const qualified = getQualifiedTeachers(course, input.teachers, input.config);
+    if (course.sections === 0 || qualified.length === 0) continue;
+
+    if (qualified.length === 1) {
+      const teacherId = qualified[0].id;
+      if (!soleCourses.has(teacherId)) soleCourses.set(teacherId, []);
+      soleCourses.get(teacherId)!.push(course);
+      continue;
+    }
+
+    const maxSections = qualified.reduce((sum, t) => sum + t.maxSections, 0);
+    if (course.sections > maxSections) {
+      issues.push({
+        type: 'teacher_capacity',
+        description: `${course.id}: ${course.sections} sections but its ${qualified.length} qualified teachers ` +
+          `can take ${maxSections} in total`,
+        entities: { courses: [course.id], teachers: qualified.map(t => t.id) },
+      });
+    }
+  }
+
+  for (const teacher of input.teachers) {
+    const courses = soleCourses.get(teacher.id);
+    if (!courses) continue;
+
+    const sections = courses.reduce((sum, c) => sum + c.sections, 0);
+    const periods = courses.reduce((sum, c) => sum + c.sections * getSectionPeriodCount(c, input.config), 0);
+    const available = getAvailablePeriodCount(teacher, input.config);
+    const entities = { courses: courses.map(c => c.id), teachers: [teacher.id] };
+
+    if (sections > teacher.maxSections) {
+      issues.push({
+        type: 'teacher_capacity',
+        description: `${teacher.id}: only teacher for ${sections} sections (${courses.map(c => c.id).join(', ')}) ` +
+          `but maxSections is ${teacher.maxSections}`,
+        entities,
+      });
+    } else if (periods > available) {
+      issues.push({
+        type: 'teacher_capacity',
+        description: `${teacher.id}: only teacher for ${periods} periods a week (${courses.map(c => c.id).join(', ')}) ` +
+          `but available for ${available}`,
+        entities,
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Each required course takes a period of the day; a hard lunch rule keeps
+ * one more free, and MAX_PERIODS_PER_DAY may allow fewer
+ */
+function checkGradeLoad(input: ScheduleInput, courseMap: Map<CourseId, Course>): FeasibilityIssue[] {
+  const lunch = getLunchRule(input);
+  const periodsAvailable = input.config.periodsPerDay - (lunch?.hard ? 1 : 0);
+  const dayDescription = lunch?.hard
+    ? `${input.config.periodsPerDay} periods a day, one kept for lunch`
+    : `${input.config.periodsPerDay} periods a day`;
+
+  const overloaded = new Map<number, { students: Student[]; most: number; limit: string }>();
+  for (const student of input.students) {
+    const required = student.requiredCourses.filter(id => isGradeAllowed(student, courseMap.get(id)));
+    const maxRule = getDailyLimits(input, student.grade).maxPeriods;
+    const counted = maxRule ? required.filter(id => !maxRule.exclude.includes(id)).length : 0;
+
+    let count: number;
+    let limit: string;
+    if (required.length > periodsAvailable) {
+      count = required.length;
+      limit = `there are ${dayDescription}`;
+    } else if (maxRule && counted > maxRule.max) {
+      count = counted;
+      limit = `${maxRule.constraintId} allows ${maxRule.max} periods a day`;
+    } else {
+      continue;
+    }
+
+    const entry = overloaded.get(student.grade) ?? { students: [], most: 0, limit };
+    entry.students.push(student);
+    entry.most = Math.max(entry.most, count);
+    overloaded.set(student.grade, entry);
+  }
+
+  return [...overloaded.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([grade, { students, most, limit }]) => ({
+      type: 'grade_overload',
+      description: `Grade ${grade}: ${students.length} student(s) require up to ${most} courses but ${limit}`,
+      entities: { grades: [grade], students: students.map(s => s.id) },
+    }));
+}
@@ -0,0 +1,290 @@
+/**
+ * Tabular data conversion
+ *
+ * Turns CSV, XLSX or flat JSON exports (e.g. from a student information
+ * system) into the students/teachers/courses/rooms JSON files the scheduler
+ * loads. A column mapping says which column holds each field and how
+ * multi-valued fields are separated; unmapped fields are matched to columns
+ * by name, ignoring case, spaces and punctuation.
+ */
+
+import { readFile } from 'fs/promises';
+import { readSheet } from 'read-excel-file/node';
+import type { z } from 'zod';
+import { parseCsv } from './csv.js';
+import { StudentSchema, TeacherSchema, RoomSchema, CourseSchema } from '../parser/schemas.js';
+
+export type ConvertType = 'students' | 'teachers' | 'courses' | 'rooms';
+export type InputFormat = 'csv' | 'xlsx' | 'json';
+
+export const CONVERT_TYPES: ConvertType[] = ['students', 'teachers', 'courses', 'rooms'];
+export const INPUT_FORMATS: InputFormat[] = ['csv', 'xlsx', 'json'];
+
+/**
+ * Mapping file contents, e.g.
+ *   { "columns": { "grade": "Grade Level", "requiredCourses": "Courses" },
+ *     "separators": { "requiredCourses": "|" } }
+ */
+export interface ColumnMapping {
+  columns?: Record<string, string>;    // field -> column header
+  separators?: Record<string, string>; // field -> list separator
+  listSeparator?: string;              // Default for list fields: ';'
+}
+
+export interface Table {
+  header: string[];
+  rows: string[][];
+}
+
+export interface SkippedRow {
+  row: number; // 1-based, the header is row 1
+  reason: string;
+}
+
+export interface CoercedValue {
+  row: number;
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface ConversionResult<T = unknown> {
+  records: T[];
+  skipped: SkippedRow[];
+  coerced: CoercedValue[];
+  columns: Record<string, string>; // field -> column used
+}
+
+// string: trimmed text; integer: whole number; list: separated IDs;
+// integers: separated whole numbers; periods: separated 0-based "day-slot"
+type FieldKind = 'string' | 'integer' | 'list' | 'integers' | 'periods';
+
+interface FieldSpec {
+  kind: FieldKind;
+  required?: boolean;
+}
+
+const FIELDS: Record<ConvertType, Record<string, FieldSpec>> = {
+  students: {
+    id: { kind: 'string', required: true },
+    name: { kind: 'string', required: true },
+    grade: { kind: 'integer', required: true },
+    requiredCourses: { kind: 'list' },
+    electivePreferences: { kind: 'list' },
+    electiveCount: { kind: 'integer' },
+    completedCourses: { kind: 'list' },
+  },
+  teachers: {
+    id: { kind: 'string', required: true },
+    name: { kind: 'string', required: true },
+    subjects: { kind: 'list' },
+    maxSections: { kind: 'integer', required: true },
+    unavailable: { kind: 'periods' },
+  },
+  rooms: {
+    id: { kind: 'string', required: true },
+    name: { kind: 'string', required: true },
+    capacity: { kind: 'integer', required: true },
+    features: { kind: 'list' },
+    unavailable: { kind: 'periods' },
+  },
+  courses: {
+    id: { kind: 'string', required: true },
+    name: { kind: 'string', required: true },
+    maxStudents: { kind: 'integer', required: true },
+    periodsPerWeek: { kind: 'integer', required: true },
+    sections: { kind: 'integer', required: true },
+    minStudents: { kind: 'integer' },
+    blockLength: { kind: 'integer' },
+    requiredFeatures: { kind: 'list' },
+    gradeRestrictions: { kind: 'integers' },
+    prerequisites: { kind: 'list' },
+    corequisites: { kind: 'list' },
+  },
+};
+
+// List fields that always appear in the output, even when empty
+const ALWAYS_LISTED = new Set(['requiredCourses', 'electivePreferences', 'subjects', 'features']);
+
+const SCHEMAS: Record<ConvertType, z.ZodTypeAny> = {
+  students: StudentSchema,
+  teachers: TeacherSchema,
+  rooms: RoomSchema,
+  courses: CourseSchema,
+};
+
+/**
+ * Read a CSV, XLSX (first sheet unless `sheet` is given) or JSON file into a
+ * header and string rows. JSON may be an array of flat objects or a
+ * `{ "<type>": [...] }` wrapper; array values are joined with ';', periods
+ * as day-slot.
+ */
+export async function readTable(path: string, format: InputFormat, sheet?: string): Promise<Table> {
+  let cells: string[][];
+
+  if (format === 'csv') {
+    cells = parseCsv(await readFile(path, 'utf-8'));
+  } else if (format === 'xlsx') {
+    const data = await readSheet(path, sheet ?? 1);
+    cells = data.map(row => row.map(cell => cell === null ? '' : String(cell)));
+  } else {
+    const parsed = JSON.parse(await readFile(path, 'utf-8'));
+    const records: Record<string, unknown>[] = Array.isArray(parsed)
+      ? parsed
+      : Object.values(parsed).find(Array.isArray) as Record<string, unknown>[] ?? [];
+    const header = [...new Set(records.flatMap(record => Object.keys(record)))];
+    cells = [header, ...records.map(record => header.map(key => {
+      const value = record[key];
+      if (value === undefined || value === null) return '';
+      if (!Array.isArray(value)) return String(value);
+      // Periods ({ day, slot }) are written the way CSV cells hold them
+      return value.map(item => typeof item === 'object' && item !== null && 'day' in item && 'slot' in item
+        ? `${item.day}-${item.slot}` : String(item)).join(';');
+    }))];
+  }
+
+  const [header = [], ...rows] = cells;
+  return { header: header.map(h => h.trim()), rows };
+}
+
+/**
+ * Convert table rows into records of the given type. Rows missing a required
+ * field, with values that can't be read, with duplicate IDs or failing the
+ * input schema are skipped; values that needed fixing up are reported as
+ * coerced. Throws if a mapped column is not in the header.
+ */
+export function convertTable(table: Table, type: ConvertType, mapping: ColumnMapping = {}): ConversionResult {
+  const fields = FIELDS[type];
+
+  const unknownFields = Object.keys({ ...mapping.columns, ...mapping.separators }).filter(f => !(f in fields));
+  if (unknownFields.length > 0) {
+    throw new Error(`Unknown ${type} fields in mapping: ${unknownFields.join(', ')} (fields: ${Object.keys(fields).join(', ')})`);
+  }
+
+  // Resolve the column for each field
+  const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const columnIndex = new Map<string, number>();
+  const columns: Record<string, string> = {};
+  for (const field of Object.keys(fields)) {
+    const mapped = mapping.columns?.[field];
+    const index = mapped !== undefined
+      ? table.header.indexOf(mapped)
+      : table.header.findIndex(h => normalize(h) === normalize(field));
+    if (mapped !== undefined && index === -1) {
+      throw new Error(`Column "${mapped}" for ${field} not found (columns: ${table.header.join(', ')})`);
+    }
+    if (index !== -1) {
+      columnIndex.set(field, index);
+      columns[field] = table.header[index];
+    }
+  }
+
+  const missingRequired = Object.entries(fields)
+    .filter(([field, spec]) => spec.required && !columnIndex.has(field))
+    .map(([field]) => field);
+  if (missingRequired.length > 0) {
+    throw new Error(`No column for required ${type} fields: ${missingRequired.join(', ')} ` +
+      `(columns: ${table.header.join(', ')}); map them in the mapping file`);
+  }
+
+  const result: ConversionResult = { records: [], skipped: [], coerced: [], columns };
+  const seenIds = new Map<string, number>();
+
+  table.rows.forEach((cells, index) => {
+    const row = index + 2;
+    if (cells.every(cell => cell.trim() === '')) return;
+
+    const record: Record<string, unknown> = {};
+    const coerced: CoercedValue[] = [];
+    const skip = (reason: string) => result.skipped.push({ row, reason });
+
+    for (const [field, spec] of Object.entries(fields)) {
+      const column = columnIndex.get(field);
+      const raw = column !== undefined ? (cells[column] ?? '').trim() : '';
+      const separator = mapping.separators?.[field] ?? mapping.listSeparator ?? ';';
+
+      if (raw === '') {
+        if (spec.required) return skip(`Missing ${field}`);
+        if (ALWAYS_LISTED.has(field)) record[field] = [];
+        continue;
+      }
+
+      const value = readValue(raw, spec.kind, separator);
+      if (value.error) return skip(`${field}: ${value.error}`);
+      if (value.coercedTo !== undefined) {
+        coerced.push({ row, field, from: raw, to: value.coercedTo });
+      }
+      record[field] = value.value;
+    }
+
+    const id = record.id as string;
+    if (seenIds.has(id)) return skip(`Duplicate id ${id} (first on row ${seenIds.get(id)})`);
+
+    const parsed = SCHEMAS[type].safeParse(record);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      return skip(`${issue.path.join('.')}: ${issue.message}`);
+    }
+
+    seenIds.set(id, row);
+    result.records.push(parsed.data);
+    result.coerced.push(...coerced);
+  });
+
+  return result;
+}
+
+/**
+ * Read one cell as the field's kind. `coercedTo` is set when the cell only
+ * parsed after fixing it up, e.g. "Grade 10" -> 10.
+ */
+function readValue(
+  raw: string,
+  kind: FieldKind,
+  separator: string
+): { value?: unknown; coercedTo?: string; error?: string } {
+  const items = () => raw.split(separator).map(item => item.trim()).filter(Boolean);
+
+  switch (kind) {
+    case 'string':
+      return { value: raw };
+
+    case 'list':
+      return { value: [...new Set(items())] };
+
+    case 'integer':
+    case 'integers': {
+      const values: number[] = [];
+      let coerced = false;
+      for (const item of kind === 'integer' ? [raw] : items()) {
+        const number = readInteger(item);
+        if (number === null) return { error: `"${item}" is not a whole number` };
+        coerced ||= String(number) !== item;
+        values.push(number);
+      }
+      const value = kind === 'integer' ? values[0] : values;
+      return { value, coercedTo: coerced ? values.join(separator) : undefined };
+    }
+
+    case 'periods': {
+      const periods = [];
+      for (const item of items()) {
+        const match = item.match(/^(\d+)\s*-\s*(\d+)$/);
+        if (!match) return { error: `"${item}" is not a day-slot period (e.g. 0-3)` };
+        periods.push({ day: Number(match[1]), slot: Number(match[2]) });
+      }
+      return { value: periods };
+    }
+  }
+}
+
+/**
+ * Whole numbers, accepting "10.0" and a single number embedded in text
+ * ("Grade 10", "10th")
+ */
+function readInteger(text: string): number | null {
+  const number = Number(text);
+  if (Number.isInteger(number)) return number;
+  const embedded = text.match(/(?<![A-Za-z0-9.-])\d+/g);
+  return embedded?.length === 1 ? Number(embedded[0]) : null;
+}
@@ -0,0 +1,271 @@
+/**
+ * OneRoster 1.1 CSV import and export
+ *
+ * Import: users.csv and courses.csv (plus classes.csv and enrollments.csv
+ * when present) become students, teachers and courses. Students take their
+ * grade from `grades` and request the courses of the classes they are
+ * enrolled in; teachers are qualified for the courses of the classes they
+ * teach. OneRoster has no room capacities, so rooms are not imported.
+ *
+ * Export: a finished schedule's sections become classes.csv, and its
+ * teachers and enrolledStudents become enrollments.csv, with a manifest.csv
+ * marking both as bulk files.
+ */
+
+import { parseCsv, formatCsv } from './csv.js';
+import type { SkippedRow } from './index.js';
+import type {
+  Schedule,
+  ScheduleInput,
+  Student,
+  Teacher,
+  Course,
+  CourseId,
+  StudentId,
+  TeacherId,
+} from '../types/index.js';
+
+export interface OneRosterFiles {
+  users: string;        // CSV text
+  courses: string;
+  classes?: string;
+  enrollments?: string;
+}
+
+export interface OneRosterImportOptions {
+  maxSections?: number;    // Per teacher, default 5 (raised to the classes they teach)
+  maxStudents?: number;    // Per section, default 30
+  periodsPerWeek?: number; // Per course, default 5
+}
+
+export interface OneRosterSkippedRow extends SkippedRow {
+  file: string;
+}
+
+export interface OneRosterImportResult {
+  students: Student[];
+  teachers: Teacher[];
+  courses: Course[];
+  skipped: OneRosterSkippedRow[];
+}
+
+export interface OneRosterExportOptions {
+  schoolSourcedId: string;
+  termSourcedIds: string[];
+}
+
+export interface OneRosterExport {
+  classes: string;     // CSV text
+  enrollments: string;
+  manifest: string;
+}
+
+const CLASS_HEADER = [
+  'sourcedId', 'status', 'dateLastModified', 'title', 'grades', 'courseSourcedId', 'classCode',
+  'classType', 'location', 'schoolSourcedId', 'termSourcedIds', 'subjects', 'subjectCodes', 'periods',
+];
+
+const ENROLLMENT_HEADER = [
+  'sourcedId', 'status', 'dateLastModified', 'classSourcedId', 'schoolSourcedId', 'userSourcedId',
+  'role', 'primary', 'beginDate', 'endDate',
+];
+
+/**
+ * CSV text -> one record per row keyed by header, with its 1-based row
+ * number (the header is row 1)
+ */
+function readRecords(text: string | undefined): { row: number; values: Record<string, string> }[] {
+  if (!text) return [];
+  const [header = [], ...rows] = parseCsv(text);
+  return rows
+    .map((cells, index) => ({
+      row: index + 2,
+      values: Object.fromEntries(header.map((key, i) => [key.trim(), (cells[i] ?? '').trim()])),
+    }))
+    .filter(({ values }) => Object.values(values).some(Boolean));
+}
+
+/**
+ * OneRoster grade codes ("09", "KG", ...) as grade numbers; codes without
+ * a number (PK, UG, Other, ...) are dropped
+ */
+export function parseGrades(grades: string): number[] {
+  return grades.split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(Boolean)
+    .flatMap(code => code === 'KG' ? [0] : /^\d+$/.test(code) ? [Number(code)] : []);
+}
+
+function formatGrade(grade: number): string {
+  return grade === 0 ? 'KG' : String(grade).padStart(2, '0');
+}
+
+// Records marked for deletion are not part of the roster
+function isActive(values: Record<string, string>): boolean {
+  return values.status?.toLowerCase() !== 'tobedeleted' && values.enabledUser?.toLowerCase() !== 'false';
+}
+
+export function importOneRoster(files: OneRosterFiles, options: OneRosterImportOptions = {}): OneRosterImportResult {
+  const { maxSections = 5, maxStudents = 30, periodsPerWeek = 5 } = options;
+  const skipped: OneRosterSkippedRow[] = [];
+  const skip = (file: string, row: number, reason: string) => skipped.push({ file, row, reason });
+
+  // Courses
+  const courseRecords = readRecords(files.courses).filter(({ values }) => isActive(values));
+  const courseIds = new Set<CourseId>();
+  for (const { row, values } of courseRecords) {
+    if (!values.sourcedId) skip('courses.csv', row, 'Missing sourcedId');
+    else if (courseIds.has(values.sourcedId)) skip('courses.csv', row, `Duplicate sourcedId ${values.sourcedId}`);
+    else courseIds.add(values.sourcedId);
+  }
+
+  // Classes -> course
+  const classCourse = new Map<string, CourseId>();
+  const classCount = new Map<CourseId, number>();
+  for (const { row, values } of readRecords(files.classes).filter(({ values }) => isActive(values))) {
+    if (!courseIds.has(values.courseSourcedId)) {
+      skip('classes.csv', row, `Unknown course ${values.courseSourcedId || '(none)'} for class ${values.sourcedId}`);
+      continue;
+    }
+    classCourse.set(values.sourcedId, values.courseSourcedId);
+    classCount.set(values.courseSourcedId, (classCount.get(values.courseSourcedId) || 0) + 1);
+  }
+
+  // Enrollments -> each user's courses and number of classes
+  const userCourses = new Map<string, Set<CourseId>>();
+  const userClasses = new Map<string, number>();
+  for (const { row, values } of readRecords(files.enrollments).filter(({ values }) => isActive(values))) {
+    const courseId = classCourse.get(values.classSourcedId);
+    if (!courseId) {
+      skip('enrollments.csv', row, `Unknown class ${values.classSourcedId || '(none)'}`);
+      continue;
+    }
+    if (!userCourses.has(values.userSourcedId)) userCourses.set(values.userSourcedId, new Set());
+    userCourses.get(values.userSourcedId)!.add(courseId);
+    userClasses.set(values.userSourcedId, (userClasses.get(values.userSourcedId) || 0) + 1);
+  }
+
+  // Users
+  const students: Student[] = [];
+  const teachers: Teacher[] = [];
+  const userIds = new Set<string>();
+  for (const { row, values } of readRecords(files.users)) {
+    if (!isActive(values)) continue;
+    const role = values.role?.toLowerCase();
+    if (role !== 'student' && role !== 'teacher') continue;
+
+    const id = values.sourcedId;
+    if (!id) {
+      skip('users.csv', row, 'Missing sourcedId');
+      continue;
+    }
+    if (userIds.has(id)) {
+      skip('users.csv', row, `Duplicate sourcedId ${id}`);
+      continue;
+    }
+    userIds.add(id);
+
+    const name = [values.givenName, values.familyName].filter(Boolean).join(' ') || values.username || id;
+    const courses = [...(userCourses.get(id) || [])];
+
+    if (role === 'student') {
+      const [grade] = parseGrades(values.grades || '');
+      if (grade === undefined) {
+        skip('users.csv', row, `Student ${id} has no numeric grade ("${values.grades || ''}")`);
+        continue;
+      }
+      students.push({ id, name, grade, requiredCourses: courses, electivePreferences: [] });
+    } else {
+      teachers.push({
+        id,
+        name,
+        subjects: courses,
+        maxSections: Math.max(maxSections, userClasses.get(id) || 0),
+      });
+    }
+  }
+
+  const courses: Course[] = courseRecords
+    .filter(({ values }) => courseIds.has(values.sourcedId))
+    .filter(({ values }, i, all) => all.findIndex(other => other.values.sourcedId === values.sourcedId) === i)
+    .map(({ values }) => {
+      const gradeRestrictions = parseGrades(values.grades || '');
+      return {
+        id: values.sourcedId,
+        name: values.title || values.courseCode || values.sourcedId,
+        maxStudents,
+        periodsPerWeek,
+        sections: Math.max(classCount.get(values.sourcedId) || 0, 1),
+        ...(gradeRestrictions.length > 0 ? { gradeRestrictions } : {}),
+      };
+    });
+
+  return { students, teachers, courses, skipped };
+}
+
+export function exportOneRoster(
+  schedule: Schedule,
+  input: ScheduleInput,
+  options: OneRosterExportOptions
+): OneRosterExport {
+  const courseMap = new Map(input.courses.map(c => [c.id, c]));
+  const roomMap = new Map(input.rooms.map(r => [r.id, r]));
+  const school = options.schoolSourcedId;
+
+  const classRows: (string | number)[][] = [CLASS_HEADER];
+  const enrollmentRows: (string | number)[][] = [ENROLLMENT_HEADER];
+
+  const enroll = (classId: string, userId: StudentId | TeacherId, role: 'student' | 'teacher') => {
+    enrollmentRows.push([
+      `${classId}-${userId}`, '', '', classId, school, userId, role, role === 'teacher' ? 'true' : 'false', '', '',
+    ]);
+  };
+
+  for (const section of schedule.sections) {
+    const course = courseMap.get(section.courseId);
+    const sectionNumber = section.id.startsWith(`${section.courseId}-`)
+      ? section.id.slice(section.courseId.length + 1)
+      : section.id;
+    const room = section.roomId ? roomMap.get(section.roomId) : undefined;
+    // OneRoster periods are period names; ours are 1-based slot numbers
+    const periods = [...new Set(section.periods.map(p => p.slot + 1))].sort((a, b) => a - b);
+
+    classRows.push([
+      section.id,
+      '',
+      '',
+      `${course?.name ?? section.courseId} - Section ${sectionNumber}`,
+      (course?.gradeRestrictions || []).map(formatGrade).join(','),
+      section.courseId,
+      section.id,
+      'scheduled',
+      room?.name ?? section.roomId ?? '',
+      school,
+      options.termSourcedIds.join(','),
+      '',
+      '',
+      periods.join(','),
+    ]);
+
+    if (section.teacherId) enroll(section.id, section.teacherId, 'teacher');
+    for (const studentId of section.enrolledStudents) {
+      enroll(section.id, studentId, 'student');
+    }
+  }
+
+  const manifest: string[][] = [
+    ['propertyName', 'value'],
+    ['manifest.version', '1.0'],
+    ['oneroster.version', '1.1'],
+    ...['academicSessions', 'categories', 'classes', 'classResources', 'courses', 'courseResources',
+      'demographics', 'enrollments', 'lineItems', 'orgs', 'resources', 'results', 'users']
+      .map(file => [`file.${file}`, file === 'classes' || file === 'enrollments' ? 'bulk' : 'absent']),
+    ['source.systemName', 'school-scheduling'],
+  ];
+
+  return {
+    classes: formatCsv(classRows),
+    enrollments: formatCsv(enrollmentRows),
+    manifest: formatCsv(manifest),
+  };
+}
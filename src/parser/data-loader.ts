@@ -4,18 +4,21 @@
 
 import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
+import { basename } from 'path';
 import type {
-  Student,
-  Teacher,
-  Room,
-  Course,
   ScheduleConstraint,
   SchedulePreference,
   ScheduleConfig,
   ScheduleInput,
   ConstraintType,
   PreferenceType,
+  ConstraintParams,
 } from '../types/index.js';
+import { type InputDiagnostic, formatDiagnostic } from './diagnostics.js';
+import { StudentSchema, TeacherSchema, RoomSchema, CourseSchema } from './schemas.js';
+import { parseEntities, checkReferences } from './input-checks.js';
+
+export { type InputDiagnostic, formatDiagnostic };
 
 export interface DataPaths {
   students: string;
@@ -26,6 +29,28 @@ export interface DataPaths {
 }
 
 export async function loadScheduleInput(paths: DataPaths): Promise<ScheduleInput> {
+  const { input, diagnostics } = await readScheduleInput(paths);
+
+  const errors = diagnostics.filter(d => d.severity === 'error');
+  if (errors.length > 0) {
+    throw new Error(`Invalid input (${errors.length} errors):\n${errors.map(formatDiagnostic).join('\n')}`);
+  }
+
+  return input;
+}
+
+/**
+ * Read the input files and collect every problem found, without failing on
+ * the first one (used by `validate --check-input`)
+ */
+export async function checkScheduleInput(paths: DataPaths): Promise<InputDiagnostic[]> {
+  const { diagnostics } = await readScheduleInput(paths);
+  return diagnostics;
+}
+
+async function readScheduleInput(
+  paths: DataPaths
+): Promise<{ input: ScheduleInput; diagnostics: InputDiagnostic[] }> {
   // Validate all files exist
   for (const [key, path] of Object.entries(paths)) {
     if (!existsSync(path)) {
@@ -33,24 +58,77 @@ export async function loadScheduleInput(paths: DataPaths): Promise<ScheduleInput
     }
   }
 
+  const diagnostics: InputDiagnostic[] = [];
+  const files = {
+    students: basename(paths.students),
+    teachers: basename(paths.teachers),
+    rooms: basename(paths.rooms),
+    courses: basename(paths.courses),
+  };
+
+  // Unparseable JSON is reported and treated as missing
+  const readJson = async (path: string, file: string): Promise<unknown> => {
+    const text = await readFile(path, 'utf-8');
+    try {
+      return JSON.parse(text);
+    } catch (err) {
+      diagnostics.push({ severity: 'error', file, message: `Invalid JSON: ${(err as Error).message}` });
+      return undefined;
+    }
+  };
+
   const [studentsData, teachersData, roomsData, coursesData, constraintsText] = await Promise.all([
-    readFile(paths.students, 'utf-8').then(JSON.parse),
-    readFile(paths.teachers, 'utf-8').then(JSON.parse),
-    readFile(paths.rooms, 'utf-8').then(JSON.parse),
-    readFile(paths.courses, 'utf-8').then(JSON.parse),
+    readJson(paths.students, files.students),
+    readJson(paths.teachers, files.teachers),
+    readJson(paths.rooms, files.rooms),
+    readJson(paths.courses, files.courses),
     readFile(paths.constraints, 'utf-8'),
   ]);
 
-  const { constraints, preferences, config } = parseConstraintsFile(constraintsText);
+  const parsed = parseConstraintsFile(constraintsText, basename(paths.constraints));
+  const { constraints, preferences, config } = parsed;
+
+  const students = parseEntities(studentsData, 'students', StudentSchema, files.students, diagnostics);
+  const teachers = parseEntities(teachersData, 'teachers', TeacherSchema, files.teachers, diagnostics);
+  const rooms = parseEntities(roomsData, 'rooms', RoomSchema, files.rooms, diagnostics);
+  const courses = parseEntities(coursesData, 'courses', CourseSchema, files.courses, diagnostics);
+
+  const entities = {
+    students: students.values,
+    teachers: teachers.values,
+    rooms: rooms.values,
+    courses: courses.values,
+  };
+  const indices = {
+    students: students.indices,
+    teachers: teachers.indices,
+    rooms: rooms.indices,
+    courses: courses.indices,
+  };
+  diagnostics.push(...checkReferences(entities, indices, config, files), ...parsed.diagnostics);
+
+  // Teacher and course IDs on constraint lines can only be checked once
+  // teachers.json and courses.json are read
+  const lineReferences = [
+    { kind: 'teacher', keys: ['teacher'], data: teachersData, ids: teachers.values.map(t => t.id) },
+    { kind: 'course', keys: ['courses', 'exclude'], data: coursesData, ids: courses.values.map(c => c.id) },
+  ];
+  for (const { kind, keys, data, ids } of lineReferences) {
+    if (data === undefined) continue;
+    for (const { params, lineNumber } of parsed.paramLines) {
+      const named = keys.flatMap(key => params[key] === undefined ? [] : [params[key]].flat().map(String));
+      for (const id of named.filter(id => !ids.includes(id))) {
+        diagnostics.push({
+          severity: 'error', file: basename(paths.constraints), line: lineNumber,
+          message: `Unknown ${kind} ${id}${suggestName(id, ids)}`,
+        });
+      }
+    }
+  }
 
   return {
-    students: studentsData.students as Student[],
-    teachers: teachersData.teachers as Teacher[],
-    rooms: roomsData.rooms as Room[],
-    courses: coursesData.courses as Course[],
-    constraints,
-    preferences,
-    config,
+    input: { ...entities, constraints, preferences, config },
+    diagnostics,
   };
 }
 
@@ -58,113 +136,375 @@ interface ParsedConstraints {
   constraints: ScheduleConstraint[];
   preferences: SchedulePreference[];
   config: ScheduleConfig;
+  diagnostics: InputDiagnostic[];
+  paramLines: { params: ConstraintParams; lineNumber: number }[]; // For cross-file checks
 }
 
-function parseConstraintsFile(text: string): ParsedConstraints {
-  const lines = text.split('\n').filter(line => {
-    const trimmed = line.trim();
-    return trimmed && !trimmed.startsWith('#');
-  });
+type ParamType = 'number' | 'numbers' | 'string' | 'strings';
+
+interface ParamSpec {
+  type: ParamType;
+  required?: boolean;
+}
+
+/**
+ * Parameters each constraint accepts after its description, as space- or
+ * pipe-separated key=value pairs (lists are comma-separated). `weight=` is
+ * accepted on every SOFT: line. Days and periods count from 1, like
+ * LUNCH_PERIODS and the reports (the JSON files count from 0).
+ */
+const PARAM_SPECS: Record<string, Record<string, ParamSpec>> = {
+  TEACHER_UNAVAILABLE: {
+    teacher: { type: 'string', required: true },
+    day: { type: 'numbers' },
+    periods: { type: 'numbers' },
+  },
+  LUNCH_AVAILABILITY: {
+    periods: { type: 'numbers' },
+  },
+  BALANCED_SECTIONS: {
+    max_spread: { type: 'number' },
+  },
+  MAX_PERIODS_PER_DAY: {
+    max: { type: 'number', required: true },
+    grades: { type: 'numbers' },
+    exclude: { type: 'strings' },
+  },
+  MIN_PERIODS_BETWEEN: {
+    courses: { type: 'strings', required: true },
+    gap: { type: 'number' },
+    grades: { type: 'numbers' },
+  },
+};
+
+// Constraints that may appear on several lines (e.g. one per teacher, or
+// per grade)
+const REPEATABLE_CONSTRAINTS = new Set(['TEACHER_UNAVAILABLE', 'MAX_PERIODS_PER_DAY', 'MIN_PERIODS_BETWEEN']);
+
+const HARD_CONSTRAINT_TYPES: Record<string, ConstraintType> = {
+  'NO_TEACHER_CONFLICT': 'no_teacher_conflict',
+  'NO_STUDENT_CONFLICT': 'no_student_conflict',
+  'NO_ROOM_CONFLICT': 'no_room_conflict',
+  'ROOM_CAPACITY': 'room_capacity',
+  'TEACHER_QUALIFIED': 'same_teacher_same_course',
+  'TEACHER_AVAILABILITY': 'teacher_availability',
+  'TEACHER_UNAVAILABLE': 'teacher_availability',
+  'CONSECUTIVE_PERIODS': 'consecutive_periods',
+  'STUDENT_AVAILABILITY': 'student_availability',
+  'LUNCH_AVAILABILITY': 'lunch_period',
+  'ROOM_FEATURES': 'custom',
+  'GRADE_RESTRICTION': 'custom',
+  'TEACHER_MAX_SECTIONS': 'teacher_max_sections',
+  'MAX_PERIODS_PER_DAY': 'max_periods_per_day',
+  'MIN_PERIODS_BETWEEN': 'min_periods_between',
+};
+
+const SOFT_PREFERENCE_TYPES: Record<string, PreferenceType> = {
+  'BALANCED_SECTIONS': 'balanced_class_sizes',
+  'STUDENT_ELECTIVE_PREFERENCE': 'student_elective_preference',
+  'MINIMIZE_GAPS': 'compact_schedule',
+  'TEACHER_PREFERENCES': 'teacher_period_preference',
+  'LUNCH_AVAILABILITY': 'lunch_period',
+  'MINIMIZE_ROOM_CHANGES': 'minimize_room_changes',
+  'BALANCED_TEACHER_LOAD': 'balanced_teacher_load',
+};
+
+type Report = (severity: InputDiagnostic['severity'], message: string) => void;
+
+function parseConstraintsFile(text: string, fileName = 'constraints.txt'): ParsedConstraints {
+  // Keep 1-based line numbers for diagnostics
+  const lines = text.split('\n')
+    .map((line, index) => ({ line, lineNumber: index + 1 }))
+    .filter(({ line }) => {
+      const trimmed = line.trim();
+      return trimmed && !trimmed.startsWith('#');
+    });
 
   const constraints: ScheduleConstraint[] = [];
   const preferences: SchedulePreference[] = [];
+  const diagnostics: InputDiagnostic[] = [];
   const config: ScheduleConfig = {
     periodsPerDay: 8,
     daysPerWeek: 5,
   };
 
   const configExtras: Record<string, string> = {};
+  const configLines = new Map<string, number>();
+  const paramLines: { params: ConstraintParams; lineNumber: number }[] = [];
+
+  // Repeatable constraints (e.g. TEACHER_UNAVAILABLE) get numbered IDs;
+  // any other name defined twice is reported
+  const idLines = new Map<string, number[]>();
+  const uniqueId = (id: string, name: string, lineNumber: number, report: Report) => {
+    const seen = idLines.get(id) || [];
+    idLines.set(id, [...seen, lineNumber]);
+    if (seen.length > 0 && !REPEATABLE_CONSTRAINTS.has(name)) {
+      report('error', `Duplicate constraint ${id} (first defined on line ${seen[0]})`);
+    }
+    return seen.length === 0 ? id : `${id}-${seen.length + 1}`;
+  };
 
-  for (const line of lines) {
+  // Each grade gets one MAX_PERIODS_PER_DAY line, and one MIN_PERIODS_BETWEEN
+  // line per course set, so a second line for the same grades is reported
+  // rather than ignored
+  const scopes: { scope: string; grades?: number[]; lineNumber: number }[] = [];
+  const uniqueScope = (name: string, params: ConstraintParams, lineNumber: number, report: Report) => {
+    if (name !== 'MAX_PERIODS_PER_DAY' && name !== 'MIN_PERIODS_BETWEEN') return;
+    const courses = params.courses as string[] | undefined;
+    const scope = courses ? `${name} for ${[...courses].sort().join(', ')}` : name;
+    const grades = params.grades as number[] | undefined;
+    for (const earlier of scopes.filter(s => s.scope === scope)) {
+      const shared = grades && earlier.grades ? grades.filter(g => earlier.grades!.includes(g)) : [];
+      if (grades === undefined && earlier.grades === undefined) {
+        report('error', `${scope} is already set for all grades on line ${earlier.lineNumber}`);
+      } else if (shared.length > 0) {
+        report('error', `${scope} is already set for grade${shared.length > 1 ? 's' : ''} ${shared.join(', ')} on line ${earlier.lineNumber}`);
+      }
+    }
+    scopes.push({ scope, grades, lineNumber });
+  };
+
+  for (const { line, lineNumber } of lines) {
     const trimmed = line.trim();
+    const report: Report = (severity, message) => {
+      diagnostics.push({ severity, file: fileName, line: lineNumber, message });
+    };
 
     if (trimmed.startsWith('HARD:')) {
-      const constraint = parseHardConstraint(trimmed);
-      if (constraint) constraints.push(constraint);
+      const constraint = parseHardConstraint(trimmed, report);
+      if (constraint) {
+        constraints.push({ ...constraint, id: uniqueId(constraint.id, constraintName(trimmed), lineNumber, report) });
+        uniqueScope(constraintName(trimmed), constraint.params, lineNumber, report);
+        paramLines.push({ params: constraint.params, lineNumber });
+      }
     } else if (trimmed.startsWith('SOFT:')) {
-      const preference = parseSoftConstraint(trimmed);
-      if (preference) preferences.push(preference);
+      const preference = parseSoftConstraint(trimmed, report);
+      if (preference) {
+        preferences.push({ ...preference, id: uniqueId(preference.id, constraintName(trimmed), lineNumber, report) });
+        paramLines.push({ params: preference.params, lineNumber });
+      }
     } else if (trimmed.startsWith('CONFIG:')) {
       const [, rest] = trimmed.split('CONFIG:');
       const [key, value] = rest.split('=').map(s => s.trim());
-      if (key === 'PERIODS_PER_DAY') {
-        config.periodsPerDay = parseInt(value, 10);
-      } else if (key === 'DAYS_PER_WEEK') {
-        config.daysPerWeek = parseInt(value, 10);
+      if (!key || !value) {
+        report('error', `Expected CONFIG: KEY = value, got "${trimmed}"`);
+        continue;
+      }
+      if (configLines.has(key)) {
+        report('warning', `CONFIG ${key} is set again (overrides line ${configLines.get(key)})`);
+      }
+      configLines.set(key, lineNumber);
+
+      if (key === 'PERIODS_PER_DAY' || key === 'DAYS_PER_WEEK') {
+        const count = Number(value);
+        const max = key === 'DAYS_PER_WEEK' ? 7 : Infinity;
+        if (!Number.isInteger(count) || count < 1 || count > max) {
+          report('error', `CONFIG ${key} must be a whole number from 1${max < Infinity ? ` to ${max}` : ''}, got "${value}"`);
+        } else if (key === 'PERIODS_PER_DAY') {
+          config.periodsPerDay = count;
+        } else {
+          config.daysPerWeek = count;
+        }
+      } else if (key === 'LUNCH_PERIODS') {
+        // Listed as 1-based period numbers, the way reports show them
+        const periods = value.split(',').map(v => Number(v.trim()));
+        if (periods.some(p => !Number.isInteger(p))) {
+          report('error', `CONFIG LUNCH_PERIODS must be comma-separated period numbers, got "${value}"`);
+        } else {
+          config.lunchSlots = periods.map(p => p - 1);
+        }
       } else {
+        report('warning', `Unknown CONFIG key ${key} (ignored)`);
         configExtras[key] = value;
       }
+    } else if (!trimmed.startsWith('GOAL:')) {
+      report('error', `Unrecognized line; expected HARD:, SOFT:, CONFIG: or GOAL:`);
     }
     // GOAL lines are informational, not parsed into constraints
   }
 
-  return { constraints, preferences, config };
+  // Days and periods can only be checked once the whole CONFIG is known
+  const outOfRange = (values: number[], min: number, max: number) => values.filter(v => v < min || v > max);
+  const lunchLine = configLines.get('LUNCH_PERIODS');
+  const badLunch = outOfRange((config.lunchSlots || []).map(s => s + 1), 1, config.periodsPerDay);
+  if (lunchLine !== undefined && badLunch.length > 0) {
+    diagnostics.push({
+      severity: 'error', file: fileName, line: lunchLine,
+      message: `LUNCH_PERIODS ${badLunch.join(', ')} outside periods 1-${config.periodsPerDay}`,
+    });
+  }
+  for (const { params, lineNumber } of paramLines) {
+    const ranges: [string, number, number][] = [
+      ['day', 1, config.daysPerWeek],
+      ['periods', 1, config.periodsPerDay],
+      ['max', 1, config.periodsPerDay],
+      ['gap', 1, config.periodsPerDay - 1],
+    ];
+    for (const [key, min, max] of ranges) {
+      const bad = outOfRange(params[key] === undefined ? [] : [params[key] as number | number[]].flat(), min, max);
+      if (bad.length > 0) {
+        diagnostics.push({
+          severity: 'error', file: fileName, line: lineNumber,
+          message: `Parameter "${key}" values ${bad.join(', ')} outside ${min}-${max}`,
+        });
+      }
+    }
+  }
+
+  diagnostics.sort((a, b) => (a.line ?? 0) - (b.line ?? 0));
+  return { constraints, preferences, config, diagnostics, paramLines };
+}
+
+function constraintName(line: string): string {
+  return line.slice(line.indexOf(':') + 1).split('|')[0].trim();
 }
 
-function parseHardConstraint(line: string): ScheduleConstraint | null {
+function parseHardConstraint(line: string, report: Report): ScheduleConstraint | null {
   const [, rest] = line.split('HARD:');
   const parts = rest.split('|').map(s => s.trim());
-  if (parts.length < 2) return null;
+  if (parts.length < 2 || !parts[0]) {
+    report('error', 'Expected HARD: NAME | description');
+    return null;
+  }
 
-  const [name, description] = parts;
-  const constraintType = nameToConstraintType(name);
+  const [name, description, ...extras] = parts;
+  const constraintType = HARD_CONSTRAINT_TYPES[name];
+  if (!constraintType) {
+    report('error', `Unknown hard constraint ${name}${suggestName(name, Object.keys(HARD_CONSTRAINT_TYPES))}`);
+  }
 
   return {
     id: `hard-${name.toLowerCase().replace(/_/g, '-')}`,
-    type: constraintType,
+    type: constraintType || 'custom',
     description,
-    params: {},
+    params: parseParams(name, extras, PARAM_SPECS[name] || {}, report),
     priority: 'hard',
   };
 }
 
-function parseSoftConstraint(line: string): SchedulePreference | null {
+function parseSoftConstraint(line: string, report: Report): SchedulePreference | null {
   const [, rest] = line.split('SOFT:');
   const parts = rest.split('|').map(s => s.trim());
-  if (parts.length < 2) return null;
+  if (parts.length < 2 || !parts[0]) {
+    report('error', 'Expected SOFT: NAME | description | weight=0.5');
+    return null;
+  }
 
   const [name, description, ...extras] = parts;
-  let weight = 0.5;
+  const { weight = 0.5, ...params } = parseParams(name, extras, {
+    ...PARAM_SPECS[name],
+    weight: { type: 'number' },
+  }, report);
 
-  for (const extra of extras) {
-    if (extra.startsWith('weight=')) {
-      weight = parseFloat(extra.split('=')[1]);
-    }
+  const prefType = SOFT_PREFERENCE_TYPES[name];
+  if (!prefType) {
+    report('error', `Unknown soft constraint ${name}${suggestName(name, Object.keys(SOFT_PREFERENCE_TYPES))}`);
+  }
+  if ((weight as number) < 0 || (weight as number) > 1) {
+    report('error', `Weight for ${name} must be between 0 and 1, got ${weight}`);
   }
-
-  const prefType = nameToPreferenceType(name);
 
   return {
     id: `soft-${name.toLowerCase().replace(/_/g, '-')}`,
-    type: prefType,
+    type: prefType || 'custom',
     description,
-    params: {},
-    weight,
+    params,
+    weight: weight as number,
   };
 }
 
-function nameToConstraintType(name: string): ConstraintType {
-  const mapping: Record<string, ConstraintType> = {
-    'NO_TEACHER_CONFLICT': 'no_teacher_conflict',
-    'NO_STUDENT_CONFLICT': 'no_student_conflict',
-    'NO_ROOM_CONFLICT': 'no_room_conflict',
-    'ROOM_CAPACITY': 'room_capacity',
-    'TEACHER_QUALIFIED': 'same_teacher_same_course',
-    'TEACHER_AVAILABILITY': 'teacher_availability',
-    'ROOM_FEATURES': 'custom',
-    'GRADE_RESTRICTION': 'custom',
-    'TEACHER_MAX_SECTIONS': 'custom',
-  };
-  return mapping[name] || 'custom';
+/**
+ * Parse key=value extras against the constraint's parameter specs,
+ * reporting unknown keys, malformed values and missing required keys
+ */
+function parseParams(
+  name: string,
+  extras: string[],
+  specs: Record<string, ParamSpec>,
+  report: Report
+): ConstraintParams {
+  const params: ConstraintParams = {};
+
+  for (const token of extras.flatMap(extra => extra.split(/\s+/)).filter(Boolean)) {
+    const separator = token.indexOf('=');
+    if (separator <= 0) {
+      report('error', `Expected key=value in ${name}, got "${token}"`);
+      continue;
+    }
+
+    const key = token.slice(0, separator);
+    const value = token.slice(separator + 1);
+    const spec = specs[key];
+    if (!spec) {
+      const known = Object.keys(specs);
+      report('error', `Unknown parameter "${key}" for ${name}` +
+        (known.length > 0 ? ` (expected: ${known.join(', ')})` : ' (takes no parameters)'));
+      continue;
+    }
+    if (key in params) {
+      report('error', `Duplicate parameter "${key}" for ${name}`);
+      continue;
+    }
+
+    const items = value.split(',').map(v => v.trim());
+    if (value === '' || items.some(v => v === '')) {
+      report('error', `Missing value for "${key}" in ${name}`);
+      continue;
+    }
+
+    if (spec.type === 'number' || spec.type === 'numbers') {
+      const numbers = items.map(Number);
+      if (numbers.some(n => Number.isNaN(n))) {
+        report('error', `Parameter "${key}" for ${name} must be numeric, got "${value}"`);
+      } else if (spec.type === 'number' && numbers.length > 1) {
+        report('error', `Parameter "${key}" for ${name} takes a single number`);
+      } else {
+        params[key] = spec.type === 'number' ? numbers[0] : numbers;
+      }
+    } else if (spec.type === 'string' && items.length > 1) {
+      report('error', `Parameter "${key}" for ${name} takes a single value`);
+    } else {
+      params[key] = spec.type === 'string' ? items[0] : items;
+    }
+  }
+
+  for (const [key, spec] of Object.entries(specs)) {
+    if (spec.required && !(key in params)) {
+      report('error', `Missing required parameter "${key}" for ${name}`);
+    }
+  }
+
+  return params;
 }
 
-function nameToPreferenceType(name: string): PreferenceType {
-  const mapping: Record<string, PreferenceType> = {
-    'BALANCED_SECTIONS': 'balanced_class_sizes',
-    'STUDENT_ELECTIVE_PREFERENCE': 'student_elective_preference',
-    'MINIMIZE_GAPS': 'compact_schedule',
-    'TEACHER_PREFERENCES': 'teacher_period_preference',
-    'LUNCH_AVAILABILITY': 'custom',
-  };
-  return mapping[name] || 'custom';
+/**
+ * " (did you mean X?)" for the closest known name within a few typos
+ */
+function suggestName(name: string, known: string[]): string {
+  let best: string | undefined;
+  let bestDistance = 3;
+  for (const candidate of known) {
+    const distance = editDistance(name, candidate);
+    if (distance <= bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best ? ` (did you mean ${best}?)` : '';
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = [...Array(b.length + 1).keys()];
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
 }
@@ -0,0 +1,22 @@
+/**
+ * Problems found while reading input files
+ */
+
+/**
+ * A problem in an input file: at a 1-based `line` for constraints.txt, or at
+ * a `path` such as `students[3].grade` for the JSON files
+ */
+export interface InputDiagnostic {
+  severity: 'error' | 'warning';
+  file: string;
+  line?: number;
+  path?: string;
+  message: string;
+}
+
+export function formatDiagnostic(diagnostic: InputDiagnostic): string {
+  let location = diagnostic.file;
+  if (diagnostic.line !== undefined) location += `:${diagnostic.line}`;
+  if (diagnostic.path) location += ` at ${diagnostic.path}`;
+  return `${location}: ${diagnostic.severity}: ${diagnostic.message}`;
+}
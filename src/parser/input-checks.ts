@@ -0,0 +1,167 @@
+/**
+ * Input file checks: schema validation of each JSON entry, then referential
+ * integrity across files (unknown course IDs, duplicate IDs, periods outside
+ * the configured week)
+ */
+
+import type { z } from 'zod';
+import type { ScheduleInput, ScheduleConfig, Period } from '../types/index.js';
+import type { InputDiagnostic } from './diagnostics.js';
+
+/**
+ * File names the diagnostics refer to, keyed like ScheduleInput
+ */
+export interface InputFiles {
+  students: string;
+  teachers: string;
+  rooms: string;
+  courses: string;
+}
+
+/**
+ * Schema-valid entries of a file, with each one's index in the file's array
+ */
+export interface ParsedEntities<T> {
+  values: T[];
+  indices: number[];
+}
+
+/**
+ * Validate each entry of `data[key]` against the schema. Entries that fail
+ * are reported by array index and field, and left out of the result.
+ */
+export function parseEntities<T>(
+  data: unknown,
+  key: string,
+  schema: z.ZodType<T>,
+  file: string,
+  diagnostics: InputDiagnostic[]
+): ParsedEntities<T> {
+  const valid: ParsedEntities<T> = { values: [], indices: [] };
+  if (data === undefined) return valid; // Unreadable file, already reported
+
+  const entries = (data as Record<string, unknown> | null)?.[key];
+  if (!Array.isArray(entries)) {
+    diagnostics.push({ severity: 'error', file, message: `Expected a top-level "${key}" array` });
+    return valid;
+  }
+
+  entries.forEach((entry, index) => {
+    const result = schema.safeParse(entry);
+    if (result.success) {
+      valid.values.push(result.data);
+      valid.indices.push(index);
+      return;
+    }
+    for (const issue of result.error.issues) {
+      diagnostics.push({
+        severity: 'error',
+        file,
+        path: formatPath([key, index, ...issue.path]),
+        message: issue.message,
+      });
+    }
+  });
+  return valid;
+}
+
+/**
+ * Cross-file checks on schema-valid entries. `indices` maps each entry back
+ * to its position in the file for the reported paths.
+ */
+export function checkReferences(
+  input: Pick<ScheduleInput, 'students' | 'teachers' | 'rooms' | 'courses'>,
+  indices: Record<keyof InputFiles, number[]>,
+  config: ScheduleConfig,
+  files: InputFiles
+): InputDiagnostic[] {
+  const diagnostics: InputDiagnostic[] = [];
+  const courseIds = new Set(input.courses.map(c => c.id));
+
+  const error = (file: string, path: (string | number)[], message: string) => {
+    const [key, index, ...rest] = path as [keyof InputFiles, number, ...(string | number)[]];
+    diagnostics.push({ severity: 'error', file, path: formatPath([key, indices[key][index], ...rest]), message });
+  };
+
+  const checkCourses = (file: string, path: (string | number)[], ids: string[] | undefined) => {
+    (ids || []).forEach((id, j) => {
+      if (!courseIds.has(id)) error(file, [...path, j], `Unknown course ${id}`);
+    });
+  };
+
+  const checkPeriods = (file: string, path: (string | number)[], periods: Period[] | undefined) => {
+    (periods || []).forEach((period, j) => {
+      if (period.day >= config.daysPerWeek || period.slot >= config.periodsPerDay) {
+        error(file, [...path, j], `Period (day ${period.day}, slot ${period.slot}) is outside the week ` +
+          `(days 0-${config.daysPerWeek - 1}, slots 0-${config.periodsPerDay - 1})`);
+      }
+    });
+  };
+
+  // Duplicate IDs within each file
+  for (const key of ['students', 'teachers', 'rooms', 'courses'] as const) {
+    const firstIndex = new Map<string, number>();
+    input[key].forEach((entity, index) => {
+      const first = firstIndex.get(entity.id);
+      if (first !== undefined) {
+        error(files[key], [key, index, 'id'], `Duplicate id ${entity.id} (first at index ${indices[key][first]})`);
+      } else {
+        firstIndex.set(entity.id, index);
+      }
+    });
+  }
+
+  input.students.forEach((student, i) => {
+    checkCourses(files.students, ['students', i, 'requiredCourses'], student.requiredCourses);
+    checkCourses(files.students, ['students', i, 'electivePreferences'], student.electivePreferences);
+    if (student.electiveCount !== undefined && student.electiveCount > student.electivePreferences.length) {
+      error(files.students, ['students', i, 'electiveCount'],
+        `electiveCount ${student.electiveCount} is more than the ${student.electivePreferences.length} electives listed`);
+    }
+    // A course counts toward one choice only
+    const chosen = new Set(student.electivePreferences);
+    (student.courseGroups || []).forEach((group, g) => {
+      checkCourses(files.students, ['students', i, 'courseGroups', g, 'courses'], group.courses);
+      if ((group.count ?? 1) > group.courses.length) {
+        error(files.students, ['students', i, 'courseGroups', g, 'count'],
+          `count ${group.count} is more than the ${group.courses.length} courses listed`);
+      }
+      for (const courseId of group.courses) {
+        if (chosen.has(courseId)) {
+          error(files.students, ['students', i, 'courseGroups', g, 'courses'],
+            `Course ${courseId} is already listed in electivePreferences or another group`);
+        }
+        chosen.add(courseId);
+      }
+    });
+    (student.constraints || []).forEach((constraint, c) => {
+      checkPeriods(files.students, ['students', i, 'constraints', c, 'periods'], constraint.periods);
+    });
+  });
+
+  input.teachers.forEach((teacher, i) => {
+    checkCourses(files.teachers, ['teachers', i, 'subjects'], teacher.subjects);
+    checkPeriods(files.teachers, ['teachers', i, 'unavailable'], teacher.unavailable);
+    (teacher.preferences || []).forEach((preference, p) => {
+      checkPeriods(files.teachers, ['teachers', i, 'preferences', p, 'periods'], preference.periods);
+    });
+  });
+
+  input.rooms.forEach((room, i) => {
+    checkPeriods(files.rooms, ['rooms', i, 'unavailable'], room.unavailable);
+  });
+
+  input.courses.forEach((course, i) => {
+    checkCourses(files.courses, ['courses', i, 'prerequisites'], course.prerequisites);
+    checkCourses(files.courses, ['courses', i, 'corequisites'], course.corequisites);
+  });
+
+  return diagnostics;
+}
+
+/**
+ * ['students', 3, 'grade'] -> 'students[3].grade'
+ */
+export function formatPath(path: (string | number)[]): string {
+  return path.map((part, i) => typeof part === 'number' ? `[${part}]` : i === 0 ? part : `.${part}`).join('');
+}
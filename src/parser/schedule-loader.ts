@@ -0,0 +1,39 @@
+/**
+ * Loader for saved schedules
+ *
+ * Accepts either a raw Schedule or the JSON report written by
+ * `npm run schedule`, whose sections use `course`/`teacher`/`room`/`students`.
+ */
+
+import { readFile } from 'fs/promises';
+import type { z } from 'zod';
+import type { Schedule } from '../types/index.js';
+import { SavedScheduleSchema } from './schemas.js';
+import { formatPath } from './input-checks.js';
+import { formatDiagnostic } from './diagnostics.js';
+
+export async function loadSchedule(path: string): Promise<Schedule> {
+  const result = SavedScheduleSchema.safeParse(JSON.parse(await readFile(path, 'utf-8')));
+  if (!result.success) {
+    const errors = closestIssues(result.error.issues).map(issue => formatDiagnostic({
+      severity: 'error',
+      file: path,
+      path: formatPath(issue.path),
+      message: issue.message,
+    }));
+    throw new Error(`Invalid schedule (${errors.length} errors):\n${errors.join('\n')}`);
+  }
+  return result.data;
+}
+
+/**
+ * A section matching neither format fails as a whole; report what the
+ * format it comes closest to is missing instead
+ */
+function closestIssues(issues: z.ZodIssue[]): z.ZodIssue[] {
+  return issues.flatMap(issue => {
+    if (issue.code !== 'invalid_union') return [issue];
+    const [closest] = [...issue.unionErrors].sort((a, b) => a.issues.length - b.issues.length);
+    return closestIssues(closest.issues);
+  });
+}
@@ -0,0 +1,228 @@
+/**
+ * Zod schemas for the JSON input files and saved schedules
+ *
+ * Each schema is checked against its type in types/index.ts, so the two
+ * can't drift apart.
+ */
+
+import { z } from 'zod';
+import type {
+  Student,
+  Teacher,
+  Room,
+  Course,
+  Section,
+  Schedule,
+  ConstraintViolation,
+} from '../types/index.js';
+
+const idSchema = z.string().min(1);
+const count = z.number().int().nonnegative();
+
+export const PeriodSchema = z.object({
+  day: count,
+  slot: count,
+});
+
+export const StudentSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  grade: z.number().int(),
+  requiredCourses: z.array(idSchema),
+  electivePreferences: z.array(idSchema),
+  electiveCount: count.optional(),
+  courseGroups: z.array(z.object({
+    courses: z.array(idSchema).min(1),
+    count: z.number().int().positive().optional(),
+  })).optional(),
+  completedCourses: z.array(idSchema).optional(),
+  constraints: z.array(z.object({
+    type: z.enum(['unavailable', 'prefer', 'avoid']),
+    periods: z.array(PeriodSchema).optional(),
+    reason: z.string().optional(),
+  })).optional(),
+}) satisfies z.ZodType<Student>;
+
+export const TeacherSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  subjects: z.array(idSchema),
+  maxSections: count,
+  unavailable: z.array(PeriodSchema).optional(),
+  preferences: z.array(z.object({
+    type: z.enum(['prefer', 'avoid']),
+    periods: z.array(PeriodSchema),
+    weight: z.number().min(0).max(1),
+  })).optional(),
+}) satisfies z.ZodType<Teacher>;
+
+export const RoomSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  capacity: count,
+  features: z.array(z.string()),
+  unavailable: z.array(PeriodSchema).optional(),
+}) satisfies z.ZodType<Room>;
+
+export const CourseSchema = z.object({
+  id: idSchema,
+  name: z.string(),
+  requiredFeatures: z.array(z.string()).optional(),
+  minStudents: count.optional(),
+  maxStudents: z.number().int().positive(),
+  periodsPerWeek: z.number().int().positive(),
+  blockLength: z.number().int().positive().optional(),
+  gradeRestrictions: z.array(z.number().int()).optional(),
+  prerequisites: z.array(idSchema).optional(),
+  corequisites: z.array(idSchema).optional(),
+  sections: count,
+}) satisfies z.ZodType<Course>;
+
+export const SectionSchema = z.object({
+  id: idSchema,
+  courseId: idSchema,
+  teacherId: idSchema.optional(),
+  roomId: idSchema.optional(),
+  periods: z.array(PeriodSchema),
+  enrolledStudents: z.array(idSchema),
+  capacity: count,
+}) satisfies z.ZodType<Section>;
+
+// A section as the JSON report from `npm run schedule` writes it
+const ReportSectionSchema = z.object({
+  id: idSchema,
+  course: idSchema,
+  teacher: idSchema.optional(),
+  room: idSchema.optional(),
+  periods: z.array(PeriodSchema),
+  students: z.array(idSchema),
+  capacity: count,
+}).transform(({ course, teacher, room, students, ...section }): Section => ({
+  ...section,
+  courseId: course,
+  teacherId: teacher,
+  roomId: room,
+  enrolledStudents: students,
+}));
+
+const ViolationSchema = z.object({
+  constraintId: z.string(),
+  constraintType: z.enum([
+    'no_teacher_conflict',
+    'no_student_conflict',
+    'no_room_conflict',
+    'room_capacity',
+    'teacher_availability',
+    'student_availability',
+    'consecutive_periods',
+    'teacher_max_sections',
+    'min_section_enrollment',
+    'max_periods_per_day',
+    'min_periods_between',
+    'same_teacher_same_course',
+    'grade_separation',
+    'lunch_period',
+    'balanced_class_sizes',
+    'teacher_period_preference',
+    'minimize_room_changes',
+    'balanced_teacher_load',
+    'student_elective_preference',
+    'compact_schedule',
+    'custom',
+  ]),
+  description: z.string(),
+  severity: z.enum(['error', 'warning']),
+  entities: z.object({
+    students: z.array(idSchema).optional(),
+    teachers: z.array(idSchema).optional(),
+    rooms: z.array(idSchema).optional(),
+    sections: z.array(idSchema).optional(),
+    periods: z.array(PeriodSchema).optional(),
+  }),
+}) satisfies z.ZodType<ConstraintViolation>;
+
+/**
+ * A saved schedule: either a raw Schedule or the JSON report, whose sections
+ * use `course`/`teacher`/`room`/`students`
+ */
+export const SavedScheduleSchema = z.object({
+  sections: z.array(z.union([SectionSchema, ReportSectionSchema])),
+  unassignedStudents: z.array(z.object({
+    studentId: idSchema,
+    courseId: idSchema,
+    reason: z.string(),
+    diagnosis: z.object({
+      sections: z.array(z.object({
+        sectionId: idSchema,
+        blocks: z.array(z.object({
+          type: z.enum([
+            'full',
+            'time_conflict',
+            'grade_restriction',
+            'prerequisite',
+            'student_unavailable',
+            'lunch',
+            'daily_limit',
+            'cancelled',
+          ]),
+          detail: z.string(),
+          sectionId: idSchema.optional(),
+        })),
+      })),
+      suggestion: z.string(),
+    }).optional(),
+  })).default([]),
+  unassignedRooms: z.array(z.object({
+    sectionId: idSchema,
+    reason: z.string(),
+  })).default([]),
+  cancelledSections: z.array(z.object({
+    sectionId: idSchema,
+    courseId: idSchema,
+    teacherId: idSchema.optional(),
+    enrollment: count,
+    minStudents: count,
+    movedStudents: z.array(z.object({
+      studentId: idSchema,
+      toSectionId: idSchema.optional(),
+    })),
+  })).default([]),
+  metadata: z.object({
+    generatedAt: z.string(),
+    algorithmVersion: z.string(),
+    iterations: z.number(),
+    score: z.number(),
+    constraintsSatisfied: count,
+    constraintsTotal: count,
+    warnings: z.array(z.string()),
+    algorithm: z.string().optional(),
+    ilpObjective: z.number().optional(),
+    sectionRecommendations: z.array(z.object({
+      courseId: idSchema,
+      current: count,
+      recommended: count,
+      requiredDemand: count,
+      electiveDemand: z.number().nonnegative(),
+      sectionSize: count,
+      limitedBy: z.enum(['demand', 'min_students', 'teachers', 'rooms']),
+      justification: z.string(),
+    })).optional(),
+    infeasibleConstraints: z.array(ViolationSchema).optional(),
+    objectiveBreakdown: z.array(z.object({
+      term: z.enum([
+        'required_courses',
+        'elective_preferences',
+        'student_period_preferences',
+        'lunch',
+        'gaps',
+        'balanced_sections',
+        'open_sections',
+        'course_choices',
+        'teacher_preferences',
+      ]),
+      value: z.number(),
+      preferenceId: z.string().optional(),
+      weight: z.number().optional(),
+    })).optional(),
+  }),
+}) satisfies z.ZodType<Schedule, z.ZodTypeDef, unknown>;
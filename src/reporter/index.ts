@@ -13,7 +13,9 @@ import type {
   Period,
   StudentId,
   CourseId,
+  SectionRecommendation,
 } from '../types/index.js';
+import { getChoiceResults, type ChoiceResult } from '../scheduler/course-choices.js';
 
 const DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
 
@@ -54,6 +56,7 @@ function generateJsonReport(
       score: validation.score,
       hardViolations: validation.hardConstraintViolations.length,
       softViolations: validation.softConstraintViolations.length,
+      gapsByGrade: validation.gapsByGrade,
     },
     statistics: generateStatistics(schedule, input),
     sections: schedule.sections.map(s => ({
@@ -64,8 +67,17 @@ function generateJsonReport(
       periods: s.periods,
       enrollment: s.enrolledStudents.length,
       capacity: s.capacity,
+      students: s.enrolledStudents,
+    })),
+    courseChoices: getStudentChoices(schedule, input).map(({ studentId, choice, received }) => ({
+      student: studentId,
+      choice: choice.label,
+      needed: choice.count,
+      received,
     })),
     unassignedStudents: schedule.unassignedStudents,
+    unassignedRooms: schedule.unassignedRooms || [],
+    cancelledSections: schedule.cancelledSections || [],
   };
 
   return JSON.stringify(report, null, 2);
@@ -98,6 +110,17 @@ function generateMarkdownReport(
   lines.push(`| Soft Violations | ${validation.softConstraintViolations.length} |`);
   lines.push('');
 
+  if (schedule.metadata.objectiveBreakdown) {
+    lines.push('## Objective');
+    lines.push('');
+    lines.push('| Term | Weight | Value |');
+    lines.push('|------|--------|-------|');
+    for (const t of schedule.metadata.objectiveBreakdown) {
+      lines.push(`| ${t.term} | ${t.weight ?? '-'} | ${t.value} |`);
+    }
+    lines.push('');
+  }
+
   // Constraint Violations
   if (validation.hardConstraintViolations.length > 0) {
     lines.push('## Hard Constraint Violations');
@@ -117,6 +140,55 @@ function generateMarkdownReport(
     lines.push('');
   }
 
+  if (schedule.metadata.infeasibleConstraints?.length) {
+    lines.push('## Infeasible Constraints');
+    lines.push('');
+    lines.push('An ILP had no solution; these constraints conflict (relaxing any one of them removes the conflict):');
+    lines.push('');
+    for (const v of schedule.metadata.infeasibleConstraints) {
+      lines.push(`- **${v.constraintId}**: ${v.description}`);
+    }
+    lines.push('');
+  }
+
+  if (schedule.unassignedStudents.length > 0) {
+    lines.push('## Unassigned Students');
+    lines.push('');
+    for (const u of schedule.unassignedStudents) {
+      lines.push(`- **${u.studentId}** / ${u.courseId}: ${u.reason}`);
+      for (const d of u.diagnosis?.sections || []) {
+        const blocks = d.blocks.length > 0 ? d.blocks.map(b => b.detail).join('; ') : 'Open';
+        lines.push(`  - ${d.sectionId}: ${blocks}`);
+      }
+      if (u.diagnosis) {
+        lines.push(`  - *Suggestion*: ${u.diagnosis.suggestion}`);
+      }
+    }
+    lines.push('');
+  }
+
+  if (schedule.unassignedRooms?.length) {
+    lines.push('## Sections Without Rooms');
+    lines.push('');
+    for (const u of schedule.unassignedRooms) {
+      lines.push(`- **${u.sectionId}**: ${u.reason}`);
+    }
+    lines.push('');
+  }
+
+  if (schedule.cancelledSections?.length) {
+    lines.push('## Cancelled Sections');
+    lines.push('');
+    for (const c of schedule.cancelledSections) {
+      lines.push(`- **${c.sectionId}**: ${c.enrollment} enrolled, minimum ${c.minStudents}` +
+        (c.teacherId ? ` (${c.teacherId} freed)` : ''));
+      for (const m of c.movedStudents) {
+        lines.push(`  - ${m.studentId} → ${m.toSectionId ?? 'no other section fit'}`);
+      }
+    }
+    lines.push('');
+  }
+
   // Course Summary
   lines.push('## Courses');
   lines.push('');
@@ -138,6 +210,37 @@ function generateMarkdownReport(
   }
   lines.push('');
 
+  // Free periods between classes
+  lines.push('## Gaps by Grade');
+  lines.push('');
+  lines.push('| Grade | Students | Gaps | Per Student | Students With Gaps | Most in a Day |');
+  lines.push('|-------|----------|------|-------------|--------------------|---------------|');
+  for (const g of validation.gapsByGrade) {
+    lines.push(`| ${g.grade} | ${g.students} | ${g.totalGaps} | ${g.averageGaps} | ${g.studentsWithGaps} | ${g.maxGapsPerDay} |`);
+  }
+  lines.push('');
+
+  // Ranks received from each student's electives and course groups
+  const choices = getStudentChoices(schedule, input);
+  if (choices.length > 0) {
+    lines.push('## Course Choices');
+    lines.push('');
+    lines.push('| Student | Choice | Needed | Received (rank) |');
+    lines.push('|---------|--------|--------|-----------------|');
+    for (const { studentId, choice, received } of choices) {
+      const receivedText = received.map(r => `${r.courseId} (${r.rank})`).join(', ') || '-';
+      lines.push(`| ${studentId} | ${choice.label} | ${choice.count ?? 'any'} | ${receivedText} |`);
+    }
+    lines.push('');
+  }
+
+  if (schedule.metadata.sectionRecommendations) {
+    lines.push('## Section Counts');
+    lines.push('');
+    lines.push(formatSectionRecommendations(schedule.metadata.sectionRecommendations));
+    lines.push('');
+  }
+
   // Master Schedule Grid
   lines.push('## Master Schedule');
   lines.push('');
@@ -197,6 +300,13 @@ function generateTextReport(
   lines.push(`  Unassigned Students:  ${stats.unassignedCount}`);
   lines.push(`  Sections w/o Room:    ${stats.sectionsWithoutRoom}`);
   lines.push(`  Sections w/o Teacher: ${stats.sectionsWithoutTeacher}`);
+  for (const g of validation.gapsByGrade) {
+    lines.push(`  Gaps, Grade ${String(g.grade).padEnd(6)}${g.totalGaps} (${g.averageGaps} per student)`);
+  }
+  const choiceRanks = countChoiceRanks(getStudentChoices(schedule, input));
+  if (choiceRanks.length > 0) {
+    lines.push(`  Choices by Rank:      ${choiceRanks.map(([rank, n]) => `#${rank}: ${n}`).join(', ')}`);
+  }
   lines.push('');
 
   // Constraint Summary
@@ -227,6 +337,33 @@ function generateTextReport(
     lines.push('');
   }
 
+  if (schedule.unassignedRooms?.length) {
+    lines.push(c.yellow('  SECTIONS WITHOUT ROOM:'));
+    for (const u of schedule.unassignedRooms) {
+      lines.push(c.yellow(`    • ${u.sectionId}: ${u.reason}`));
+    }
+    lines.push('');
+  }
+
+  if (schedule.metadata.infeasibleConstraints?.length) {
+    lines.push(c.red('  INFEASIBLE CONSTRAINTS (conflicting set from the ILP):'));
+    for (const v of schedule.metadata.infeasibleConstraints) {
+      lines.push(c.red(`    • [${v.constraintId}] ${v.description}`));
+    }
+    lines.push('');
+  }
+
+  if (schedule.cancelledSections?.length) {
+    lines.push(c.yellow('  CANCELLED SECTIONS (below minimum enrollment):'));
+    for (const cs of schedule.cancelledSections) {
+      const moved = cs.movedStudents
+        .map(m => `${m.studentId} → ${m.toSectionId ?? 'none'}`)
+        .join(', ');
+      lines.push(c.yellow(`    • ${cs.sectionId}: ${cs.enrollment}/${cs.minStudents}${moved ? ` - moved ${moved}` : ''}`));
+    }
+    lines.push('');
+  }
+
   // Course Summary
   lines.push(c.bold('─'.repeat(70)));
   lines.push(c.bold('COURSE ENROLLMENT SUMMARY'));
@@ -286,6 +423,37 @@ function generateStatistics(schedule: Schedule, input: ScheduleInput) {
   };
 }
 
+/**
+ * Each student's electives and course groups with the courses received
+ */
+function getStudentChoices(
+  schedule: Schedule,
+  input: ScheduleInput
+): (ChoiceResult & { studentId: StudentId })[] {
+  const enrolled = new Map<StudentId, Set<CourseId>>();
+  for (const section of schedule.sections) {
+    for (const studentId of section.enrolledStudents) {
+      if (!enrolled.has(studentId)) enrolled.set(studentId, new Set());
+      enrolled.get(studentId)!.add(section.courseId);
+    }
+  }
+  return input.students.flatMap(student =>
+    getChoiceResults(student, enrolled.get(student.id) || new Set())
+      .map(result => ({ ...result, studentId: student.id }))
+  );
+}
+
+/**
+ * How many courses were received at each rank, as [rank, count] pairs
+ */
+function countChoiceRanks(choices: ChoiceResult[]): [number, number][] {
+  const counts = new Map<number, number>();
+  for (const { received } of choices) {
+    for (const { rank } of received) counts.set(rank, (counts.get(rank) || 0) + 1);
+  }
+  return [...counts.entries()].sort(([a], [b]) => a - b);
+}
+
 function generateMasterScheduleText(
   schedule: Schedule,
   input: ScheduleInput,
@@ -442,6 +610,20 @@ function generateTeacherSchedulesMarkdown(schedule: Schedule, input: ScheduleInp
   return lines.join('\n');
 }
 
+/**
+ * Markdown table of recommended section counts and why
+ */
+export function formatSectionRecommendations(recommendations: SectionRecommendation[]): string {
+  const lines: string[] = [];
+  lines.push('| Course | Current | Recommended | Required | Electives | Per Section | Limited By | Justification |');
+  lines.push('|--------|---------|-------------|----------|-----------|-------------|------------|---------------|');
+  for (const r of recommendations) {
+    lines.push(`| ${r.courseId} | ${r.current} | ${r.recommended} | ${r.requiredDemand} | ${r.electiveDemand} | ` +
+      `${r.sectionSize} | ${r.limitedBy} | ${r.justification} |`);
+  }
+  return lines.join('\n');
+}
+
 export function generateStudentSchedule(
   studentId: StudentId,
   schedule: Schedule,
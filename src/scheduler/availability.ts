@@ -0,0 +1,50 @@
+/**
+ * Teacher availability rule
+ *
+ * A teacher is unavailable during the periods listed in teachers.json plus any
+ * HARD: TEACHER_UNAVAILABLE lines naming them, e.g.
+ *   HARD: TEACHER_UNAVAILABLE | Staff meeting | teacher=t-brown day=1 periods=1,2
+ * Days and periods count from 1. Omitting day means every day; omitting
+ * periods means the whole day.
+ */
+
+import type { ScheduleInput, Teacher, Period } from '../types/index.js';
+
+/**
+ * Periods the teacher can't teach, from both sources
+ */
+export function getTeacherUnavailable(teacher: Teacher, input: ScheduleInput): Period[] {
+  const periods = [...(teacher.unavailable || [])];
+  const allDays = [...Array(input.config.daysPerWeek).keys()];
+  const allSlots = [...Array(input.config.periodsPerDay).keys()];
+
+  for (const constraint of input.constraints) {
+    if (constraint.type !== 'teacher_availability' || constraint.params.teacher !== teacher.id) continue;
+
+    const days = (constraint.params.day as number[] | undefined)?.map(d => d - 1) ?? allDays;
+    const slots = (constraint.params.periods as number[] | undefined)?.map(p => p - 1) ?? allSlots;
+    for (const day of days) {
+      for (const slot of slots) {
+        if (!periods.some(p => p.day === day && p.slot === slot)) {
+          periods.push({ day, slot });
+        }
+      }
+    }
+  }
+
+  return periods;
+}
+
+/**
+ * The input with each teacher's `unavailable` covering constraint-file rules
+ * too, so the scheduler phases and checks only need to read `unavailable`
+ */
+export function withTeacherAvailability(input: ScheduleInput): ScheduleInput {
+  if (!input.constraints.some(c => c.type === 'teacher_availability' && c.params.teacher !== undefined)) {
+    return input;
+  }
+  return {
+    ...input,
+    teachers: input.teachers.map(teacher => ({ ...teacher, unavailable: getTeacherUnavailable(teacher, input) })),
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Ranked course choices
+ *
+ * A student chooses courses from ranked lists, first choice first:
+ *   - electivePreferences: any number of them, or exactly `electiveCount`
+ *   - each of courseGroups: `count` (default 1) of its courses, e.g. one of
+ *     Spanish I and French I
+ * A choice with a count is needed like a required course (each course short
+ * of it is a missing enrollment), and within it higher ranks are preferred.
+ */
+
+import type { Student, CourseId } from '../types/index.js';
+
+export interface CourseChoice {
+  label: string;        // "electives" or "group 1", as reports show it
+  courses: CourseId[];  // Ranked
+  count: number | null; // null: any number (electives without electiveCount)
+}
+
+export interface ChoiceResult {
+  choice: CourseChoice;
+  received: { courseId: CourseId; rank: number }[]; // rank is 1-based
+}
+
+export function getCourseChoices(student: Student): CourseChoice[] {
+  const choices: CourseChoice[] = [];
+  if (student.electivePreferences.length > 0) {
+    choices.push({
+      label: 'electives',
+      courses: student.electivePreferences,
+      count: student.electiveCount ?? null,
+    });
+  }
+  (student.courseGroups || []).forEach((group, i) => {
+    choices.push({ label: `group ${i + 1}`, courses: group.courses, count: group.count ?? 1 });
+  });
+  return choices;
+}
+
+/**
+ * Every course the student ranks, across electives and groups
+ */
+export function getChosenCourses(student: Student): CourseId[] {
+  return [...new Set(getCourseChoices(student).flatMap(c => c.courses))];
+}
+
+/**
+ * 0-based rank of the course within the first choice listing it, or -1
+ */
+export function getChoiceRank(student: Student, courseId: CourseId): number {
+  for (const choice of getCourseChoices(student)) {
+    const rank = choice.courses.indexOf(courseId);
+    if (rank !== -1) return rank;
+  }
+  return -1;
+}
+
+/**
+ * The courses and ranks the student received from each choice
+ */
+export function getChoiceResults(student: Student, enrolled: Set<CourseId>): ChoiceResult[] {
+  return getCourseChoices(student).map(choice => ({
+    choice,
+    received: choice.courses.flatMap((courseId, i) => enrolled.has(courseId) ? [{ courseId, rank: i + 1 }] : []),
+  }));
+}
+
+export function describeChoice(choice: CourseChoice): string {
+  const needed = choice.count === null ? 'any' : String(choice.count);
+  return `${choice.label} (${needed} of ${choice.courses.join(', ')})`;
+}
@@ -0,0 +1,184 @@
+/**
+ * Daily load and spacing rules for students
+ *
+ *   HARD: MAX_PERIODS_PER_DAY | ... | max=7 exclude=pe,music-band
+ *     A student has at most `max` periods of class a day; courses listed in
+ *     `exclude` don't count toward it.
+ *   HARD: MIN_PERIODS_BETWEEN | ... | courses=math-calc,sci-phys gap=1
+ *     A student taking two or more of `courses` gets at least `gap` periods
+ *     (default 1) between meetings of different ones on the same day, so
+ *     gap=1 means never back-to-back.
+ *
+ * Both may appear on several lines. A line with `grades=9,10` applies to
+ * those grades and overrides the line without `grades` for them (for
+ * MIN_PERIODS_BETWEEN, the line for the same courses). Two lines for the
+ * same grades are rejected when constraints.txt is read.
+ */
+
+import type {
+  ScheduleInput,
+  ScheduleConstraint,
+  Section,
+  Period,
+  CourseId,
+  StudentId,
+} from '../types/index.js';
+
+export interface MaxPeriodsRule {
+  constraintId: string;
+  max: number;
+  exclude: CourseId[];
+}
+
+export interface MinGapRule {
+  constraintId: string;
+  courses: CourseId[];
+  gap: number;
+}
+
+export interface DailyLimits {
+  maxPeriods: MaxPeriodsRule | null;
+  minGaps: MinGapRule[];
+}
+
+export type DailyLimitCheck = (studentId: StudentId, section: Section) => boolean;
+
+/** Sections too close together under a MIN_PERIODS_BETWEEN rule */
+export interface GapConflict {
+  rule: MinGapRule;
+  first: Section;
+  second: Section;
+  day: number;
+}
+
+/**
+ * The rules that apply to a grade
+ */
+export function getDailyLimits(input: ScheduleInput, grade: number): DailyLimits {
+  const forGrade = (type: ScheduleConstraint['type']) => {
+    const lines = input.constraints.filter(c => c.type === type);
+    const specific = lines.filter(c => (c.params.grades as number[] | undefined)?.includes(grade));
+    const general = lines.filter(c => c.params.grades === undefined);
+    return { specific, general };
+  };
+
+  const max = forGrade('max_periods_per_day');
+  const maxLine = max.specific[0] ?? max.general[0];
+
+  // Per course set, the grade's own line wins over the general one
+  const gap = forGrade('min_periods_between');
+  const gapLines = new Map<string, ScheduleConstraint>();
+  for (const line of [...gap.general, ...gap.specific]) {
+    gapLines.set(courseSetKey(line), line);
+  }
+
+  return {
+    maxPeriods: maxLine ? {
+      constraintId: maxLine.id,
+      max: maxLine.params.max as number,
+      exclude: (maxLine.params.exclude as CourseId[] | undefined) ?? [],
+    } : null,
+    minGaps: [...gapLines.values()].map(line => ({
+      constraintId: line.id,
+      courses: line.params.courses as CourseId[],
+      gap: (line.params.gap as number | undefined) ?? 1,
+    })),
+  };
+}
+
+export function hasDailyLimits(input: ScheduleInput): boolean {
+  return input.constraints.some(c => c.type === 'max_periods_per_day' || c.type === 'min_periods_between');
+}
+
+/**
+ * Periods per day that count toward the max rule (index = day)
+ */
+export function countDailyPeriods(
+  sections: { courseId: CourseId; periods: Period[] }[],
+  rule: MaxPeriodsRule,
+  daysPerWeek: number
+): number[] {
+  const counts = new Array<number>(daysPerWeek).fill(0);
+  for (const section of sections) {
+    if (rule.exclude.includes(section.courseId)) continue;
+    for (const period of section.periods) {
+      counts[period.day]++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Days on which two sections meet within `gap` periods of each other
+ */
+export function getCloseDays(
+  a: { periods: Period[] },
+  b: { periods: Period[] },
+  gap: number
+): number[] {
+  const days = new Set<number>();
+  for (const p of a.periods) {
+    for (const q of b.periods) {
+      if (p.day === q.day && Math.abs(p.slot - q.slot) <= gap) days.add(p.day);
+    }
+  }
+  return [...days].sort((x, y) => x - y);
+}
+
+/**
+ * Pairs of the sections, of different courses under one rule, that meet too
+ * close together
+ */
+export function findGapConflicts(sections: Section[], rules: MinGapRule[]): GapConflict[] {
+  const conflicts: GapConflict[] = [];
+  for (const rule of rules) {
+    const listed = sections.filter(s => rule.courses.includes(s.courseId));
+    for (let i = 0; i < listed.length; i++) {
+      for (let j = i + 1; j < listed.length; j++) {
+        if (listed[i].courseId === listed[j].courseId) continue;
+        for (const day of getCloseDays(listed[i], listed[j], rule.gap)) {
+          conflicts.push({ rule, first: listed[i], second: listed[j], day });
+        }
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * A check for the greedy and balancing passes: whether moving the student
+ * into `section` (out of any other section of its course) breaks a rule.
+ * Reads the student's sections from `sections` as they stand at each call.
+ */
+export function createDailyLimitCheck(
+  input: ScheduleInput,
+  sections: Section[]
+): DailyLimitCheck {
+  if (!hasDailyLimits(input)) return () => false;
+
+  const grades = new Map(input.students.map(s => [s.id, s.grade]));
+  const limitsByGrade = new Map<number, DailyLimits>();
+
+  return (studentId, section) => {
+    const grade = grades.get(studentId);
+    if (grade === undefined) return false;
+    if (!limitsByGrade.has(grade)) limitsByGrade.set(grade, getDailyLimits(input, grade));
+    const limits = limitsByGrade.get(grade)!;
+
+    const current = sections.filter(s =>
+      s.courseId !== section.courseId && s.enrolledStudents.includes(studentId)
+    );
+
+    const maxRule = limits.maxPeriods;
+    if (maxRule && !maxRule.exclude.includes(section.courseId)) {
+      const counts = countDailyPeriods([...current, section], maxRule, input.config.daysPerWeek);
+      if (section.periods.some(p => counts[p.day] > maxRule.max)) return true;
+    }
+    return findGapConflicts([...current, section], limits.minGaps)
+      .some(conflict => conflict.first === section || conflict.second === section);
+  };
+}
+
+function courseSetKey(line: ScheduleConstraint): string {
+  return [...((line.params.courses as CourseId[] | undefined) ?? [])].sort().join(',');
+}
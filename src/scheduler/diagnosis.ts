@@ -0,0 +1,292 @@
+/**
+ * Unassigned student diagnosis
+ *
+ * For each unassigned (student, course), checks every section of the course
+ * against the finished schedule and records what keeps the student out:
+ * a full section, a time conflict with one of their sections, a grade
+ * restriction or missing prerequisite, their unavailable periods, the hard
+ * lunch rule, a daily limit (daily-limits.ts), or the section having been
+ * cancelled. It then suggests the
+ * smallest change that gets them in, counting:
+ *   1  add a seat, or move the student out of a conflicting section into
+ *      another section of that course
+ *   2  move the section to a meeting time free for the student, its teacher
+ *      and its room (it disturbs everyone already enrolled)
+ */
+
+import type {
+  Schedule,
+  ScheduleInput,
+  ScheduleConfig,
+  Section,
+  Student,
+  Course,
+  Period,
+  PlacementDiagnosis,
+  PlacementBlock,
+  SectionDiagnosis,
+  StudentId,
+} from '../types/index.js';
+import { getMissingPrerequisites, getStudentPeriodKeys, prerequisiteReason } from './eligibility.js';
+import { getLunchRule, blocksLunch } from './lunch.js';
+import { getCandidateMeetings } from './meeting-patterns.js';
+import { getDailyLimits, countDailyPeriods, findGapConflicts } from './daily-limits.js';
+
+const DAY_NAMES = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const periodKey = (p: Period) => `${p.day}-${p.slot}`;
+
+/**
+ * Periods as report readers see them: "period 4" when a slot meets every
+ * day, otherwise "period 4 on Mon/Wed"
+ */
+export function describePeriods(periods: Period[], config: ScheduleConfig): string {
+  const daysBySlot = new Map<number, number[]>();
+  for (const { day, slot } of periods) {
+    daysBySlot.set(slot, [...(daysBySlot.get(slot) || []), day]);
+  }
+  return [...daysBySlot.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([slot, days]) => days.length >= config.daysPerWeek
+      ? `period ${slot + 1}`
+      : `period ${slot + 1} on ${[...new Set(days)].sort((a, b) => a - b).map(d => DAY_NAMES[d] ?? `day ${d + 1}`).join('/')}`)
+    .join(', ');
+}
+
+/**
+ * Attach a diagnosis to every unassigned student entry of the schedule
+ */
+export function diagnoseUnassigned(schedule: Schedule, input: ScheduleInput): void {
+  const courseMap = new Map(input.courses.map(c => [c.id, c]));
+  const studentMap = new Map(input.students.map(s => [s.id, s]));
+
+  const enrolled = new Map<StudentId, Section[]>();
+  for (const section of schedule.sections) {
+    for (const studentId of section.enrolledStudents) {
+      enrolled.set(studentId, [...(enrolled.get(studentId) || []), section]);
+    }
+  }
+
+  for (const entry of schedule.unassignedStudents) {
+    const student = studentMap.get(entry.studentId);
+    const course = courseMap.get(entry.courseId);
+    if (!student || !course) continue;
+    entry.diagnosis = diagnosePlacement(student, course, enrolled.get(student.id) || [], schedule, input);
+  }
+}
+
+function diagnosePlacement(
+  student: Student,
+  course: Course,
+  ownSections: Section[],
+  schedule: Schedule,
+  input: ScheduleInput
+): PlacementDiagnosis {
+  const { config } = input;
+  const lunchRule = getLunchRule(input);
+  const lunchSlots = lunchRule?.hard ? lunchRule.slots : [];
+  const unavailable = getStudentPeriodKeys(student, 'unavailable');
+  const busy = new Set(ownSections.flatMap(s => s.periods.map(periodKey)));
+  const courseSections = schedule.sections.filter(s => s.courseId === course.id);
+  const limits = getDailyLimits(input, student.grade);
+
+  const blocksFor = (section: Section): PlacementBlock[] => {
+    const blocks: PlacementBlock[] = [];
+
+    if (course.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
+      blocks.push({
+        type: 'grade_restriction',
+        detail: `Grade ${student.grade} not allowed (grades ${course.gradeRestrictions.join(', ')})`,
+      });
+    }
+    const missing = getMissingPrerequisites(student, course);
+    if (missing.length > 0) {
+      blocks.push({ type: 'prerequisite', detail: prerequisiteReason(missing) });
+    }
+    if (section.enrolledStudents.length >= section.capacity) {
+      blocks.push({ type: 'full', detail: `Full (${section.enrolledStudents.length}/${section.capacity})` });
+    }
+    for (const other of ownSections) {
+      const overlap = other.periods.filter(p => section.periods.some(q => periodKey(q) === periodKey(p)));
+      if (overlap.length > 0) {
+        blocks.push({
+          type: 'time_conflict',
+          detail: `Meets at the same time as ${other.id} (${describePeriods(overlap, config)})`,
+          sectionId: other.id,
+        });
+      }
+    }
+    const blocked = section.periods.filter(p => unavailable.has(periodKey(p)));
+    if (blocked.length > 0) {
+      blocks.push({ type: 'student_unavailable', detail: `Student unavailable ${describePeriods(blocked, config)}` });
+    }
+    if (lunchSlots.length > 0 && blocksLunch(busy, section.periods, lunchSlots)) {
+      blocks.push({ type: 'lunch', detail: 'Would take the student\'s last free lunch period' });
+    }
+
+    const maxRule = limits.maxPeriods;
+    if (maxRule && !maxRule.exclude.includes(course.id)) {
+      const counts = countDailyPeriods([...ownSections, section], maxRule, config.daysPerWeek);
+      const days = [...new Set(section.periods.map(p => p.day))].filter(day => counts[day] > maxRule.max);
+      if (days.length > 0) {
+        blocks.push({
+          type: 'daily_limit',
+          detail: `Would exceed ${maxRule.max} periods a day on ${days.map(d => DAY_NAMES[d] ?? `day ${d + 1}`).join('/')} (${maxRule.constraintId})`,
+        });
+      }
+    }
+    for (const conflict of findGapConflicts([...ownSections, section], limits.minGaps)) {
+      const other = conflict.first === section ? conflict.second : conflict.second === section ? conflict.first : null;
+      if (!other) continue;
+      blocks.push({
+        type: 'daily_limit',
+        detail: `Fewer than ${conflict.rule.gap} period(s) from ${other.id} on ${DAY_NAMES[conflict.day] ?? `day ${conflict.day + 1}`} (${conflict.rule.constraintId})`,
+        sectionId: other.id,
+      });
+    }
+
+    return blocks;
+  };
+
+  const sections: SectionDiagnosis[] = courseSections.map(section => ({
+    sectionId: section.id,
+    blocks: blocksFor(section),
+  }));
+  for (const cancelled of (schedule.cancelledSections || []).filter(c => c.courseId === course.id)) {
+    sections.push({
+      sectionId: cancelled.sectionId,
+      blocks: [{
+        type: 'cancelled',
+        detail: `Cancelled (${cancelled.enrollment} enrolled, minimum ${cancelled.minStudents})`,
+      }],
+    });
+  }
+
+  // Cheapest fix over the running sections
+  let best: { cost: number; text: string } | null = null;
+  for (const section of courseSections) {
+    const fix = suggestFix(student, section, sections.find(d => d.sectionId === section.id)!.blocks,
+      ownSections, busy, unavailable, lunchSlots, schedule, input);
+    if (fix && (!best || fix.cost < best.cost)) best = fix;
+  }
+
+  let suggestion: string;
+  if (best) {
+    suggestion = best.text;
+  } else if (sections.length === 0) {
+    suggestion = `Open a section of ${course.id}: none is offered`;
+  } else if (courseSections.length === 0) {
+    suggestion = `Reopen ${sections[0].sectionId}: every section of ${course.id} was cancelled below minStudents`;
+  } else {
+    const fixed = sections[0].blocks.find(b => b.type === 'grade_restriction' || b.type === 'prerequisite');
+    suggestion = fixed
+      ? `No schedule change helps: ${fixed.detail}`
+      : 'No single change found: see the blocks listed for each section';
+  }
+
+  return { sections, suggestion };
+}
+
+/**
+ * The smallest set of changes that opens this section to the student, or
+ * null if grade, prerequisite or daily limit rules keep them out (no single
+ * move is known to lift a daily limit)
+ */
+function suggestFix(
+  student: Student,
+  section: Section,
+  blocks: PlacementBlock[],
+  ownSections: Section[],
+  busy: Set<string>,
+  unavailable: Set<string>,
+  lunchSlots: number[],
+  schedule: Schedule,
+  input: ScheduleInput
+): { cost: number; text: string } | null {
+  if (blocks.some(b => b.type === 'grade_restriction' || b.type === 'prerequisite' || b.type === 'daily_limit')) {
+    return null;
+  }
+  if (blocks.length === 0) {
+    return { cost: 0, text: `Enroll ${student.id} in ${section.id}: it has a seat and no conflict` };
+  }
+
+  const parts: string[] = [];
+  let cost = 0;
+
+  if (blocks.some(b => b.type === 'full')) {
+    const room = input.rooms.find(r => r.id === section.roomId);
+    const roomNote = room && room.capacity <= section.capacity ? `, in a room for ${section.capacity + 1}` : '';
+    parts.push(`add one seat to ${section.id} (${section.capacity} → ${section.capacity + 1}${roomNote})`);
+    cost += 1;
+  }
+
+  const timeBlocks = blocks.filter(b => b.type !== 'full');
+  if (timeBlocks.length > 0) {
+    // Either move the student out of each conflicting section...
+    const moves = timeBlocks.every(b => b.type === 'time_conflict')
+      ? timeBlocks.map(b => {
+          const conflicting = ownSections.find(s => s.id === b.sectionId)!;
+          const rest = new Set(ownSections.filter(s => s !== conflicting).flatMap(s => s.periods.map(periodKey)));
+          section.periods.forEach(p => rest.add(periodKey(p)));
+          const alternative = schedule.sections.find(s =>
+            s.courseId === conflicting.courseId && s !== conflicting &&
+            s.enrolledStudents.length < s.capacity &&
+            !s.periods.some(p => rest.has(periodKey(p)) || unavailable.has(periodKey(p))) &&
+            (lunchSlots.length === 0 || !blocksLunch(rest, s.periods, lunchSlots))
+          );
+          return alternative ? `move ${student.id} from ${conflicting.id} to ${alternative.id}` : null;
+        })
+      : [];
+
+    // ...or move the section to a time that suits the student, teacher and room
+    const newTime = findFreeMeeting(section, busy, unavailable, lunchSlots, schedule, input);
+
+    if (moves.length > 0 && moves.every(Boolean) && moves.length <= 2) {
+      parts.push(...moves as string[]);
+      cost += moves.length;
+    } else if (newTime) {
+      parts.push(`move ${section.id} to ${describePeriods(newTime, input.config)}`);
+      cost += 2;
+    } else {
+      return null;
+    }
+  }
+
+  const text = parts.join(' and ');
+  return { cost, text: text.charAt(0).toUpperCase() + text.slice(1) };
+}
+
+/**
+ * A candidate meeting for the section's course free for the student, the
+ * section's teacher and its room
+ */
+function findFreeMeeting(
+  section: Section,
+  busy: Set<string>,
+  unavailable: Set<string>,
+  lunchSlots: number[],
+  schedule: Schedule,
+  input: ScheduleInput
+): Period[] | undefined {
+  const course = input.courses.find(c => c.id === section.courseId);
+  const teacher = input.teachers.find(t => t.id === section.teacherId);
+  const room = input.rooms.find(r => r.id === section.roomId);
+
+  const taken = new Set<string>();
+  for (const other of schedule.sections) {
+    if (other === section) continue;
+    if ((section.teacherId && other.teacherId === section.teacherId) || (section.roomId && other.roomId === section.roomId)) {
+      other.periods.forEach(p => taken.add(periodKey(p)));
+    }
+  }
+  for (const p of [...(teacher?.unavailable || []), ...(room?.unavailable || [])]) {
+    taken.add(periodKey(p));
+  }
+
+  const current = new Set(section.periods.map(periodKey));
+  return getCandidateMeetings(course, input.config).find(periods =>
+    periods.some(p => !current.has(periodKey(p))) &&
+    !periods.some(p => busy.has(periodKey(p)) || unavailable.has(periodKey(p)) || taken.has(periodKey(p))) &&
+    (lunchSlots.length === 0 || !blocksLunch(busy, periods, lunchSlots))
+  );
+}
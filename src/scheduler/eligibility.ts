@@ -0,0 +1,85 @@
+/**
+ * Student eligibility checks shared by the ILP and greedy assignment paths
+ */
+
+import type { Student, StudentConstraint, Course, CourseId } from '../types/index.js';
+import { getChosenCourses } from './course-choices.js';
+
+/**
+ * Prerequisites of `course` the student has not completed.
+ *
+ * Students without a `completedCourses` history are not checked, so data
+ * sets that don't track course history keep scheduling as before.
+ */
+export function getMissingPrerequisites(student: Student, course: Course): CourseId[] {
+  if (!course.prerequisites?.length || !student.completedCourses) {
+    return [];
+  }
+  const completed = new Set(student.completedCourses);
+  return course.prerequisites.filter(p => !completed.has(p));
+}
+
+export function prerequisiteReason(missing: CourseId[]): string {
+  return `Missing prerequisite${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`;
+}
+
+/**
+ * Whether the student's grade and course history allow them to take `course`.
+ */
+export function canEnroll(student: Student, course: Course | undefined): boolean {
+  if (!course) return true;
+  if (course.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
+    return false;
+  }
+  return getMissingPrerequisites(student, course).length === 0;
+}
+
+/**
+ * The course followed by its corequisites, followed transitively.
+ */
+export function getCorequisiteClosure(
+  courseId: CourseId,
+  courseMap: Map<CourseId, Course>
+): CourseId[] {
+  const closure = [courseId];
+  for (let i = 0; i < closure.length; i++) {
+    for (const coreq of courseMap.get(closure[i])?.corequisites || []) {
+      if (!closure.includes(coreq)) closure.push(coreq);
+    }
+  }
+  return closure;
+}
+
+/**
+ * Courses the student asked for (required, electives and course groups)
+ * plus the corequisites those courses pull in.
+ */
+export function getRequestedCourses(
+  student: Student,
+  courseMap: Map<CourseId, Course>
+): Set<CourseId> {
+  const requested = new Set<CourseId>();
+  for (const courseId of [...student.requiredCourses, ...getChosenCourses(student)]) {
+    for (const id of getCorequisiteClosure(courseId, courseMap)) {
+      requested.add(id);
+    }
+  }
+  return requested;
+}
+
+/**
+ * Period keys ("day-slot") from the student's constraints of the given type.
+ */
+export function getStudentPeriodKeys(
+  student: Student,
+  type: StudentConstraint['type']
+): Set<string> {
+  const keys = new Set<string>();
+  for (const constraint of student.constraints || []) {
+    if (constraint.type !== type) continue;
+    for (const period of constraint.periods || []) {
+      keys.add(`${period.day}-${period.slot}`);
+    }
+  }
+  return keys;
+}
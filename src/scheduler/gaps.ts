@@ -0,0 +1,127 @@
+/**
+ * Gaps in student days
+ *
+ * A gap is a free period between two of a student's classes on the same day
+ * (free periods before the first class or after the last don't count). A
+ * free lunch slot is not a gap, so keeping lunch open costs nothing. SOFT:
+ * MINIMIZE_GAPS makes fewer gaps a weighted goal of the ILP, and balancing
+ * moves that would add one are skipped; the validator reports the counts
+ * per grade either way.
+ */
+
+import type {
+  ScheduleInput,
+  Section,
+  Period,
+  StudentId,
+  GradeGapStatistics,
+} from '../types/index.js';
+import { getLunchRule } from './lunch.js';
+
+export type GapCheck = (studentId: StudentId, section: Section) => boolean;
+
+export interface GapRule {
+  weight: number; // 0-1
+  ignoredSlots: number[]; // Lunch slots, never counted as gaps
+}
+
+export function getGapRule(input: ScheduleInput): GapRule | null {
+  const preference = input.preferences.find(p => p.type === 'compact_schedule');
+  if (!preference) return null;
+  return { weight: preference.weight, ignoredSlots: getGapSlotsIgnored(input) };
+}
+
+/**
+ * Slots that never count as gaps: the lunch slots, if a lunch rule is set
+ */
+export function getGapSlotsIgnored(input: ScheduleInput): number[] {
+  return getLunchRule(input)?.slots ?? [];
+}
+
+/**
+ * Gaps per day (index = day) in a student's periods
+ */
+export function countGaps(periods: Period[], daysPerWeek: number, ignoredSlots: number[]): number[] {
+  const gaps = new Array<number>(daysPerWeek).fill(0);
+  for (let day = 0; day < daysPerWeek; day++) {
+    const slots = new Set(periods.filter(p => p.day === day).map(p => p.slot));
+    if (slots.size < 2) continue;
+    const first = Math.min(...slots);
+    const last = Math.max(...slots);
+    for (let slot = first + 1; slot < last; slot++) {
+      if (!slots.has(slot) && !ignoredSlots.includes(slot)) gaps[day]++;
+    }
+  }
+  return gaps;
+}
+
+/**
+ * A check for the balancing pass: whether moving the student into `section`
+ * (out of any other section of its course) gives them more gaps. Always
+ * false without SOFT: MINIMIZE_GAPS, and for a lopsided course (an empty
+ * running section, or sizes further apart than BALANCED_SECTIONS
+ * max_spread), which the validator flags and a few gaps shouldn't keep.
+ * Reads the sections as they stand at each call.
+ */
+export function createGapCheck(input: ScheduleInput, sections: Section[]): GapCheck {
+  const rule = getGapRule(input);
+  if (!rule) return () => false;
+
+  const maxSpread = (input.preferences.find(p => p.type === 'balanced_class_sizes')?.params
+    ?.max_spread as number | undefined) ?? 5;
+  const isLopsided = (section: Section) => {
+    const minStudents = input.courses.find(c => c.id === section.courseId)?.minStudents ?? 0;
+    const sizes = sections
+      .filter(s => s.courseId === section.courseId && s.enrolledStudents.length >= minStudents)
+      .map(s => s.enrolledStudents.length);
+    return Math.min(...sizes) === 0 || Math.max(...sizes) - Math.min(...sizes) > maxSpread;
+  };
+
+  const totalGaps = (list: Section[]) =>
+    countGaps(list.flatMap(s => s.periods), input.config.daysPerWeek, rule.ignoredSlots)
+      .reduce((sum, g) => sum + g, 0);
+
+  return (studentId, section) => {
+    if (isLopsided(section)) return false;
+    const current = sections.filter(s => s.enrolledStudents.includes(studentId));
+    const moved = [...current.filter(s => s.courseId !== section.courseId), section];
+    return totalGaps(moved) > totalGaps(current);
+  };
+}
+
+/**
+ * Gap counts per grade over the students' enrolled sections
+ */
+export function getGapStatistics(sections: Section[], input: ScheduleInput): GradeGapStatistics[] {
+  const ignoredSlots = getGapSlotsIgnored(input);
+  const periodsByStudent = new Map<string, Period[]>();
+  for (const section of sections) {
+    for (const studentId of section.enrolledStudents) {
+      periodsByStudent.set(studentId, [...(periodsByStudent.get(studentId) || []), ...section.periods]);
+    }
+  }
+
+  const byGrade = new Map<number, GradeGapStatistics>();
+  for (const student of input.students) {
+    const stats = byGrade.get(student.grade) ?? {
+      grade: student.grade,
+      students: 0,
+      totalGaps: 0,
+      averageGaps: 0,
+      maxGapsPerDay: 0,
+      studentsWithGaps: 0,
+    };
+    const gaps = countGaps(periodsByStudent.get(student.id) || [], input.config.daysPerWeek, ignoredSlots);
+    const total = gaps.reduce((sum, g) => sum + g, 0);
+
+    stats.students++;
+    stats.totalGaps += total;
+    stats.maxGapsPerDay = Math.max(stats.maxGapsPerDay, ...gaps);
+    if (total > 0) stats.studentsWithGaps++;
+    byGrade.set(student.grade, stats);
+  }
+
+  return [...byGrade.values()]
+    .map(stats => ({ ...stats, averageGaps: Math.round(stats.totalGaps / stats.students * 100) / 100 }))
+    .sort((a, b) => a.grade - b.grade);
+}
@@ -13,15 +13,69 @@
  * Hard Constraints:
  *   1. Section capacity not exceeded
  *   2. No time conflicts (student can't be in overlapping sections)
- *   3. Grade restrictions enforced
+ *   3. Grade restrictions, prerequisites and student unavailable periods
+ *      enforced (ineligible pairs get no variable)
  *   4. At most one section per course per student
+ *   5. Corequisites: enrollment in a course implies enrollment in each of
+ *      its corequisites (sum_k x[s][course] <= sum_k x[s][coreq])
+ *   5b. Course choices (Student.electiveCount, courseGroups): at most
+ *      `count` of a choice's courses
+ *   6. Lunch (HARD: LUNCH_AVAILABILITY): each student keeps one of the
+ *      configured lunch slots free every day
+ *   7. Minimum enrollment (Course.minStudents): semi-continuous via
+ *      open[k] binary, minStudents*open[k] <= sum_s x[s][k] <= capacity*open[k],
+ *      so a section runs with at least minStudents or is closed
+ *   8. Periods per day (HARD: MAX_PERIODS_PER_DAY): per student and day,
+ *      sum_k (periods of k that day) * x[s][k] <= max
+ *   9. Spacing (HARD: MIN_PERIODS_BETWEEN): x[s][k1] + x[s][k2] <= 1 for
+ *      sections of two listed courses that meet within `gap` periods of
+ *      each other on some day
  *
- * Soft Constraints (via objective weights):
+ * Soft Constraints (via objective weights; a term named after a SOFT: line
+ * is scaled by that line's weight):
  *   - Required courses: weight=1000 (strongly prefer assignment)
- *   - Elective preferences: weight=10-1 (ranked by preference order)
+ *   - Elective preferences (SOFT: STUDENT_ELECTIVE_PREFERENCE, default
+ *     weight 1.0): (10-rank)*weight, ranked by preference order; course
+ *     group courses are ranked the same way
+ *   - Course choices with a count: -1000 per course short of it, via slack
+ *     short[s][c] (see course-choices.ts)
+ *   - Student prefer/avoid periods: +/-1 per section period that matches
+ *   - Lunch (SOFT: LUNCH_AVAILABILITY): -5*weight/daysPerWeek per
+ *     student-day without a free lunch slot, via slack variable nolunch[s][d]
+ *   - Minimum enrollment: +1 per open[k], keeping sections that can fill
+ *   - Compact days (SOFT: MINIMIZE_GAPS): -2*weight/daysPerWeek per free
+ *     period t between two classes of a student's day, via idle[s][d][t] >=
+ *     early[s][d][t] + late[s][d][t] - 1 - busy[s][d][t], where early and
+ *     late are running maxima of the student's busy slots (see gaps.ts);
+ *     left out in joint mode, where every candidate time of every course
+ *     adds terms and the model no longer solves within its time limit
+ *   - Balanced sections (SOFT: BALANCED_SECTIONS): -2*weight per student a
+ *     running section is off its course's target size, via dev[k] >=
+ *     |sum_s x[s][k] - size[c]| with size[c] chosen by the solver, and
+ *     -8*weight more per student beyond max_spread/2 of it; left out
+ *     in joint mode, where sections share meeting groups (the balancing pass
+ *     covers it)
+ *   - Teacher period preferences (SOFT: TEACHER_PREFERENCES), joint mode
+ *     only: see timetable-ilp.ts
  *
  * Objective:
- *   Maximize: sum of (required course bonuses) + (elective preference scores)
+ *   Maximize: sum of the terms above, reported per term in
+ *   objectiveBreakdown
+ *
+ * Joint timetabling (options.timetable): k ranges over meeting groups (a
+ * course at one candidate time, see timetable-ilp.ts) instead of sections.
+ * A group's capacity is that of the sections the timetabling model runs at
+ * that time (sum_s x[s][g] <= sum_j capacity_j * y[j]), so the solver picks
+ * section periods and enrollments together. Every section runs in that mode,
+ * so minimum enrollment is left to the cancellation pass (min-enrollment.ts).
+ *
+ * If HiGHS finds the model infeasible, the result lists a minimal set of
+ * constraints that can't hold together (see infeasibility.ts). In joint
+ * mode that set lies in the timetabling rows: with no students assigned the
+ * student rows hold for any timetable. The student model alone is never
+ * infeasible for the same reason, so when its solution leaves a required
+ * course out, the set is looked for in a re-solve that requires every
+ * required course (rows need_s_course: sum_k x[s][k] >= 1).
  *
  * Complexity: O(S * K) variables, O(S * C + K + S * T) constraints
  *   where S=students, K=sections, C=courses, T=time slots
@@ -37,8 +91,71 @@ import type {
   StudentId,
   CourseId,
   SectionId,
+  ConstraintViolation,
+  ObjectiveTerm,
+  ObjectiveTermType,
+  PreferenceType,
   ProgressCallback,
 } from '../types/index.js';
+import { canEnroll, getRequestedCourses, getStudentPeriodKeys } from './eligibility.js';
+import { getLunchRule } from './lunch.js';
+import { getDailyLimits, countDailyPeriods, getCloseDays } from './daily-limits.js';
+import { getGapRule } from './gaps.js';
+import { getCourseChoices, getChosenCourses, getChoiceRank } from './course-choices.js';
+import {
+  buildTimetableModel,
+  extractSectionPeriods,
+  splitGroupEnrollments,
+  explainTimetableConflicts,
+  optionVar,
+} from './timetable-ilp.js';
+import { describePeriods } from './diagnosis.js';
+import {
+  findInfeasibleSubset,
+  constraintIdFor,
+  describeModelRow,
+  type ModelRow,
+} from './infeasibility.js';
+
+// Objective weight per required course assigned
+const REQUIRED_COURSE_WEIGHT = 1000;
+
+// Objective weight per section period falling in a student's prefer/avoid periods
+const STUDENT_PREFER_WEIGHT = 1;
+const STUDENT_AVOID_WEIGHT = 1;
+
+// Objective penalty per week without lunch at SOFT weight 1.0, spread over
+// the days (a missed lunch costs 5/daysPerWeek); below a first-choice
+// elective (10), so no elective is dropped to free a lunch slot
+const LUNCH_PENALTY_SCALE = 5;
+
+// Objective penalty per gap in a student's week at SOFT weight 1.0, spread
+// over the days (a gap on one day costs 2/daysPerWeek); like one student of
+// section imbalance, and below a first-choice elective (10), so no course is
+// dropped just to close a gap
+const GAP_PENALTY_SCALE = 2;
+
+// Objective penalty per student a section is off its course's target size
+// at SOFT weight 1.0; like a gap, below a first-choice elective
+const BALANCE_PENALTY_SCALE = 2;
+
+// Further penalty per student beyond half of max_spread from the target,
+// where the validator flags the course; above an elective rank (1) and a
+// daily gap, below a first-choice elective (10)
+const EXCESS_PENALTY_SCALE = 8;
+
+// The SOFT: preference whose weight scales each objective term
+const TERM_PREFERENCES: Partial<Record<ObjectiveTermType, PreferenceType>> = {
+  elective_preferences: 'student_elective_preference',
+  lunch: 'lunch_period',
+  gaps: 'compact_schedule',
+  balanced_sections: 'balanced_class_sizes',
+  teacher_preferences: 'teacher_period_preference',
+};
+
+// Objective bonus per section that runs under a minStudents rule, so sections
+// are only closed when they can't reach the minimum (or it costs a preference)
+const OPEN_SECTION_WEIGHT = 1;
 
 export interface ILPResult {
   success: boolean;
@@ -46,6 +163,19 @@ export interface ILPResult {
   objectiveValue: number;
   solveTimeMs: number;
   status: string;
+  /** Chosen periods per section, in joint timetabling mode */
+  sectionPeriods?: Map<SectionId, Period[]>;
+  /** Constraints that can't hold together, when the model is infeasible */
+  conflicts?: ConstraintViolation[];
+  /** objectiveValue split by term, when solved */
+  objectiveBreakdown?: ObjectiveTerm[];
+}
+
+export interface ILPOptions {
+  /** Also choose section periods (joint timetabling) */
+  timetable?: boolean;
+  /** Stop the solver after this many seconds (default: no limit) */
+  timeLimitSeconds?: number;
 }
 
 interface SectionInfo {
@@ -57,12 +187,23 @@ interface SectionInfo {
 }
 
 export async function solveScheduleILP(
-  sections: Section[],
+  inputSections: Section[],
   input: ScheduleInput,
-  onProgress?: ProgressCallback
+  onProgress?: ProgressCallback,
+  options: ILPOptions = {}
 ): Promise<ILPResult> {
   const startTime = Date.now();
 
+  // In joint mode the model's sections are the timetable's meeting groups,
+  // each standing in for the sections of its course at its time
+  const timetable = options.timetable ? buildTimetableModel(inputSections, input) : null;
+  const sections = timetable
+    ? timetable.groups.map(group => ({
+      ...inputSections[timetable.options[group.options[0]].sectionIndex],
+      periods: group.periods,
+    }))
+    : inputSections;
+
   onProgress?.({
     phase: 'initializing',
     percentComplete: 5,
@@ -113,59 +254,84 @@ export async function solveScheduleILP(
   const varName = (studentIdx: number, sectionIdx: number) =>
     `x_${studentIdx}_${sectionIdx}`;
 
+  // Requested courses per student, including corequisites pulled in by them
+  const requestedCourses = students.map(student => getRequestedCourses(student, courseMap));
+
+  // Candidate sections per student: requested, eligible (grade and
+  // prerequisites) and not meeting during any of the student's unavailable periods.
+  // Only candidate pairs get a variable.
+  const candidates = students.map((student, s) => {
+    const unavailable = getStudentPeriodKeys(student, 'unavailable');
+    const allowed = new Set<number>();
+    for (let k = 0; k < numSections; k++) {
+      const section = sections[k];
+      if (!requestedCourses[s].has(section.courseId)) continue;
+      if (!canEnroll(student, courseMap.get(section.courseId))) continue;
+      if (section.periods.some(p => unavailable.has(`${p.day}-${p.slot}`))) continue;
+      allowed.add(k);
+    }
+    return allowed;
+  });
+
+  const candidateTerms = (s: number, courseSections: SectionInfo[]) =>
+    courseSections.filter(sec => candidates[s].has(sec.index)).map(sec => varName(s, sec.index));
+
   onProgress?.({
     phase: 'initializing',
     percentComplete: 10,
     currentOperation: `Building model: ${numStudents} students, ${numSections} sections`,
   });
 
-  // Build the LP model in CPLEX format
-  const lines: string[] = [];
+  // Build the LP model in CPLEX format. Objective terms, constraints and
+  // variables are collected separately and assembled at the end, since some
+  // constraints add their own (slack) variables and objective terms.
+  // Objective coefficients are kept per term for the breakdown in the result.
+  const objective = new Map<ObjectiveTermType, Map<string, number>>();
+  const addObjective = (term: ObjectiveTermType, coefficient: number, variable: string) => {
+    if (coefficient === 0) return;
+    const coefficients = objective.get(term) || new Map<string, number>();
+    coefficients.set(variable, (coefficients.get(variable) || 0) + coefficient);
+    objective.set(term, coefficients);
+  };
+  const constraintLines: string[] = [];
+  const binaryVars: string[] = [];
 
   // Objective: Maximize preference satisfaction
-  lines.push('Maximize');
-  const objectiveTerms: string[] = [];
+  // Without a STUDENT_ELECTIVE_PREFERENCE line electives keep weight 1.0
+  const electiveWeight = input.preferences.find(p => p.type === 'student_elective_preference')?.weight ?? 1;
 
   for (let s = 0; s < numStudents; s++) {
     const student = students[s];
+    const preferred = getStudentPeriodKeys(student, 'prefer');
+    const avoided = getStudentPeriodKeys(student, 'avoid');
 
-    for (let k = 0; k < numSections; k++) {
+    for (const k of candidates[s]) {
       const section = sections[k];
-      const course = courseMap.get(section.courseId);
-
-      // Skip if grade restriction doesn't match
-      if (course?.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
-        continue;
+      const choiceRank = getChoiceRank(student, section.courseId);
+
+      if (choiceRank !== -1) {
+        // Medium weight for elective and course group choices: first choice = 10, second = 9, etc.
+        addObjective('elective_preferences', electiveWeight * (10 - choiceRank), varName(s, k));
+      } else if (student.requiredCourses.includes(section.courseId)) {
+        // High weight for required courses (soft constraint via objective)
+        addObjective('required_courses', REQUIRED_COURSE_WEIGHT, varName(s, k));
       }
 
-      // Calculate preference weight
-      let weight = 0;
-
-      // High weight for required courses (soft constraint via objective)
-      if (student.requiredCourses.includes(section.courseId)) {
-        weight = 1000; // Strong incentive to assign required courses
-      }
-
-      // Medium weight for elective preferences
-      const electiveRank = student.electivePreferences.indexOf(section.courseId);
-      if (electiveRank !== -1) {
-        weight = 10 - electiveRank; // First choice = 10, second = 9, etc.
-      }
-
-      if (weight > 0) {
-        objectiveTerms.push(`${weight} ${varName(s, k)}`);
+      // Small nudges toward preferred periods and away from avoided ones
+      for (const period of section.periods) {
+        const key = `${period.day}-${period.slot}`;
+        if (preferred.has(key)) addObjective('student_period_preferences', STUDENT_PREFER_WEIGHT, varName(s, k));
+        if (avoided.has(key)) addObjective('student_period_preferences', -STUDENT_AVOID_WEIGHT, varName(s, k));
       }
     }
   }
 
-  lines.push(' obj: ' + (objectiveTerms.length > 0 ? objectiveTerms.join(' + ') : '0'));
-
   // Constraints
-  lines.push('Subject To');
-
   let constraintCount = 0;
 
-  // Constraint 1: At most one section per required course (assignment incentivized via objective)
+  // Constraint 1: At most one section per required course (assignment incentivized via objective).
+  // Each course's "at least one" row is kept aside for the diagnostic re-solve
+  const requiredRows: { line: string; terms: string[] }[] = [];
   for (let s = 0; s < numStudents; s++) {
     const student = students[s];
 
@@ -173,50 +339,85 @@ export async function solveScheduleILP(
       const courseSections = sectionsByCourse.get(courseId);
       if (!courseSections || courseSections.length === 0) continue;
 
-      const course = courseMap.get(courseId);
-      if (course?.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
-        continue; // Skip if grade doesn't match
-      }
-
-      const validSections = courseSections.filter(sec => {
-        const c = courseMap.get(sec.courseId);
-        return !c?.gradeRestrictions || c.gradeRestrictions.includes(student.grade);
-      });
+      // Skip if no section is open to this student
+      const terms = candidateTerms(s, courseSections);
+      if (terms.length === 0) continue;
 
-      if (validSections.length === 0) continue;
-
-      const terms = validSections.map(sec => varName(s, sec.index)).join(' + ');
-      lines.push(` req_${s}_${courseId.replace(/[^a-zA-Z0-9]/g, '_')}: ${terms} <= 1`);
+      const courseTag = courseId.replace(/[^a-zA-Z0-9]/g, '_');
+      constraintLines.push(` req_${s}_${courseTag}: ${terms.join(' + ')} <= 1`);
+      requiredRows.push({ line: ` need_${s}_${courseTag}: ${terms.join(' + ')} >= 1`, terms });
       constraintCount++;
     }
   }
 
-  // Constraint 2: At most one section per elective course
+  // Constraint 2: At most one section per elective or course group course
   for (let s = 0; s < numStudents; s++) {
     const student = students[s];
 
-    for (const courseId of student.electivePreferences) {
+    for (const courseId of getChosenCourses(student)) {
       const courseSections = sectionsByCourse.get(courseId);
       if (!courseSections || courseSections.length === 0) continue;
 
+      const terms = candidateTerms(s, courseSections);
+      if (terms.length === 0) continue;
+
+      constraintLines.push(` elec_${s}_${courseId.replace(/[^a-zA-Z0-9]/g, '_')}: ${terms.join(' + ')} <= 1`);
+      constraintCount++;
+    }
+  }
+
+  // Constraint 2b: Corequisites - at most one section of a pulled-in corequisite,
+  // and a course can only be taken together with each of its corequisites
+  for (let s = 0; s < numStudents; s++) {
+    const student = students[s];
+
+    for (const courseId of requestedCourses[s]) {
       const course = courseMap.get(courseId);
-      if (course?.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
-        continue;
-      }
+      const courseSections = sectionsByCourse.get(courseId);
+      if (!course || !courseSections || courseSections.length === 0) continue;
 
-      const validSections = courseSections.filter(sec => {
-        const c = courseMap.get(sec.courseId);
-        return !c?.gradeRestrictions || c.gradeRestrictions.includes(student.grade);
-      });
+      const terms = candidateTerms(s, courseSections);
+      if (terms.length === 0) continue;
 
-      if (validSections.length === 0) continue;
+      const courseTag = courseId.replace(/[^a-zA-Z0-9]/g, '_');
 
-      const terms = validSections.map(sec => varName(s, sec.index)).join(' + ');
-      lines.push(` elec_${s}_${courseId.replace(/[^a-zA-Z0-9]/g, '_')}: ${terms} <= 1`);
-      constraintCount++;
+      if (!student.requiredCourses.includes(courseId) && getChoiceRank(student, courseId) === -1) {
+        constraintLines.push(` coreq_one_${s}_${courseTag}: ${terms.join(' + ')} <= 1`);
+        constraintCount++;
+      }
+
+      for (const coreqId of course.corequisites || []) {
+        const coreqTag = coreqId.replace(/[^a-zA-Z0-9]/g, '_');
+        const coreqTerms = candidateTerms(s, sectionsByCourse.get(coreqId) || []);
+
+        if (coreqTerms.length === 0) {
+          // The corequisite can never be taken, so neither can this course
+          constraintLines.push(` coreq_${s}_${courseTag}_${coreqTag}: ${terms.join(' + ')} <= 0`);
+        } else {
+          constraintLines.push(` coreq_${s}_${courseTag}_${coreqTag}: ${terms.join(' + ')} - ${coreqTerms.join(' - ')} <= 0`);
+        }
+        constraintCount++;
+      }
     }
   }
 
+  // Constraint 2c: Course choices with a count (electiveCount, course
+  // groups) - at most `count` of the choice's courses; each one short of it
+  // costs as much as a missed required course, via slack short_s_c
+  for (let s = 0; s < numStudents; s++) {
+    getCourseChoices(students[s]).forEach((choice, c) => {
+      if (choice.count === null) return;
+      const terms = choice.courses.flatMap(courseId => candidateTerms(s, sectionsByCourse.get(courseId) || []));
+      if (terms.length === 0) return;
+
+      const short = `short_${s}_${c}`;
+      constraintLines.push(` choice_${s}_${c}: ${terms.join(' + ')} <= ${choice.count}`);
+      constraintLines.push(` choice_min_${s}_${c}: ${terms.join(' + ')} + ${short} >= ${choice.count}`);
+      addObjective('course_choices', -REQUIRED_COURSE_WEIGHT, short);
+      constraintCount += 2;
+    });
+  }
+
   onProgress?.({
     phase: 'initializing',
     percentComplete: 30,
@@ -226,28 +427,44 @@ export async function solveScheduleILP(
   // Constraint 3: Section capacity
   for (let k = 0; k < numSections; k++) {
     const section = sections[k];
-    const course = courseMap.get(section.courseId);
 
     const terms: string[] = [];
     for (let s = 0; s < numStudents; s++) {
-      const student = students[s];
-
       // Only include if student could be in this section
-      if (course?.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
-        continue;
-      }
-
-      const isRequired = student.requiredCourses.includes(section.courseId);
-      const isElective = student.electivePreferences.includes(section.courseId);
-
-      if (isRequired || isElective) {
+      if (candidates[s].has(k)) {
         terms.push(varName(s, k));
       }
     }
 
-    if (terms.length > 0) {
-      lines.push(` cap_${k}: ${terms.join(' + ')} <= ${section.capacity}`);
+    if (timetable) {
+      // Seats only exist in sections that run at the group's time
+      const seats = timetable.groups[k].options
+        .map(j => `${inputSections[timetable.options[j].sectionIndex].capacity} ${optionVar(j)}`)
+        .join(' - ');
+      const linked = terms.length > 0 ? `${terms.join(' + ')} - ` : '';
+      constraintLines.push(` cap_${k}: ${linked}${seats} <= 0`);
       constraintCount++;
+
+      // Implied by the capacity row, but they tighten the LP relaxation
+      const running = timetable.groups[k].options.map(optionVar).join(' - ');
+      for (const term of terms) {
+        constraintLines.push(` link_${term}: ${term} - ${running} <= 0`);
+        constraintCount++;
+      }
+    } else if (terms.length > 0) {
+      const minStudents = courseMap.get(section.courseId)?.minStudents;
+      if (minStudents && minStudents > 1) {
+        // Semi-continuous enrollment: closed, or between minStudents and capacity
+        const open = `open_${k}`;
+        constraintLines.push(` cap_${k}: ${terms.join(' + ')} - ${section.capacity} ${open} <= 0`);
+        constraintLines.push(` min_${k}: ${terms.join(' + ')} - ${minStudents} ${open} >= 0`);
+        addObjective('open_sections', OPEN_SECTION_WEIGHT, open);
+        binaryVars.push(open);
+        constraintCount += 2;
+      } else {
+        constraintLines.push(` cap_${k}: ${terms.join(' + ')} <= ${section.capacity}`);
+        constraintCount++;
+      }
     }
   }
 
@@ -260,25 +477,11 @@ export async function solveScheduleILP(
   // Constraint 4: No time conflicts - for each student and each time slot,
   // sum of sections at that time <= 1
   for (let s = 0; s < numStudents; s++) {
-    const student = students[s];
-
     // Get all time slots the student might use
     const studentTimeSlots = new Map<string, number[]>(); // timeKey -> section indices
 
-    for (let k = 0; k < numSections; k++) {
-      const section = sections[k];
-      const course = courseMap.get(section.courseId);
-
-      if (course?.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
-        continue;
-      }
-
-      const isRequired = student.requiredCourses.includes(section.courseId);
-      const isElective = student.electivePreferences.includes(section.courseId);
-
-      if (!isRequired && !isElective) continue;
-
-      for (const period of section.periods) {
+    for (const k of candidates[s]) {
+      for (const period of sections[k].periods) {
         const key = `${period.day}-${period.slot}`;
         const list = studentTimeSlots.get(key) || [];
         list.push(k);
@@ -290,31 +493,221 @@ export async function solveScheduleILP(
     for (const [timeKey, sectionIndices] of studentTimeSlots) {
       if (sectionIndices.length > 1) {
         const terms = sectionIndices.map(k => varName(s, k)).join(' + ');
-        lines.push(` time_${s}_${timeKey.replace('-', '_')}: ${terms} <= 1`);
+        constraintLines.push(` time_${s}_${timeKey.replace('-', '_')}: ${terms} <= 1`);
         constraintCount++;
       }
     }
   }
 
+  // Constraint 5: Lunch - at most |L|-1 of the lunch slots taken each day.
+  // Soft rules get a penalized slack variable per student-day.
+  const lunchRule = getLunchRule(input);
+  if (lunchRule) {
+    const lunchPenalty = LUNCH_PENALTY_SCALE * lunchRule.weight / input.config.daysPerWeek;
+
+    for (let s = 0; s < numStudents; s++) {
+      for (let day = 0; day < input.config.daysPerWeek; day++) {
+        const termsBySlot = lunchRule.slots.map(slot =>
+          [...candidates[s]].filter(k =>
+            sections[k].periods.some(p => p.day === day && p.slot === slot)
+          )
+        );
+
+        // Nothing to do if some lunch slot can never be taken
+        if (termsBySlot.some(terms => terms.length === 0)) continue;
+
+        // A block section spanning several lunch slots counts once per slot
+        const coefficients = new Map<number, number>();
+        for (const k of termsBySlot.flat()) {
+          coefficients.set(k, (coefficients.get(k) || 0) + 1);
+        }
+        const terms = [...coefficients]
+          .map(([k, count]) => `${count > 1 ? `${count} ` : ''}${varName(s, k)}`)
+          .join(' + ');
+        const limit = lunchRule.slots.length - 1;
+
+        if (lunchRule.hard) {
+          constraintLines.push(` lunch_${s}_${day}: ${terms} <= ${limit}`);
+        } else {
+          const slack = `nolunch_${s}_${day}`;
+          constraintLines.push(` lunch_${s}_${day}: ${terms} - ${slack} <= ${limit}`);
+          addObjective('lunch', -lunchPenalty, slack);
+          binaryVars.push(slack);
+        }
+        constraintCount++;
+      }
+    }
+  }
+
+  // Constraints 6-7: Periods per day and spacing between listed courses
+  for (let s = 0; s < numStudents; s++) {
+    const limits = getDailyLimits(input, students[s].grade);
+    const studentSections = [...candidates[s]];
+
+    if (limits.maxPeriods) {
+      const { max } = limits.maxPeriods;
+      for (let day = 0; day < input.config.daysPerWeek; day++) {
+        const terms: string[] = [];
+        let most = 0;
+        for (const k of studentSections) {
+          const count = countDailyPeriods([sections[k]], limits.maxPeriods, input.config.daysPerWeek)[day];
+          if (count === 0) continue;
+          terms.push(`${count > 1 ? `${count} ` : ''}${varName(s, k)}`);
+          most += count;
+        }
+        if (most > max) {
+          constraintLines.push(` maxday_${s}_${day}: ${terms.join(' + ')} <= ${max}`);
+          constraintCount++;
+        }
+      }
+    }
+
+    for (const rule of limits.minGaps) {
+      const listed = studentSections.filter(k => rule.courses.includes(sections[k].courseId));
+      for (let i = 0; i < listed.length; i++) {
+        for (let j = i + 1; j < listed.length; j++) {
+          const [a, b] = [listed[i], listed[j]];
+          if (sections[a].courseId === sections[b].courseId) continue;
+          if (getCloseDays(sections[a], sections[b], rule.gap).length === 0) continue;
+          constraintLines.push(` gap_${s}_${a}_${b}: ${varName(s, a)} + ${varName(s, b)} <= 1`);
+          constraintCount++;
+        }
+      }
+    }
+  }
+
+  // Constraint 8: Gaps - idle_s_d_t is 1 when slot t is free but the student
+  // has a class before and after it that day. early/late_s_d_t (continuous)
+  // are at least every busy flag before/after t; the penalty keeps them at
+  // their lowest, so they are 1 exactly when some earlier/later slot is taken.
+  const gapRule = getGapRule(input);
+  if (gapRule && !timetable) {
+    const gapPenalty = GAP_PENALTY_SCALE * gapRule.weight / input.config.daysPerWeek;
+    const { periodsPerDay } = input.config;
+    const rowsBefore = constraintLines.length;
+
+    for (let s = 0; s < numStudents; s++) {
+      for (let day = 0; day < input.config.daysPerWeek; day++) {
+        // Busy flag per slot: the candidate sections meeting then
+        const busy = Array.from({ length: periodsPerDay }, (_, slot) =>
+          [...candidates[s]].filter(k =>
+            sections[k].periods.some(p => p.day === day && p.slot === slot)
+          ).map(k => varName(s, k))
+        );
+        const used = busy.flatMap((terms, slot) => terms.length > 0 ? [slot] : []);
+        if (used.length < 2) continue;
+        const first = used[0];
+        const last = used[used.length - 1];
+
+        for (let slot = first + 1; slot < last; slot++) {
+          const early = `early_${s}_${day}_${slot}`;
+          const late = `late_${s}_${day}_${slot}`;
+          // early_t >= early_{t-1} and busy_{t-1}; late_t >= late_{t+1} and busy_{t+1}
+          if (slot > first + 1) constraintLines.push(` early_${s}_${day}_${slot}_chain: ${early} - early_${s}_${day}_${slot - 1} >= 0`);
+          if (slot < last - 1) constraintLines.push(` late_${s}_${day}_${slot}_chain: ${late} - late_${s}_${day}_${slot + 1} >= 0`);
+          for (const term of busy[slot - 1]) constraintLines.push(` early_${s}_${day}_${slot}_${term}: ${early} - ${term} >= 0`);
+          for (const term of busy[slot + 1]) constraintLines.push(` late_${s}_${day}_${slot}_${term}: ${late} - ${term} >= 0`);
+
+          if (gapRule.ignoredSlots.includes(slot)) continue;
+          const idle = `idle_${s}_${day}_${slot}`;
+          const during = busy[slot].map(term => ` + ${term}`).join('');
+          constraintLines.push(` ${idle}: ${idle} - ${early} - ${late}${during} >= -1`);
+          addObjective('gaps', -gapPenalty, idle);
+        }
+      }
+    }
+    constraintCount += constraintLines.length - rowsBefore;
+  }
+
+  // Constraint 9: Balanced sections - dev_k (continuous) is at least the
+  // distance between section k's enrollment and its course's target size
+  // size_c (continuous, chosen by the solver, so it settles on a typical
+  // running section's size). The objective penalizes sum_k dev_k, and more
+  // steeply excess_k >= dev_k - floor(max_spread/2), so a course spread
+  // wider than max_spread costs more than it gains. A closed section
+  // (open_k = 0) has no deviation.
+  const balancePreference = input.preferences.find(p => p.type === 'balanced_class_sizes');
+  const balanceWeight = balancePreference?.weight ?? 0;
+  if (balanceWeight > 0 && !timetable) {
+    const balancePenalty = BALANCE_PENALTY_SCALE * balanceWeight;
+    const excessPenalty = EXCESS_PENALTY_SCALE * balanceWeight;
+    const allowance = Math.floor(((balancePreference?.params.max_spread as number | undefined) ?? 5) / 2);
+    const rowsBefore = constraintLines.length;
+
+    for (const [courseId, courseSections] of sectionsByCourse) {
+      if (courseSections.length < 2) continue;
+      const size = `size_${courseId.replace(/[^a-zA-Z0-9]/g, '_')}`;
+      const minStudents = courseMap.get(courseId)?.minStudents;
+      // Bounds size_c, so it relaxes the row for a closed section
+      const largest = Math.max(...courseSections.map(sec => sec.capacity));
+
+      for (const section of courseSections) {
+        const k = section.index;
+        const dev = `dev_${k}`;
+        const terms = students.flatMap((_, s) => candidates[s].has(k) ? [varName(s, k)] : []);
+        const enrolled = terms.length > 0 ? `${terms.join(' + ')} ` : '';
+
+        // Above the target: enrollment - size <= dev
+        constraintLines.push(` over_${k}: ${enrolled}- ${size} - ${dev} <= 0`);
+        // Below the target: size - enrollment <= dev, unless the section is closed
+        if (terms.length > 0 && minStudents && minStudents > 1) {
+          constraintLines.push(` under_${k}: ${size} - ${terms.join(' - ')} - ${dev} + ${largest} open_${k} <= ${largest}`);
+        } else {
+          constraintLines.push(` under_${k}: ${size}${terms.map(t => ` - ${t}`).join('')} - ${dev} <= 0`);
+        }
+        addObjective('balanced_sections', -balancePenalty, dev);
+        constraintLines.push(` excess_${k}: ${dev} - excess_${k} <= ${allowance}`);
+        addObjective('balanced_sections', -excessPenalty, `excess_${k}`);
+      }
+    }
+    constraintCount += constraintLines.length - rowsBefore;
+  }
+
+  if (timetable) {
+    for (const term of timetable.objectiveTerms) {
+      const [sign, coefficient, variable] = term.split(' ');
+      addObjective('teacher_preferences', (sign === '-' ? -1 : 1) * Number(coefficient), variable);
+    }
+    constraintLines.push(...timetable.constraintLines);
+    binaryVars.push(...timetable.binaryVars);
+    constraintCount += timetable.constraintLines.length;
+  }
+
   onProgress?.({
     phase: 'initializing',
     percentComplete: 70,
     currentOperation: `Total constraints: ${constraintCount}`,
   });
 
-  // Binary variables
-  lines.push('Binary');
-  const binaryVars: string[] = [];
+  // Binary variables (only for candidate pairs, so ineligible pairs can't be
+  // set freely by the solver)
   for (let s = 0; s < numStudents; s++) {
-    for (let k = 0; k < numSections; k++) {
+    for (const k of candidates[s]) {
       binaryVars.push(varName(s, k));
     }
   }
-  lines.push(' ' + binaryVars.join(' '));
-
-  lines.push('End');
 
-  const lpModel = lines.join('\n');
+  // A variable can appear under several terms (a required course in a
+  // preferred period), so coefficients are summed per variable
+  const coefficients = new Map<string, number>();
+  for (const termCoefficients of objective.values()) {
+    for (const [variable, coefficient] of termCoefficients) {
+      coefficients.set(variable, (coefficients.get(variable) || 0) + coefficient);
+    }
+  }
+  const objectiveTerms = [...coefficients]
+    .filter(([, coefficient]) => coefficient !== 0)
+    .map(([variable, coefficient]) => `${coefficient < 0 ? '-' : '+'} ${Math.abs(coefficient)} ${variable}`);
+
+  const lpModel = [
+    'Maximize',
+    ' obj: ' + (objectiveTerms.length > 0 ? objectiveTerms.join(' ') : '0'),
+    'Subject To',
+    ...constraintLines,
+    'Binary',
+    ' ' + binaryVars.join(' '),
+    'End',
+  ].join('\n');
 
   onProgress?.({
     phase: 'optimizing',
@@ -324,7 +717,10 @@ export async function solveScheduleILP(
 
   // Solve with HiGHS
   const solver = await highs();
-  const solution = solver.solve(lpModel);
+  const solution = solver.solve(lpModel, options.timeLimitSeconds ? { time_limit: options.timeLimitSeconds } : {});
+
+  // On hitting the time limit the best solution found so far is used
+  const solved = solution.Status === 'Optimal' || solution.Status === 'Time limit reached';
 
   const solveTime = Date.now() - startTime;
 
@@ -336,21 +732,75 @@ export async function solveScheduleILP(
 
   // Extract assignments
   const assignments = new Map<StudentId, SectionId[]>();
+  let sectionPeriods: Map<SectionId, Period[]> | undefined;
+  const groupStudents: StudentId[][] = sections.map(() => []);
 
-  if (solution.Status === 'Optimal' || solution.Status === 'Feasible') {
+  if (solved) {
     for (let s = 0; s < numStudents; s++) {
       const studentId = students[s].id;
       const studentSections: SectionId[] = [];
 
-      for (let k = 0; k < numSections; k++) {
+      for (const k of candidates[s]) {
         const varValue = solution.Columns?.[varName(s, k)]?.Primal;
         if (varValue && varValue > 0.5) {
-          studentSections.push(sections[k].id);
+          if (timetable) {
+            groupStudents[k].push(studentId);
+          } else {
+            studentSections.push(sections[k].id);
+          }
         }
       }
 
       assignments.set(studentId, studentSections);
     }
+
+    if (timetable) {
+      const primal = (name: string) => solution.Columns[name]?.Primal;
+      sectionPeriods = extractSectionPeriods(inputSections, timetable, primal);
+      for (const [studentId, sectionIds] of splitGroupEnrollments(inputSections, timetable, groupStudents, primal)) {
+        assignments.set(studentId, sectionIds);
+      }
+    }
+  }
+
+  let objectiveBreakdown: ObjectiveTerm[] | undefined;
+  if (solved) {
+    objectiveBreakdown = [...objective].map(([term, termCoefficients]) => {
+      let value = 0;
+      for (const [variable, coefficient] of termCoefficients) {
+        value += coefficient * (solution.Columns[variable]?.Primal ?? 0);
+      }
+      const preference = input.preferences.find(p => p.type === TERM_PREFERENCES[term]);
+      return {
+        term,
+        value: Math.round(value * 100) / 100,
+        ...(preference ? { preferenceId: preference.id, weight: preference.weight } : {}),
+      };
+    });
+  }
+
+  let conflicts: ConstraintViolation[] | undefined;
+  if (solution.Status === 'Infeasible' && timetable) {
+    onProgress?.({
+      phase: 'optimizing',
+      percentComplete: 97,
+      currentOperation: 'Model infeasible, looking for conflicting constraints...',
+    });
+    conflicts = await explainTimetableConflicts(inputSections, input, timetable);
+  } else if (solved && !timetable) {
+    // The student rows all hold with students left out of courses, so this
+    // model is never infeasible. When it leaves a required course out, a
+    // re-solve that requires every one looks for the rows keeping them out.
+    const primal = (name: string) => solution.Columns[name]?.Primal ?? 0;
+    if (requiredRows.some(row => row.terms.every(term => primal(term) < 0.5))) {
+      onProgress?.({
+        phase: 'optimizing',
+        percentComplete: 97,
+        currentOperation: 'Required courses left out, looking for conflicting constraints...',
+      });
+      const rows = await findInfeasibleSubset([...constraintLines, ...requiredRows.map(row => row.line)], binaryVars);
+      conflicts = rows.map(row => describeStudentRow(row, sections, input));
+    }
   }
 
   onProgress?.({
@@ -360,10 +810,119 @@ export async function solveScheduleILP(
   });
 
   return {
-    success: solution.Status === 'Optimal' || solution.Status === 'Feasible',
+    // A timetable is only usable if every section got its periods
+    success: solved && (!timetable || sectionPeriods?.size === inputSections.length),
     assignments,
     objectiveValue: solution.ObjectiveValue || 0,
     solveTimeMs: solveTime,
     status: solution.Status,
+    sectionPeriods,
+    conflicts,
+    objectiveBreakdown,
   };
 }
+
+// Student model row kinds whose names hold an underscore
+const STUDENT_ROW_KINDS = ['coreq_one', 'choice_min'];
+
+/**
+ * A row of the student assignment model in domain terms
+ */
+function describeStudentRow(row: ModelRow, sections: Section[], input: ScheduleInput): ConstraintViolation {
+  // Row names are <kind>_<index>_..., where a few kinds hold an underscore
+  const kind = STUDENT_ROW_KINDS.find(k => row.name.startsWith(`${k}_`)) ?? row.name.split('_')[0];
+  const parts = row.name.slice(kind.length + 1).split('_');
+  // Sections behind the row's x_<s>_<k> variables
+  const rowSections = row.variables.filter(v => v.startsWith('x_')).map(v => sections[Number(v.split('_')[2])]?.id);
+  // Every kind but cap and min is indexed by student first
+  const student = input.students[Number(parts[0])];
+  if (kind !== 'cap' && kind !== 'min' && !student) return describeModelRow(row);
+
+  switch (kind) {
+    case 'cap':
+    case 'min': {
+      const section = sections[Number(parts[0])];
+      if (!section) return describeModelRow(row);
+      const minimum = kind === 'min';
+      return {
+        constraintId: minimum ? constraintIdFor(input, 'min_section_enrollment') : 'section_capacity',
+        constraintType: minimum ? 'min_section_enrollment' : 'custom',
+        description: minimum
+          ? `${section.id} runs with at least ${input.courses.find(c => c.id === section.courseId)?.minStudents} students or not at all`
+          : `${section.id} seats at most ${section.capacity} students`,
+        severity: 'error',
+        entities: { sections: [section.id] },
+      };
+    }
+    case 'time': {
+      const period = { day: Number(parts[1]), slot: Number(parts[2]) };
+      return {
+        constraintId: constraintIdFor(input, 'no_student_conflict'),
+        constraintType: 'no_student_conflict',
+        description: `${student.id} can attend only one of ${rowSections.join(', ')} at ${describePeriods([period], input.config)}`,
+        severity: 'error',
+        entities: { students: [student.id], sections: rowSections, periods: [period] },
+      };
+    }
+    case 'maxday':
+      return {
+        constraintId: getDailyLimits(input, student.grade).maxPeriods?.constraintId ?? 'max_periods_per_day',
+        constraintType: 'max_periods_per_day',
+        description: `${student.id} has at most ${row.rhs} periods on day ${Number(parts[1]) + 1}`,
+        severity: 'error',
+        entities: { students: [student.id], sections: rowSections },
+      };
+    case 'gap': {
+      const [a, b] = [1, 2].map(i => sections[Number(parts[i])].courseId);
+      const rule = getDailyLimits(input, student.grade).minGaps
+        .find(r => r.courses.includes(a) && r.courses.includes(b));
+      return {
+        constraintId: rule?.constraintId ?? 'min_periods_between',
+        constraintType: 'min_periods_between',
+        description: `${student.id} can't take both ${rowSections.join(' and ')}: they meet with fewer than ${rule?.gap ?? 1} period(s) between them`,
+        severity: 'error',
+        entities: { students: [student.id], sections: rowSections },
+      };
+    }
+    case 'lunch':
+      return {
+        constraintId: constraintIdFor(input, 'lunch_period'),
+        constraintType: 'lunch_period',
+        description: `${student.id} keeps a lunch period free on day ${Number(parts[1]) + 1}`,
+        severity: 'error',
+        entities: { students: [student.id], sections: rowSections },
+      };
+    case 'need':
+      return {
+        constraintId: 'required_courses',
+        constraintType: 'custom',
+        description: `${student.id} takes one of ${rowSections.join(', ')} (required course)`,
+        severity: 'error',
+        entities: { students: [student.id], sections: rowSections },
+      };
+    case 'choice':
+    case 'choice_min':
+      return {
+        constraintId: 'course_choices',
+        constraintType: 'custom',
+        description: `${student.id} takes ${kind === 'choice' ? 'at most ' : ''}${row.rhs} of ${rowSections.join(', ')}`,
+        severity: 'error',
+        entities: { students: [student.id], sections: rowSections },
+      };
+    case 'req':
+    case 'elec':
+    case 'coreq':
+    case 'coreq_one':
+      return {
+        constraintId: kind === 'coreq' ? 'corequisites' : 'one_section_per_course',
+        constraintType: 'custom',
+        description: kind === 'coreq'
+          ? `${student.id} takes ${rowSections.join(', ')} only together with their corequisites`
+          : `${student.id} takes at most one of ${rowSections.join(', ')}`,
+        severity: 'error',
+        entities: { students: [student.id], sections: rowSections },
+      };
+    default:
+      return describeModelRow(row);
+  }
+}
@@ -5,11 +5,23 @@
  * Fallback: Greedy assignment with local search optimization
  *
  * Multi-phase approach:
- * 1. Section Creation: Create sections for each course with teachers assigned
+ * 1. Section Creation: Create sections for each course (Course.sections, or
+ *    recommended counts with autoSections) and assign teachers within
+ *    maxSections and availability (ILP, or greedy fallback)
  * 2. Time Slot Assignment: Assign periods to sections avoiding conflicts
- * 3. Room Assignment: Assign rooms to sections based on features and capacity
- * 4. Student Assignment: ILP optimization (or greedy fallback)
+ *    (heuristic, or the timetabling ILP - jointly with phase 4 or before it)
+ * 3. Student Assignment: ILP optimization (or greedy fallback); sections
+ *    below Course.minStudents are then cancelled and their students moved.
+ *    The student ILP balances section sizes itself; after greedy assignment
+ *    or joint timetabling a local search does (single moves, or swap chains
+ *    with localSearch 'swap-chains')
+ * 4. Room Assignment: Match rooms to sections by features, availability and
+ *    actual enrollment (ILP, or greedy fallback)
  * 5. Post-processing: Fill in any gaps with greedy assignment
+ *
+ * An ILP that HiGHS finds infeasible falls back as above, and a minimal set
+ * of its constraints that conflict is kept in metadata.infeasibleConstraints
+ * (for the student ILP: of those that leave required courses out).
  */
 
 import type {
@@ -18,9 +30,12 @@ import type {
   Section,
   Period,
   Course,
+  Student,
   Teacher,
   Room,
   UnassignedStudent,
+  ConstraintViolation,
+  ObjectiveTerm,
   ProgressCallback,
   ProgressReport,
   SectionId,
@@ -29,21 +44,68 @@ import type {
   TeacherId,
   RoomId,
 } from '../types/index.js';
-import { solveScheduleILP } from './ilp-solver.js';
+import { solveScheduleILP, type ILPResult } from './ilp-solver.js';
+import { solveTimetableILP, type TimetablingMode } from './timetable-ilp.js';
+import {
+  solveTeacherAssignment,
+  getQualifiedTeachers,
+  getSectionPeriodCount,
+  getAvailablePeriodCount,
+} from './teacher-assignment.js';
+import { getLunchRule, blocksLunch, losesLunch } from './lunch.js';
+import { withTeacherAvailability } from './availability.js';
+import { analyzeFeasibility } from '../analyzer/index.js';
+import { recommendSections, withRecommendedSections } from './section-planning.js';
+import { cancelUnderEnrolledSections } from './min-enrollment.js';
+import { createDailyLimitCheck, type DailyLimitCheck } from './daily-limits.js';
+import { createGapCheck, type GapCheck } from './gaps.js';
+import { balanceWithSwapChains, type LocalSearchMode } from './swap-chains.js';
+import { diagnoseUnassigned } from './diagnosis.js';
+import { getCourseChoices, getChosenCourses, getChoiceResults, describeChoice } from './course-choices.js';
+import { getCandidateMeetings, teacherPreferenceBias } from './meeting-patterns.js';
+import {
+  solveRoomAssignment,
+  getCandidateRooms,
+  countUnneededFeatures,
+  explainMissingRoom,
+} from './room-assignment.js';
+import {
+  canEnroll,
+  getCorequisiteClosure,
+  getMissingPrerequisites,
+  getStudentPeriodKeys,
+  prerequisiteReason,
+} from './eligibility.js';
 
 export interface SchedulerOptions {
   maxOptimizationIterations?: number;
   useILP?: boolean; // Default true
+  timetabling?: TimetablingMode; // Default 'heuristic'; the ILP modes need useILP
+  timetablingTimeLimit?: number; // Seconds, default 120
+  autoSections?: boolean; // Replace Course.sections with recommendSections() counts
+  localSearch?: LocalSearchMode; // Balancing pass where the ILP doesn't balance; default 'moves'
   onProgress?: ProgressCallback;
 }
 
 export async function generateSchedule(
-  input: ScheduleInput,
+  rawInput: ScheduleInput,
   options: SchedulerOptions = {}
 ): Promise<Schedule> {
+  // Fold TEACHER_UNAVAILABLE constraints into each teacher's unavailable periods
+  const availableInput = withTeacherAvailability(rawInput);
+
+  // Open as many sections per course as demand, teachers and rooms support
+  const sectionRecommendations = options.autoSections ? recommendSections(availableInput) : undefined;
+  const input = sectionRecommendations
+    ? withRecommendedSections(availableInput, sectionRecommendations)
+    : availableInput;
+
   const {
     maxOptimizationIterations = 1000,
     useILP = true,
+    timetabling = 'heuristic',
+    timetablingTimeLimit = 120,
+    localSearch = 'moves',
     onProgress
   } = options;
 
@@ -60,31 +122,105 @@ export async function generateSchedule(
 
   report('initializing', 5, 'Creating sections');
 
+  // Problems the analyzer can spot up front explain shortfalls in the result
+  const warnings: string[] = analyzeFeasibility(input).issues.map(issue => `Feasibility: ${issue.description}`);
+
   // Phase 1: Create sections with teachers
-  const sections = createSections(input.courses, input.teachers);
+  const sections = createSections(input.courses);
+
+  let teachersAssigned = false;
+  if (useILP) {
+    try {
+      const teacherResult = await solveTeacherAssignment(sections, input);
+      if (teacherResult.success) {
+        for (const section of sections) {
+          section.teacherId = teacherResult.teachers.get(section.id);
+        }
+        teachersAssigned = true;
+      } else {
+        warnings.push(`Teacher assignment ILP failed (${teacherResult.status}), used greedy teacher assignment`);
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      warnings.push(`Teacher assignment ILP error (${errorMsg}), used greedy teacher assignment`);
+    }
+  }
+  if (!teachersAssigned) {
+    assignTeachers(sections, input.teachers, courseMap, input.config);
+  }
+  for (const section of sections.filter(s => !s.teacherId)) {
+    warnings.push(`No qualified teacher with capacity for ${section.id}`);
+  }
 
   report('assigning', 10, 'Assigning time slots to sections');
 
   // Phase 2: Assign time slots to sections
-  assignTimeSlots(sections, input.teachers, input.config, teacherMap, courseMap);
+  let jointResult: ILPResult | null = null;
+  let timetabled = false;
+
+  // Constraints that can't hold together, from an ILP HiGHS found infeasible
+  const infeasibleConstraints: ConstraintViolation[] = [];
+  const infeasible = (model: string, conflicts: ConstraintViolation[] | undefined) => {
+    if (!conflicts?.length) return '';
+    infeasibleConstraints.push(...conflicts);
+    return `: ${conflicts.length} constraints of the ${model} conflict (see infeasibleConstraints)`;
+  };
 
-  report('assigning', 20, 'Assigning rooms to sections');
+  if (useILP && timetabling !== 'heuristic') {
+    try {
+      if (timetabling === 'joint') {
+        report('optimizing', 12, 'Solving timetable and enrollments together with HiGHS...');
+        jointResult = await solveScheduleILP(sections, input, (progress) => {
+          // Scale joint ILP progress to 12-18%
+          report(progress.phase, 12 + (progress.percentComplete / 100) * 6, progress.currentOperation, progress.stats);
+        }, { timetable: true, timeLimitSeconds: timetablingTimeLimit });
+        if (jointResult.success && jointResult.sectionPeriods) {
+          applySectionPeriods(sections, jointResult.sectionPeriods);
+          timetabled = true;
+        } else {
+          warnings.push(`Joint timetabling ILP failed (${jointResult.status}${infeasible('timetable', jointResult.conflicts)}), used heuristic time slots`);
+        }
+      } else {
+        report('optimizing', 12, 'Solving timetable with HiGHS...');
+        const timetableResult = await solveTimetableILP(sections, input, timetablingTimeLimit);
+        if (timetableResult.success) {
+          applySectionPeriods(sections, timetableResult.sectionPeriods);
+          timetabled = true;
+        } else {
+          warnings.push(`Timetabling ILP failed (${timetableResult.status}${infeasible('timetable', timetableResult.conflicts)}), used heuristic time slots`);
+        }
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      warnings.push(`Timetabling ILP error (${errorMsg}), used heuristic time slots`);
+    }
+  }
 
-  // Phase 3: Assign rooms to sections
-  assignRooms(sections, input.rooms, courseMap, input.config);
+  if (!timetabled) {
+    const teacherPreferenceWeight = input.preferences
+      .find(p => p.type === 'teacher_period_preference')?.weight ?? 0;
+    // Keeping a lunch slot free for a whole grade packs its sections into
+    // the other slots, which leaves little room to balance them; only a
+    // hard lunch rule is worth that; the ILP weighs a soft one per student
+    const lunchRule = getLunchRule(input);
+    assignTimeSlots(sections, input.teachers, input.config, teacherMap, courseMap, teacherPreferenceWeight,
+      lunchRule?.hard ? lunchRule.slots : []);
+  }
 
   report('assigning', 30, 'Assigning students to sections');
 
-  // Phase 4: Assign students using ILP or greedy
+  // Phase 3: Assign students using ILP or greedy
   const unassigned: UnassignedStudent[] = [];
   let algorithmUsed = 'greedy';
   let ilpObjective = 0;
+  let objectiveBreakdown: ObjectiveTerm[] | undefined;
 
   if (useILP) {
     try {
       report('optimizing', 35, 'Building ILP model with HiGHS solver...');
 
-      const ilpResult = await solveScheduleILP(sections, input, (progress) => {
+      // Enrollments from a successful joint solve are already optimal for these periods
+      const ilpResult = timetabled && jointResult ? jointResult : await solveScheduleILP(sections, input, (progress) => {
         // Scale ILP progress to 35-85%
         const scaledPercent = 35 + (progress.percentComplete / 100) * 50;
         report(progress.phase, scaledPercent, progress.currentOperation, progress.stats);
@@ -93,38 +229,79 @@ export async function generateSchedule(
       if (ilpResult.success) {
         algorithmUsed = 'ilp-highs';
         ilpObjective = ilpResult.objectiveValue;
+        objectiveBreakdown = ilpResult.objectiveBreakdown;
 
         report('optimizing', 85, `ILP solved (${ilpResult.status}), applying assignments...`);
 
         // Apply ILP assignments to sections
         const studentSchedules = applyILPAssignments(sections, ilpResult.assignments, input.students, courseMap, unassigned);
+        if (ilpResult.conflicts?.length) {
+          warnings.push(`Student assignment ILP left required courses out${infeasible('student model', ilpResult.conflicts)}`);
+        }
 
-        report('optimizing', 88, 'Balancing section sizes...');
-
-        // Post-ILP optimization: balance section sizes
-        optimizeSections(sections, studentSchedules, courseMap, 500);
+        // Post-ILP optimization: balance section sizes. The student ILP
+        // weighs balance against the other goals itself; the joint model
+        // can't, since its sections share meeting groups.
+        if (ilpResult === jointResult && isBalancingWanted(input)) {
+          report('optimizing', 88, 'Balancing section sizes...');
+          balanceSections(sections, studentSchedules, input, courseMap, getLunchRule(input)?.slots ?? [],
+            createDailyLimitCheck(input, sections), localSearch);
+        }
 
         report('optimizing', 90, `ILP complete: objective=${ilpResult.objectiveValue.toFixed(1)}, time=${ilpResult.solveTimeMs}ms`);
       } else {
         report('optimizing', 85, `ILP failed (${ilpResult.status}), falling back to greedy...`);
+        warnings.push(`Student assignment ILP failed (${ilpResult.status}${infeasible('student model', ilpResult.conflicts)})`);
         // Fall through to greedy
-        await runGreedyAssignment(sections, input, courseMap, unassigned, report);
+        await runGreedyAssignment(sections, input, courseMap, unassigned, report, localSearch);
       }
     } catch (err) {
       const errorMsg = err instanceof Error ? err.message : String(err);
       report('optimizing', 85, `ILP error: ${errorMsg}, falling back to greedy...`);
       // Fall through to greedy
-      await runGreedyAssignment(sections, input, courseMap, unassigned, report);
+      await runGreedyAssignment(sections, input, courseMap, unassigned, report, localSearch);
     }
   } else {
-    await runGreedyAssignment(sections, input, courseMap, unassigned, report);
+    await runGreedyAssignment(sections, input, courseMap, unassigned, report, localSearch);
   }
 
+  // Close sections below their course's minStudents before they take a room
+  const cancelledSections = cancelUnderEnrolledSections(sections, input, courseMap, unassigned);
+
+  report('assigning', 92, 'Assigning rooms to sections');
+
+  // Phase 4: Assign rooms now that enrollments are known
+  let roomsAssigned = false;
+  if (useILP) {
+    try {
+      const roomResult = await solveRoomAssignment(sections, input);
+      if (roomResult.success) {
+        for (const section of sections) {
+          section.roomId = roomResult.rooms.get(section.id);
+        }
+        roomsAssigned = true;
+      } else {
+        warnings.push(`Room assignment ILP failed (${roomResult.status}), used greedy room assignment`);
+      }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err);
+      warnings.push(`Room assignment ILP error (${errorMsg}), used greedy room assignment`);
+    }
+  }
+  if (!roomsAssigned) {
+    assignRooms(sections, input.rooms, courseMap);
+  }
+  const unassignedRooms = sections
+    .filter(section => !section.roomId)
+    .map(section => explainMissingRoom(section, sections, input));
+
   report('validating', 95, 'Finalizing schedule');
 
   const schedule: Schedule = {
     sections,
     unassignedStudents: unassigned,
+    unassignedRooms,
+    cancelledSections,
     metadata: {
       generatedAt: new Date().toISOString(),
       algorithmVersion: '2.0.0-ilp',
@@ -132,15 +309,17 @@ export async function generateSchedule(
       score: calculateScore(sections, input),
       constraintsSatisfied: 0,
       constraintsTotal: input.constraints.length + input.preferences.length,
-      warnings: algorithmUsed === 'greedy' ? ['Used greedy fallback instead of ILP'] : [],
+      warnings: algorithmUsed === 'greedy' ? ['Used greedy fallback instead of ILP', ...warnings] : warnings,
+      algorithm: algorithmUsed,
+      ...(ilpObjective > 0 ? { ilpObjective } : {}),
+      ...(objectiveBreakdown ? { objectiveBreakdown } : {}),
+      ...(sectionRecommendations ? { sectionRecommendations } : {}),
+      ...(infeasibleConstraints.length > 0 ? { infeasibleConstraints } : {}),
     },
   };
 
-  // Add algorithm info to metadata
-  (schedule.metadata as Record<string, unknown>).algorithm = algorithmUsed;
-  if (ilpObjective > 0) {
-    (schedule.metadata as Record<string, unknown>).ilpObjective = ilpObjective;
-  }
+  // Explain each unassigned student against the final sections
+  diagnoseUnassigned(schedule, input);
 
   report('complete', 100, 'Schedule generation complete', {
     studentsAssigned: input.students.length - unassigned.length,
@@ -153,7 +332,7 @@ export async function generateSchedule(
 function applyILPAssignments(
   sections: Section[],
   assignments: Map<StudentId, SectionId[]>,
-  students: { id: StudentId; requiredCourses: CourseId[] }[],
+  students: Student[],
   courseMap: Map<CourseId, Course>,
   unassigned: UnassignedStudent[]
 ): Map<StudentId, Set<string>> {
@@ -165,7 +344,9 @@ function applyILPAssignments(
 
   for (const student of students) {
     const studentSections = assignments.get(student.id) || [];
-    const schedule = new Set<string>();
+    // Unavailable periods start out blocked so post-optimization won't move
+    // the student into them
+    const schedule = getStudentPeriodKeys(student, 'unavailable');
 
     for (const sectionId of studentSections) {
       const section = sectionMap.get(sectionId);
@@ -189,39 +370,94 @@ function applyILPAssignments(
     for (const courseId of student.requiredCourses) {
       const course = courseMap.get(courseId);
       // Skip grade-restricted courses the student can't take
-      if (course?.gradeRestrictions) {
-        const studentObj = students.find(s => s.id === student.id) as { grade?: number };
-        if (studentObj?.grade && !course.gradeRestrictions.includes(studentObj.grade)) {
-          continue;
-        }
+      if (course?.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
+        continue;
+      }
+
+      const missingPrereqs = course ? getMissingPrerequisites(student, course) : [];
+      if (missingPrereqs.length > 0) {
+        unassigned.push({ studentId: student.id, courseId, reason: prerequisiteReason(missingPrereqs) });
+        continue;
       }
 
       if (!assignedCourses.has(courseId)) {
         unassigned.push({
           studentId: student.id,
           courseId,
-          reason: 'ILP could not find feasible assignment (conflict or capacity)',
+          reason: describeCorequisiteFailure(student, courseId, sections, schedule, courseMap)
+            ?? 'ILP could not find feasible assignment (conflict or capacity)',
         });
       }
     }
+
+    // Electives and course groups are optional past their counts, but a
+    // prerequisite refusal is still recorded
+    for (const courseId of getChosenCourses(student)) {
+      const course = courseMap.get(courseId);
+      if (!course) continue;
+      if (course.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
+        continue;
+      }
+
+      const missingPrereqs = getMissingPrerequisites(student, course);
+      if (missingPrereqs.length > 0) {
+        unassigned.push({ studentId: student.id, courseId, reason: prerequisiteReason(missingPrereqs) });
+      }
+    }
+
+    const enrolledCourses = new Set(studentSections.flatMap(sid => sectionMap.get(sid)?.courseId ?? []));
+    recordChoiceShortfalls(student, enrolledCourses, courseMap, unassigned,
+      'ILP could not find feasible assignment (conflict or capacity)');
   }
 
   return studentSchedules;
 }
 
+/**
+ * Record each course choice the student got fewer courses of than its
+ * count, against the best-ranked course they didn't get and could take
+ */
+function recordChoiceShortfalls(
+  student: Student,
+  enrolledCourses: Set<CourseId>,
+  courseMap: Map<CourseId, Course>,
+  unassigned: UnassignedStudent[],
+  reason: string
+): void {
+  for (const { choice, received } of getChoiceResults(student, enrolledCourses)) {
+    if (choice.count === null || received.length >= choice.count) continue;
+    const missed = choice.courses.filter(id => !enrolledCourses.has(id));
+    const open = missed.find(id => canEnroll(student, courseMap.get(id)));
+    unassigned.push({
+      studentId: student.id,
+      courseId: open ?? missed[0],
+      reason: `Short of ${describeChoice(choice)}: ${received.length} of ${choice.count} placed - ` +
+        (open ? reason : 'no other course of it is open to the student (grade or prerequisites)'),
+    });
+  }
+}
+
 async function runGreedyAssignment(
   sections: Section[],
   input: ScheduleInput,
   courseMap: Map<CourseId, Course>,
   unassigned: UnassignedStudent[],
-  report: (phase: ProgressReport['phase'], percent: number, operation: string, stats?: ProgressReport['stats']) => void
+  report: (phase: ProgressReport['phase'], percent: number, operation: string, stats?: ProgressReport['stats']) => void,
+  localSearch: LocalSearchMode = 'moves'
 ): Promise<void> {
-  // Track student schedules for conflict detection
+  // Track student schedules for conflict detection; unavailable periods
+  // start out blocked
   const studentSchedules = new Map<StudentId, Set<string>>();
   for (const student of input.students) {
-    studentSchedules.set(student.id, new Set());
+    studentSchedules.set(student.id, getStudentPeriodKeys(student, 'unavailable'));
   }
 
+  // Greedy placement only protects lunch when it is a hard rule; a soft
+  // lunch goal shouldn't cost a student a required course
+  const lunchRule = getLunchRule(input);
+  const greedyLunchSlots = lunchRule?.hard ? lunchRule.slots : [];
+  const breaksDailyLimits = createDailyLimitCheck(input, sections);
+
   // First pass: required courses
   let studentsAssigned = 0;
   for (const student of input.students) {
@@ -236,19 +472,29 @@ async function runGreedyAssignment(
         continue; // Skip silently - grade doesn't match
       }
 
-      const assigned = assignStudentToSection(
-        student.id,
+      const missingPrereqs = getMissingPrerequisites(student, course);
+      if (missingPrereqs.length > 0) {
+        unassigned.push({ studentId: student.id, courseId, reason: prerequisiteReason(missingPrereqs) });
+        continue;
+      }
+
+      const assigned = assignWithCorequisites(
+        student,
         courseId,
         sections,
         studentSchedules,
-        courseMap
+        courseMap,
+        greedyLunchSlots,
+        breaksDailyLimits
       );
 
       if (!assigned) {
+        const schedule = studentSchedules.get(student.id)!;
         unassigned.push({
           studentId: student.id,
           courseId,
-          reason: 'No available section (conflict or capacity)'
+          reason: describeCorequisiteFailure(student, courseId, sections, schedule, courseMap)
+            ?? 'No available section (conflict or capacity)'
         });
       }
     }
@@ -262,74 +508,160 @@ async function runGreedyAssignment(
 
   report('assigning', 75, 'Assigning electives (greedy)');
 
-  // Second pass: electives
+  // Second pass: electives and course groups, in rank order up to each
+  // choice's count
   for (const student of input.students) {
-    for (const courseId of student.electivePreferences) {
-      const course = courseMap.get(courseId);
-      if (!course) continue;
+    for (const choice of getCourseChoices(student)) {
+      let received = 0;
+      for (const courseId of choice.courses) {
+        if (choice.count !== null && received >= choice.count) break;
 
-      if (course.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
-        continue;
-      }
+        const course = courseMap.get(courseId);
+        if (!course) continue;
 
-      assignStudentToSection(
-        student.id,
-        courseId,
-        sections,
-        studentSchedules,
-        courseMap
-      );
+        if (course.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
+          continue;
+        }
+
+        const missingPrereqs = getMissingPrerequisites(student, course);
+        if (missingPrereqs.length > 0) {
+          unassigned.push({ studentId: student.id, courseId, reason: prerequisiteReason(missingPrereqs) });
+          continue;
+        }
+
+        const assigned = assignWithCorequisites(
+          student,
+          courseId,
+          sections,
+          studentSchedules,
+          courseMap,
+          greedyLunchSlots,
+          breaksDailyLimits
+        );
+        if (assigned) received++;
+      }
     }
+
+    const enrolledCourses = new Set(sections.filter(s => s.enrolledStudents.includes(student.id)).map(s => s.courseId));
+    recordChoiceShortfalls(student, enrolledCourses, courseMap, unassigned, 'No available section (conflict or capacity)');
   }
 
   report('optimizing', 80, 'Running local search optimization');
 
   // Optimization
-  optimizeSections(sections, studentSchedules, courseMap, 500);
+  if (isBalancingWanted(input)) {
+    balanceSections(sections, studentSchedules, input, courseMap, lunchRule?.slots ?? [], breaksDailyLimits, localSearch);
+  }
 }
 
-function createSections(
-  courses: Course[],
-  teachers: Teacher[]
-): Section[] {
+/**
+ * The balancing pass: single moves (optimizeSections) or swap chains
+ * (swap-chains.ts)
+ */
+function balanceSections(
+  sections: Section[],
+  studentSchedules: Map<StudentId, Set<string>>,
+  input: ScheduleInput,
+  courseMap: Map<CourseId, Course>,
+  lunchSlots: number[],
+  breaksDailyLimits: DailyLimitCheck,
+  localSearch: LocalSearchMode
+): void {
+  if (localSearch === 'swap-chains') {
+    balanceWithSwapChains(sections, input, courseMap, 500, lunchSlots, breaksDailyLimits);
+  } else {
+    optimizeSections(sections, studentSchedules, courseMap, 500, lunchSlots, breaksDailyLimits,
+      createGapCheck(input, sections));
+  }
+}
+
+/**
+ * Whether to run the balancing pass: only when SOFT: BALANCED_SECTIONS asks
+ * for it with a weight above 0
+ */
+function isBalancingWanted(input: ScheduleInput): boolean {
+  return (input.preferences.find(p => p.type === 'balanced_class_sizes')?.weight ?? 0) > 0;
+}
+
+/**
+ * Copy periods chosen by a timetabling ILP onto the sections
+ */
+function applySectionPeriods(sections: Section[], sectionPeriods: Map<SectionId, Period[]>): void {
+  for (const section of sections) {
+    section.periods = [...(sectionPeriods.get(section.id) || [])];
+  }
+}
+
+function createSections(courses: Course[]): Section[] {
   const sections: Section[] = [];
-  const teacherSectionCount = new Map<TeacherId, number>();
 
   for (const course of courses) {
-    const qualifiedTeachers = teachers.filter(t =>
-      t.subjects.includes(course.id) &&
-      (teacherSectionCount.get(t.id) || 0) < t.maxSections
-    );
-
     for (let i = 0; i < course.sections; i++) {
-      const teacher = qualifiedTeachers[i % qualifiedTeachers.length];
-
-      const section: Section = {
+      sections.push({
         id: `${course.id}-${i + 1}`,
         courseId: course.id,
-        teacherId: teacher?.id,
         periods: [],
         enrolledStudents: [],
         capacity: course.maxStudents,
-      };
-
-      sections.push(section);
-
-      if (teacher) {
-        teacherSectionCount.set(teacher.id, (teacherSectionCount.get(teacher.id) || 0) + 1);
-      }
+      });
     }
   }
 
   return sections;
 }
 
+/**
+ * Greedy teacher assignment: each section goes to the qualified teacher with
+ * the lowest load relative to maxSections who still has sections and
+ * available periods to spare
+ */
+function assignTeachers(
+  sections: Section[],
+  teachers: Teacher[],
+  courseMap: Map<CourseId, Course>,
+  config: ScheduleInput['config']
+): void {
+  const sectionCount = new Map<TeacherId, number>();
+  const periodCount = new Map<TeacherId, number>();
+
+  // Courses with the fewest qualified teachers pick first
+  const qualifiedByCourse = new Map<CourseId, Teacher[]>();
+  for (const course of courseMap.values()) {
+    qualifiedByCourse.set(course.id, getQualifiedTeachers(course, teachers, config));
+  }
+  const ordered = [...sections].sort((a, b) =>
+    (qualifiedByCourse.get(a.courseId)?.length ?? 0) - (qualifiedByCourse.get(b.courseId)?.length ?? 0)
+  );
+
+  for (const section of ordered) {
+    const course = courseMap.get(section.courseId);
+    const periods = getSectionPeriodCount(course, config);
+
+    const teacher = (qualifiedByCourse.get(section.courseId) || [])
+      .filter(t =>
+        (sectionCount.get(t.id) || 0) < t.maxSections &&
+        (periodCount.get(t.id) || 0) + periods <= getAvailablePeriodCount(t, config)
+      )
+      .sort((a, b) =>
+        (sectionCount.get(a.id) || 0) / a.maxSections - (sectionCount.get(b.id) || 0) / b.maxSections
+      )[0];
+
+    section.teacherId = teacher?.id;
+    if (teacher) {
+      sectionCount.set(teacher.id, (sectionCount.get(teacher.id) || 0) + 1);
+      periodCount.set(teacher.id, (periodCount.get(teacher.id) || 0) + periods);
+    }
+  }
+}
+
 function assignTimeSlots(
   sections: Section[],
   teachers: Teacher[],
   config: ScheduleInput['config'],
   teacherMap: Map<TeacherId, Teacher>,
-  courseMap: Map<CourseId, Course>
+  courseMap: Map<CourseId, Course>,
+  teacherPreferenceWeight: number,
+  lunchSlots: number[]
 ): void {
   const teacherSchedules = new Map<TeacherId, Set<string>>();
   for (const teacher of teachers) {
@@ -340,15 +672,12 @@ function assignTimeSlots(
     teacherSchedules.set(teacher.id, unavailable);
   }
 
-  // Track how many sections use each time slot (for load balancing)
-  const slotUsage = new Map<number, number>();
-  for (let slot = 0; slot < config.periodsPerDay; slot++) {
-    slotUsage.set(slot, 0);
-  }
+  // Track how many sections use each period (for load balancing)
+  const periodUsage = new Map<string, number>();
 
-  // Track which slots are used by courses with specific grade restrictions
-  // Key: grade number, Value: Map of slot -> course count at that slot
-  const gradeSlotUsage = new Map<number, Map<number, number>>();
+  // Track which periods are used by courses with specific grade restrictions
+  // Key: grade number, Value: Map of period key -> course count at that period
+  const gradePeriodUsage = new Map<number, Map<string, number>>();
 
   // Group sections by course for spreading
   const sectionsByCourse = new Map<CourseId, Section[]>();
@@ -363,66 +692,79 @@ function assignTimeSlots(
   for (const [courseId, courseSections] of sectionsByCourse) {
     const course = courseMap.get(courseId);
     const grades = course?.gradeRestrictions || [];
+    const meetingOptions = getCandidateMeetings(course, config);
 
-    // Track which slots this course has used (sections of same course should differ)
-    const courseUsedSlots = new Set<number>();
+    // Track which periods this course has used (sections of same course should differ)
+    const coursePeriods = new Set<string>();
 
     for (let sectionIdx = 0; sectionIdx < courseSections.length; sectionIdx++) {
       const section = courseSections[sectionIdx];
       const teacherId = section.teacherId;
       const teacherSchedule = teacherId ? teacherSchedules.get(teacherId) : null;
+      const teacherPreferences = teacherId ? teacherMap.get(teacherId)?.preferences || [] : [];
 
-      // Find the least-used slot that this course hasn't used yet (if possible)
-      const availableSlots: { slot: number; usage: number }[] = [];
-      for (let slot = 0; slot < config.periodsPerDay; slot++) {
-        // Check if teacher is available for this slot on ALL days
-        const teacherAvailable = !teacherSchedule ||
-          ![...Array(config.daysPerWeek).keys()].some(day =>
-            teacherSchedule.has(`${day}-${slot}`)
-          );
-
-        if (teacherAvailable) {
-          let penalty = slotUsage.get(slot)!;
-
-          // Penalize reusing same slot for same course
-          if (courseUsedSlots.has(slot)) {
-            penalty += 1000;
-          }
+      // Find the least-used slot/day pattern that this course hasn't used yet (if possible)
+      const candidates: { periods: Period[]; usage: number }[] = [];
+      for (const periods of meetingOptions) {
+        const keys = periods.map(p => `${p.day}-${p.slot}`);
 
-          // Penalize slots already used by other courses for the same grade
-          // This prevents Gov and Eng12 from both being at slot 3
-          for (const grade of grades) {
-            const gradeSlots = gradeSlotUsage.get(grade);
-            if (gradeSlots) {
-              const gradeUsage = gradeSlots.get(slot) || 0;
-              penalty += gradeUsage * 500; // Heavy penalty for same-grade conflicts
+        // Check if teacher is available for every period of every meeting
+        const teacherAvailable = !teacherSchedule || !keys.some(key => teacherSchedule.has(key));
+        if (!teacherAvailable) continue;
+
+        // Average usage across the meeting days
+        let penalty = keys.reduce((sum, key) => sum + (periodUsage.get(key) || 0), 0) / keys.length;
+
+        // Bias toward the teacher's preferred periods and away from avoided ones
+        penalty += teacherPreferenceBias(teacherPreferences, periods, teacherPreferenceWeight);
+
+        // Penalize reusing same period for same course
+        if (keys.some(key => coursePeriods.has(key))) {
+          penalty += 1000;
+        }
+
+        // Penalize periods already used by other courses for the same grade
+        // This prevents Gov and Eng12 from both being at slot 3
+        for (const grade of grades) {
+          const gradePeriods = gradePeriodUsage.get(grade);
+          if (gradePeriods) {
+            const gradeUsage = Math.max(...keys.map(key => gradePeriods.get(key) || 0));
+            penalty += gradeUsage * 500; // Heavy penalty for same-grade conflicts
+
+            // Penalize taking a grade's last free lunch slot on any day
+            const takesLastLunch = periods.some(p =>
+              lunchSlots.includes(p.slot) &&
+              lunchSlots.every(slot => slot === p.slot || gradePeriods.has(`${p.day}-${slot}`))
+            );
+            if (takesLastLunch) {
+              penalty += 300;
             }
           }
-
-          availableSlots.push({ slot, usage: penalty });
         }
+
+        candidates.push({ periods, usage: penalty });
       }
 
-      // Sort by usage (prefer less-used slots)
-      availableSlots.sort((a, b) => a.usage - b.usage);
+      // Sort by usage (prefer less-used periods)
+      candidates.sort((a, b) => a.usage - b.usage);
 
-      const chosenSlot = availableSlots[0]?.slot ?? 0;
-      courseUsedSlots.add(chosenSlot);
-      slotUsage.set(chosenSlot, (slotUsage.get(chosenSlot) || 0) + 1);
+      const chosen = candidates[0]?.periods ?? meetingOptions[0];
 
-      // Track grade-slot usage
-      for (const grade of grades) {
-        if (!gradeSlotUsage.has(grade)) {
-          gradeSlotUsage.set(grade, new Map());
+      for (const period of chosen) {
+        const key = `${period.day}-${period.slot}`;
+        section.periods.push(period);
+        coursePeriods.add(key);
+        periodUsage.set(key, (periodUsage.get(key) || 0) + 1);
+
+        // Track grade-period usage
+        for (const grade of grades) {
+          if (!gradePeriodUsage.has(grade)) {
+            gradePeriodUsage.set(grade, new Map());
+          }
+          const gradePeriods = gradePeriodUsage.get(grade)!;
+          gradePeriods.set(key, (gradePeriods.get(key) || 0) + 1);
         }
-        const gradeSlots = gradeSlotUsage.get(grade)!;
-        gradeSlots.set(chosenSlot, (gradeSlots.get(chosenSlot) || 0) + 1);
-      }
 
-      // Assign this section to the chosen slot for all days
-      for (let day = 0; day < config.daysPerWeek; day++) {
-        const key = `${day}-${chosenSlot}`;
-        section.periods.push({ day, slot: chosenSlot });
         if (teacherSchedule) {
           teacherSchedule.add(key);
         }
@@ -434,8 +776,7 @@ function assignTimeSlots(
 function assignRooms(
   sections: Section[],
   rooms: Room[],
-  courseMap: Map<CourseId, Course>,
-  config: ScheduleInput['config']
+  courseMap: Map<CourseId, Course>
 ): void {
   const roomSchedules = new Map<RoomId, Set<string>>();
   for (const room of rooms) {
@@ -446,16 +787,21 @@ function assignRooms(
     roomSchedules.set(room.id, unavailable);
   }
 
-  for (const section of sections) {
-    const course = courseMap.get(section.courseId);
-    const requiredFeatures = course?.requiredFeatures || [];
+  // Block courses are hardest to place, so they pick rooms first. A room is
+  // only taken if it is free for every period of the section, so all slots
+  // of a block land in the same room.
+  const blockLengthOf = (section: Section) => courseMap.get(section.courseId)?.blockLength ?? 1;
+  const ordered = [...sections].sort((a, b) => blockLengthOf(b) - blockLengthOf(a));
 
-    const suitableRooms = rooms.filter(r => {
-      if (r.capacity < section.capacity) return false;
-      return requiredFeatures.every(f => r.features.includes(f));
-    });
+  for (const section of ordered) {
+    // Rooms with the required features that seat the actual enrollment,
+    // keeping specialty rooms for the courses that need them
+    const course = courseMap.get(section.courseId);
+    const suitableRooms = getCandidateRooms(section, course, rooms);
 
-    suitableRooms.sort((a, b) => a.capacity - b.capacity);
+    suitableRooms.sort((a, b) =>
+      countUnneededFeatures(a, course) - countUnneededFeatures(b, course) || a.capacity - b.capacity
+    );
 
     for (const room of suitableRooms) {
       const schedule = roomSchedules.get(room.id)!;
@@ -477,8 +823,10 @@ function assignStudentToSection(
   courseId: CourseId,
   sections: Section[],
   studentSchedules: Map<StudentId, Set<string>>,
-  courseMap: Map<CourseId, Course>
-): boolean {
+  courseMap: Map<CourseId, Course>,
+  lunchSlots: number[] = [],
+  breaksDailyLimits: DailyLimitCheck = () => false
+): Section | null {
   const studentSchedule = studentSchedules.get(studentId)!;
   const courseSections = sections.filter(s => s.courseId === courseId);
 
@@ -497,24 +845,140 @@ function assignStudentToSection(
       continue;
     }
 
+    if (lunchSlots.length > 0 && blocksLunch(studentSchedule, section.periods, lunchSlots)) {
+      continue;
+    }
+
+    if (breaksDailyLimits(studentId, section)) {
+      continue;
+    }
+
     section.enrolledStudents.push(studentId);
     for (const period of section.periods) {
       studentSchedule.add(`${period.day}-${period.slot}`);
     }
-    return true;
+    return section;
+  }
+
+  return null;
+}
+
+/**
+ * Place a student in a course together with all of its corequisites.
+ * If any part of the bundle can't be placed, the whole bundle is rolled back.
+ */
+function assignWithCorequisites(
+  student: Student,
+  courseId: CourseId,
+  sections: Section[],
+  studentSchedules: Map<StudentId, Set<string>>,
+  courseMap: Map<CourseId, Course>,
+  lunchSlots: number[] = [],
+  breaksDailyLimits: DailyLimitCheck = () => false
+): boolean {
+  const studentSchedule = studentSchedules.get(student.id)!;
+  const placed: Section[] = [];
+  let ok = true;
+
+  for (const id of getCorequisiteClosure(courseId, courseMap)) {
+    const alreadyEnrolled = sections.some(s =>
+      s.courseId === id && s.enrolledStudents.includes(student.id)
+    );
+    if (alreadyEnrolled) continue;
+
+    if (!canEnroll(student, courseMap.get(id))) {
+      ok = false;
+      break;
+    }
+
+    const section = assignStudentToSection(
+      student.id, id, sections, studentSchedules, courseMap, lunchSlots, breaksDailyLimits
+    );
+    if (!section) {
+      ok = false;
+      break;
+    }
+    placed.push(section);
+  }
+
+  if (!ok) {
+    for (const section of placed) {
+      section.enrolledStudents = section.enrolledStudents.filter(id => id !== student.id);
+      for (const period of section.periods) {
+        studentSchedule.delete(`${period.day}-${period.slot}`);
+      }
+    }
   }
 
-  return false;
+  return ok;
+}
+
+/**
+ * For a course with corequisites that the student didn't get, name the half
+ * of the pair that failed. Returns null for courses without corequisites.
+ */
+function describeCorequisiteFailure(
+  student: Student,
+  courseId: CourseId,
+  sections: Section[],
+  studentSchedule: Set<string>,
+  courseMap: Map<CourseId, Course>
+): string | null {
+  if (!courseMap.get(courseId)?.corequisites?.length) return null;
+
+  const bundle = getCorequisiteClosure(courseId, courseMap);
+  const failed: string[] = [];
+
+  for (const id of bundle) {
+    const courseSections = sections.filter(s => s.courseId === id);
+    if (courseSections.some(s => s.enrolledStudents.includes(student.id))) continue;
+
+    const course = courseMap.get(id);
+    if (!course || courseSections.length === 0) {
+      failed.push(`${id} (no sections offered)`);
+      continue;
+    }
+
+    if (course.gradeRestrictions && !course.gradeRestrictions.includes(student.grade)) {
+      failed.push(`${id} (grade ${student.grade} not allowed)`);
+      continue;
+    }
+
+    const missingPrereqs = getMissingPrerequisites(student, course);
+    if (missingPrereqs.length > 0) {
+      failed.push(`${id} (${prerequisiteReason(missingPrereqs)})`);
+      continue;
+    }
+
+    const hasOpenSection = courseSections.some(s =>
+      s.enrolledStudents.length < s.capacity &&
+      !s.periods.some(p => studentSchedule.has(`${p.day}-${p.slot}`))
+    );
+    if (!hasOpenSection) {
+      failed.push(`${id} (no open section without a time conflict)`);
+    }
+  }
+
+  if (failed.length === 0) {
+    return `Corequisites ${bundle.join(' + ')}: no combination of their sections fits together`;
+  }
+  return `Corequisites ${bundle.join(' + ')} failed on ${failed.join('; ')}`;
 }
 
 function optimizeSections(
   sections: Section[],
   studentSchedules: Map<StudentId, Set<string>>,
   courseMap: Map<CourseId, Course>,
-  maxIterations: number
+  maxIterations: number,
+  lunchSlots: number[] = [],
+  breaksDailyLimits: DailyLimitCheck = () => false,
+  addsGaps: GapCheck = () => false
 ): void {
+  // Sections below their course's minStudents are closed (or about to be
+  // cancelled), so balancing must not fill them back up
   const sectionsByCourse = new Map<CourseId, Section[]>();
   for (const section of sections) {
+    if (section.enrolledStudents.length < (courseMap.get(section.courseId)?.minStudents ?? 0)) continue;
     const list = sectionsByCourse.get(section.courseId) || [];
     list.push(section);
     sectionsByCourse.set(section.courseId, list);
@@ -540,9 +1004,12 @@ function optimizeSections(
           studentSchedule.delete(`${period.day}-${period.slot}`);
         }
 
+        // Balancing is optional, so a move never adds a day without lunch,
+        // breaks a daily limit or (under MINIMIZE_GAPS) adds a gap
         const hasConflict = smallest.periods.some(p =>
           studentSchedule.has(`${p.day}-${p.slot}`)
-        );
+        ) || (lunchSlots.length > 0 && losesLunch(studentSchedule, largest.periods, smallest.periods, lunchSlots))
+          || breaksDailyLimits(studentId, smallest) || addsGaps(studentId, smallest);
 
         if (!hasConflict && smallest.enrolledStudents.length < smallest.capacity) {
           largest.enrolledStudents = largest.enrolledStudents.filter(id => id !== studentId);
@@ -0,0 +1,113 @@
+/**
+ * Irreducible infeasible subsets (IIS) of the ILP models
+ *
+ * When HiGHS reports a model Infeasible, finds a minimal set of its rows
+ * that is infeasible on its own: drop any one of them and the rest can be
+ * satisfied. HiGHS's IIS search (getIis) comes back empty for the integer
+ * models built here, so the rows are filtered by re-solving subsets of them
+ * (QuickXplain, Junker 2004), which takes O(k log(n/k)) solves to find k
+ * conflicting rows among n.
+ *
+ * Each model translates its rows back into domain terms (see
+ * explainTimetableConflicts and the student ILP); this module only deals
+ * in rows.
+ */
+
+import highs from 'highs';
+import type {
+  ScheduleInput,
+  ConstraintType,
+  ConstraintViolation,
+} from '../types/index.js';
+
+// Per subset solve; a solve that runs out of time counts as feasible, so the
+// subset found may then be larger than necessary
+const SUBSET_TIME_LIMIT_SECONDS = 10;
+
+export interface ModelRow {
+  name: string;
+  variables: string[];
+  rhs: number;
+}
+
+/**
+ * Name, variables and right-hand side of a CPLEX LP constraint line
+ * (" name: 2 x_1 + x_2 - y_3 <= 4")
+ */
+export function parseRow(line: string): ModelRow {
+  const colon = line.indexOf(':');
+  const [expression, rhs] = line.slice(colon + 1).split(/<=|>=|=/);
+  return {
+    name: line.slice(0, colon).trim(),
+    variables: expression.split(/\s+/).filter(token => /^[A-Za-z_]/.test(token)),
+    rhs: Number(rhs),
+  };
+}
+
+/**
+ * Rows of a minimal infeasible subset of the model, or an empty list if the
+ * rows can be satisfied together
+ */
+export async function findInfeasibleSubset(
+  constraintLines: string[],
+  binaryVars: string[]
+): Promise<ModelRow[]> {
+  const solver = await highs();
+  const rows = constraintLines.map(parseRow);
+  const binaries = new Set(binaryVars);
+
+  const infeasible = (indices: number[]): boolean => {
+    if (indices.length === 0) return false;
+    const used = new Set(indices.flatMap(i => rows[i].variables));
+    const binary = [...used].filter(v => binaries.has(v));
+    const lpModel = [
+      'Minimize',
+      ' obj: 0',
+      'Subject To',
+      ...indices.map(i => constraintLines[i]),
+      ...(binary.length > 0 ? ['Binary', ' ' + binary.join(' ')] : []),
+      'End',
+    ].join('\n');
+    return solver.solve(lpModel, { time_limit: SUBSET_TIME_LIMIT_SECONDS }).Status === 'Infeasible';
+  };
+
+  // QuickXplain: the rows of `candidates` that, with `background`, are
+  // infeasible; `changed` says whether background grew since it was checked
+  const explain = (background: number[], changed: boolean, candidates: number[]): number[] => {
+    if (changed && infeasible(background)) return [];
+    if (candidates.length === 1) return candidates;
+
+    const half = Math.ceil(candidates.length / 2);
+    const first = candidates.slice(0, half);
+    const second = candidates.slice(half);
+    const fromSecond = explain([...background, ...first], true, second);
+    const fromFirst = explain([...background, ...fromSecond], fromSecond.length > 0, first);
+    return [...fromFirst, ...fromSecond];
+  };
+
+  const all = rows.map((_, i) => i);
+  if (!infeasible(all)) return [];
+  return explain([], false, all).sort((a, b) => a - b).map(i => rows[i]);
+}
+
+/**
+ * The input's id for a built-in constraint type (e.g. "hard-no-room-conflict"),
+ * or the type itself when constraints.txt doesn't list it, as the validator
+ * reports it
+ */
+export function constraintIdFor(input: ScheduleInput, type: ConstraintType): string {
+  return input.constraints.find(c => c.type === type)?.id ?? type;
+}
+
+/**
+ * A row no translation covers, reported as it appears in the model
+ */
+export function describeModelRow(row: ModelRow): ConstraintViolation {
+  return {
+    constraintId: row.name,
+    constraintType: 'custom',
+    description: `Model row ${row.name} (${row.variables.length} variables, limit ${row.rhs})`,
+    severity: 'error',
+    entities: {},
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Lunch period rule
+ *
+ * CONFIG: LUNCH_PERIODS names the slots that can serve as lunch. Every student
+ * should keep at least one of them free each day. A HARD: LUNCH_AVAILABILITY
+ * line makes that a hard constraint; a SOFT: line makes it a weighted goal.
+ * Either line can name its own slots with `periods=4,5` (1-based).
+ */
+
+import type { ScheduleInput, Period, ConstraintParams } from '../types/index.js';
+
+export interface LunchRule {
+  slots: number[];
+  hard: boolean;
+  weight: number; // 0-1, only meaningful for soft rules
+}
+
+export function getLunchRule(input: ScheduleInput): LunchRule | null {
+  const slotsFor = (params: ConstraintParams) => {
+    const periods = params.periods as number[] | undefined;
+    return periods ? periods.map(p => p - 1) : input.config.lunchSlots || [];
+  };
+
+  const constraint = input.constraints.find(c => c.type === 'lunch_period');
+  if (constraint) {
+    const slots = slotsFor(constraint.params);
+    return slots.length > 0 ? { slots, hard: true, weight: 1 } : null;
+  }
+
+  const preference = input.preferences.find(p => p.type === 'lunch_period');
+  if (preference) {
+    const slots = slotsFor(preference.params);
+    return slots.length > 0 ? { slots, hard: false, weight: preference.weight } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Days on which every lunch slot is taken in the given schedule
+ * (a set of "day-slot" keys).
+ */
+export function getDaysWithoutLunch(
+  schedule: Set<string>,
+  lunchSlots: number[],
+  daysPerWeek: number
+): number[] {
+  const days: number[] = [];
+  for (let day = 0; day < daysPerWeek; day++) {
+    if (lunchSlots.every(slot => schedule.has(`${day}-${slot}`))) {
+      days.push(day);
+    }
+  }
+  return days;
+}
+
+/**
+ * Whether adding `periods` to the schedule would take away a day's last
+ * free lunch slot.
+ */
+export function blocksLunch(
+  schedule: Set<string>,
+  periods: Period[],
+  lunchSlots: number[]
+): boolean {
+  const days = new Set(periods.filter(p => lunchSlots.includes(p.slot)).map(p => p.day));
+  for (const day of days) {
+    const allTaken = lunchSlots.every(slot =>
+      schedule.has(`${day}-${slot}`) || periods.some(p => p.day === day && p.slot === slot)
+    );
+    if (allTaken) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether swapping `removed` for `added` in the schedule (which holds
+ * neither) leaves the student more days without a free lunch slot. A day
+ * that has none either way doesn't count.
+ */
+export function losesLunch(
+  schedule: Set<string>,
+  removed: Period[],
+  added: Period[],
+  lunchSlots: number[]
+): boolean {
+  const daysWithoutLunch = (periods: Period[]) =>
+    [...new Set([...removed, ...added].map(p => p.day))].filter(day =>
+      lunchSlots.every(slot =>
+        schedule.has(`${day}-${slot}`) || periods.some(p => p.day === day && p.slot === slot)
+      )
+    ).length;
+  return daysWithoutLunch(added) > daysWithoutLunch(removed);
+}
@@ -0,0 +1,98 @@
+/**
+ * Candidate meeting times for sections, shared by the heuristic time slot
+ * assignment and the timetabling ILP
+ */
+
+import type { Course, Period, TimeSlot, TeacherPreference, ScheduleConfig } from '../types/index.js';
+
+// Largest slot penalty a fully weighted teacher preference can add or remove;
+// enough to beat load balancing, not enough to override conflict penalties
+const TEACHER_PREFERENCE_SCALE = 10;
+
+/**
+ * Day patterns a course can meet on, e.g. MWF for 3 meetings per week or
+ * TTh/MW/... for 2. Courses meeting every day get a single pattern.
+ * Where possible meeting days are kept non-adjacent so contact time is spread
+ * across the week.
+ */
+export function buildMeetingPatterns(meetingsPerWeek: number, daysPerWeek: number): number[][] {
+  const meetings = Math.min(Math.max(meetingsPerWeek || daysPerWeek, 1), daysPerWeek);
+  const allDays = [...Array(daysPerWeek).keys()];
+  if (meetings === daysPerWeek) return [allDays];
+
+  const combos: number[][] = [];
+  const build = (start: number, current: number[]) => {
+    if (current.length === meetings) {
+      combos.push([...current]);
+      return;
+    }
+    for (let day = start; day < daysPerWeek; day++) {
+      current.push(day);
+      build(day + 1, current);
+      current.pop();
+    }
+  };
+  build(0, []);
+
+  const spread = combos.filter(days => days.every((d, i) => i === 0 || d - days[i - 1] >= 2));
+  return spread.length > 0 ? spread : combos;
+}
+
+/**
+ * Expand a meeting into the individual periods it occupies
+ */
+export function expandTimeSlot(timeSlot: TimeSlot): Period[] {
+  const { day, slot } = timeSlot.period;
+  return [...Array(timeSlot.duration).keys()].map(offset => ({ day, slot: slot + offset }));
+}
+
+/**
+ * Consecutive periods per meeting, clamped to the length of the day
+ */
+export function getBlockLength(course: Course | undefined, config: ScheduleConfig): number {
+  return Math.min(Math.max(course?.blockLength ?? 1, 1), config.periodsPerDay);
+}
+
+/**
+ * Every way a section of `course` can meet: each start slot combined with each
+ * day pattern, slot-major. Block courses (e.g. double-period labs) meet in
+ * runs of blockLength consecutive slots; periodsPerWeek counts every period of
+ * every block.
+ */
+export function getCandidateMeetings(course: Course | undefined, config: ScheduleConfig): Period[][] {
+  const blockLength = getBlockLength(course, config);
+  const periodsPerWeek = course?.periodsPerWeek ?? config.daysPerWeek * blockLength;
+  const patterns = buildMeetingPatterns(Math.ceil(periodsPerWeek / blockLength), config.daysPerWeek);
+
+  const candidates: Period[][] = [];
+  for (let slot = 0; slot + blockLength <= config.periodsPerDay; slot++) {
+    for (const days of patterns) {
+      // Each meeting reserves its whole block atomically
+      const meetings: TimeSlot[] = days.map(day => ({ period: { day, slot }, duration: blockLength }));
+      candidates.push(meetings.flatMap(expandTimeSlot));
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Penalty adjustment for meeting in `periods`: negative toward the teacher's
+ * preferred periods and positive toward avoided ones, scaled by each
+ * preference's weight and the TEACHER_PREFERENCES weight
+ */
+export function teacherPreferenceBias(
+  preferences: TeacherPreference[],
+  periods: Period[],
+  teacherPreferenceWeight: number
+): number {
+  let bias = 0;
+  for (const preference of preferences) {
+    const matching = periods.filter(period =>
+      preference.periods.some(p => p.day === period.day && p.slot === period.slot)
+    ).length;
+    const amount = TEACHER_PREFERENCE_SCALE * teacherPreferenceWeight * preference.weight *
+      (matching / periods.length);
+    bias += preference.type === 'prefer' ? -amount : amount;
+  }
+  return bias;
+}
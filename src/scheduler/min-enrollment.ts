@@ -0,0 +1,160 @@
+/**
+ * Minimum enrollment (Course.minStudents)
+ *
+ * A section of a course with minStudents either runs with at least that many
+ * students or is cancelled. The student ILP models this directly; this pass
+ * enforces it on whatever enrollments come out of the ILP or greedy paths:
+ * the emptiest section below the minimum is cancelled, its students move to
+ * another section of the course where they fit (preferring sections still
+ * below the minimum, so they can be rescued), and the check repeats. Students
+ * with nowhere to go are dropped from the course, and from any course that
+ * needs it as a corequisite. Cancelled sections are removed, so their teacher
+ * is freed and they never get a room.
+ */
+
+import type {
+  ScheduleInput,
+  Section,
+  Course,
+  CancelledSection,
+  MovedStudent,
+  UnassignedStudent,
+  StudentId,
+  CourseId,
+} from '../types/index.js';
+import { getCorequisiteClosure, getStudentPeriodKeys } from './eligibility.js';
+import { getLunchRule, blocksLunch } from './lunch.js';
+import { createDailyLimitCheck } from './daily-limits.js';
+
+/**
+ * Sections below their course's minStudents
+ */
+export function getUnderEnrolledSections(sections: Section[], courseMap: Map<CourseId, Course>): Section[] {
+  return sections.filter(section => {
+    const minStudents = courseMap.get(section.courseId)?.minStudents;
+    return minStudents !== undefined && section.enrolledStudents.length < minStudents;
+  });
+}
+
+/**
+ * Cancel under-enrolled sections in place (removing them from `sections`)
+ * and return what was cancelled
+ */
+export function cancelUnderEnrolledSections(
+  sections: Section[],
+  input: ScheduleInput,
+  courseMap: Map<CourseId, Course>,
+  unassigned: UnassignedStudent[]
+): CancelledSection[] {
+  const cancelled: CancelledSection[] = [];
+  const lunchRule = getLunchRule(input);
+  const lunchSlots = lunchRule?.hard ? lunchRule.slots : [];
+  const students = new Map(input.students.map(s => [s.id, s]));
+  const breaksDailyLimits = createDailyLimitCheck(input, sections);
+
+  // Periods each student is busy in, unavailable periods included
+  const studentSchedules = new Map<StudentId, Set<string>>();
+  for (const student of input.students) {
+    studentSchedules.set(student.id, getStudentPeriodKeys(student, 'unavailable'));
+  }
+  for (const section of sections) {
+    for (const studentId of section.enrolledStudents) {
+      for (const period of section.periods) {
+        studentSchedules.get(studentId)?.add(`${period.day}-${period.slot}`);
+      }
+    }
+  }
+
+  const leave = (section: Section, studentId: StudentId) => {
+    section.enrolledStudents = section.enrolledStudents.filter(id => id !== studentId);
+    for (const period of section.periods) {
+      studentSchedules.get(studentId)?.delete(`${period.day}-${period.slot}`);
+    }
+  };
+
+  for (;;) {
+    const section = getUnderEnrolledSections(sections, courseMap)
+      .sort((a, b) => a.enrolledStudents.length - b.enrolledStudents.length)[0];
+    if (!section) break;
+
+    const minStudents = courseMap.get(section.courseId)!.minStudents!;
+    const enrollment = section.enrolledStudents.length;
+    sections.splice(sections.indexOf(section), 1);
+
+    const movedStudents: MovedStudent[] = [];
+    for (const studentId of [...section.enrolledStudents]) {
+      leave(section, studentId);
+      const schedule = studentSchedules.get(studentId) ?? new Set<string>();
+
+      const target = sections
+        .filter(s => s.courseId === section.courseId && s.enrolledStudents.length < s.capacity)
+        .filter(s => !s.periods.some(p => schedule.has(`${p.day}-${p.slot}`)))
+        .filter(s => lunchSlots.length === 0 || !blocksLunch(schedule, s.periods, lunchSlots))
+        .filter(s => !breaksDailyLimits(studentId, s))
+        .sort((a, b) => {
+          // Sections still below the minimum first, closest to it first;
+          // then the emptiest of the rest
+          const aBelow = a.enrolledStudents.length < minStudents;
+          const bBelow = b.enrolledStudents.length < minStudents;
+          if (aBelow !== bBelow) return aBelow ? -1 : 1;
+          return aBelow
+            ? b.enrolledStudents.length - a.enrolledStudents.length
+            : a.enrolledStudents.length - b.enrolledStudents.length;
+        })[0];
+
+      if (target) {
+        target.enrolledStudents.push(studentId);
+        for (const period of target.periods) {
+          schedule.add(`${period.day}-${period.slot}`);
+        }
+        movedStudents.push({ studentId, toSectionId: target.id });
+        continue;
+      }
+
+      movedStudents.push({ studentId });
+      const student = students.get(studentId);
+      const reason = `Section ${section.id} cancelled (${enrollment} enrolled, ` +
+        `minStudents ${minStudents}); no other section of ${section.courseId} fits`;
+      if (student?.requiredCourses.includes(section.courseId)) {
+        unassigned.push({ studentId, courseId: section.courseId, reason });
+      }
+
+      // Courses taken with this one as a corequisite can't be kept without it
+      for (const other of sections) {
+        if (other.courseId === section.courseId || !other.enrolledStudents.includes(studentId)) continue;
+        if (!getCorequisiteClosure(other.courseId, courseMap).includes(section.courseId)) continue;
+        leave(other, studentId);
+        if (student?.requiredCourses.includes(other.courseId)) {
+          unassigned.push({
+            studentId,
+            courseId: other.courseId,
+            reason: `Dropped with corequisite ${section.courseId} (section ${section.id} cancelled)`,
+          });
+        }
+      }
+    }
+
+    cancelled.push({
+      sectionId: section.id,
+      courseId: section.courseId,
+      teacherId: section.teacherId,
+      enrollment,
+      minStudents,
+      movedStudents,
+    });
+  }
+
+  // A student moved into a section that was cancelled later ends up wherever
+  // that section's students went (later cancellations are resolved first)
+  const byId = new Map(cancelled.map(c => [c.sectionId, c]));
+  for (const entry of [...cancelled].reverse()) {
+    for (const moved of entry.movedStudents) {
+      const later = moved.toSectionId ? byId.get(moved.toSectionId) : undefined;
+      if (later) {
+        moved.toSectionId = later.movedStudents.find(m => m.studentId === moved.studentId)?.toSectionId;
+      }
+    }
+  }
+
+  return cancelled;
+}
@@ -0,0 +1,217 @@
+/**
+ * Room assignment as an ILP, solved after students are placed
+ *
+ * Variables:
+ *   a[k][m] = 1 if section k meets in room m (only for rooms that have the
+ *             course's required features, seat the section's enrollment and
+ *             are available during all of its periods)
+ *   u[t][m] = 1 if teacher t teaches in room m (with MINIMIZE_ROOM_CHANGES)
+ *
+ * Hard Constraints:
+ *   1. At most one room per section
+ *   2. No room conflicts (room holds at most one section per period)
+ *
+ * Objective:
+ *   Maximize: 1000 per roomed section
+ *             - 5 per room feature the course doesn't need (keep labs, gyms,
+ *               ... free for the courses that need them)
+ *             - spare seats / room capacity (prefer snug rooms)
+ *             - 10*weight per room a teacher uses (MINIMIZE_ROOM_CHANGES)
+ */
+
+import highs from 'highs';
+import type {
+  ScheduleInput,
+  Section,
+  Room,
+  Course,
+  RoomId,
+  SectionId,
+  TeacherId,
+  UnassignedRoom,
+} from '../types/index.js';
+
+const ROOMED_SECTION_WEIGHT = 1000;
+const UNNEEDED_FEATURE_PENALTY = 5;
+const ROOM_CHANGE_PENALTY_SCALE = 10;
+
+export interface RoomAssignmentResult {
+  success: boolean;
+  rooms: Map<SectionId, RoomId>;
+  status: string;
+}
+
+/**
+ * Rooms a section could use if they were free: required features, enough
+ * seats for its enrollment (and any seats at all, even for an empty
+ * section), and available during all of its periods
+ */
+export function getCandidateRooms(section: Section, course: Course | undefined, rooms: Room[]): Room[] {
+  const requiredFeatures = course?.requiredFeatures || [];
+  return rooms.filter(room =>
+    requiredFeatures.every(f => room.features.includes(f)) &&
+    room.capacity > 0 &&
+    room.capacity >= section.enrolledStudents.length &&
+    !section.periods.some(p => (room.unavailable || []).some(u => u.day === p.day && u.slot === p.slot))
+  );
+}
+
+/**
+ * Features of the room the course doesn't need
+ */
+export function countUnneededFeatures(room: Room, course: Course | undefined): number {
+  const requiredFeatures = course?.requiredFeatures || [];
+  return room.features.filter(f => !requiredFeatures.includes(f)).length;
+}
+
+export async function solveRoomAssignment(
+  sections: Section[],
+  input: ScheduleInput
+): Promise<RoomAssignmentResult> {
+  const courseMap = new Map(input.courses.map(c => [c.id, c]));
+  const roomWeight = input.preferences.find(p => p.type === 'minimize_room_changes')?.weight ?? 0;
+
+  const varName = (k: number, m: number) => `a_${k}_${m}`;
+  const roomIndex = new Map(input.rooms.map((room, m) => [room.id, m]));
+
+  const objectiveTerms: string[] = [];
+  const constraintLines: string[] = [];
+  const binaryVars: string[] = [];
+
+  const candidates = sections.map(section =>
+    getCandidateRooms(section, courseMap.get(section.courseId), input.rooms).map(room => roomIndex.get(room.id)!)
+  );
+
+  if (candidates.every(list => list.length === 0)) {
+    return { success: true, rooms: new Map(), status: 'Empty' };
+  }
+
+  // Objective: roomed sections, in rooms without unneeded features, snug fits
+  sections.forEach((section, k) => {
+    for (const m of candidates[k]) {
+      const room = input.rooms[m];
+      const spare = (room.capacity - section.enrolledStudents.length) / room.capacity;
+      const unneeded = countUnneededFeatures(room, courseMap.get(section.courseId));
+      const weight = ROOMED_SECTION_WEIGHT - UNNEEDED_FEATURE_PENALTY * unneeded - spare;
+      objectiveTerms.push(`+ ${weight} ${varName(k, m)}`);
+      binaryVars.push(varName(k, m));
+    }
+  });
+
+  // Constraint 1: At most one room per section
+  sections.forEach((_, k) => {
+    if (candidates[k].length > 1) {
+      constraintLines.push(` one_${k}: ${candidates[k].map(m => varName(k, m)).join(' + ')} <= 1`);
+    }
+  });
+
+  // Constraint 2: No room conflicts
+  const usage = new Map<string, string[]>(); // "room-day-slot" -> variables
+  sections.forEach((section, k) => {
+    for (const m of candidates[k]) {
+      for (const p of section.periods) {
+        const key = `${m}_${p.day}_${p.slot}`;
+        const list = usage.get(key) || [];
+        list.push(varName(k, m));
+        usage.set(key, list);
+      }
+    }
+  });
+  for (const [key, terms] of usage) {
+    if (terms.length > 1) {
+      constraintLines.push(` room_${key}: ${terms.join(' + ')} <= 1`);
+    }
+  }
+
+  // Soft: rooms per teacher (MINIMIZE_ROOM_CHANGES)
+  if (roomWeight > 0) {
+    const teacherTags = new Map<TeacherId, number>();
+    const teacherRooms = new Set<string>();
+    sections.forEach((section, k) => {
+      if (!section.teacherId) return;
+      if (!teacherTags.has(section.teacherId)) teacherTags.set(section.teacherId, teacherTags.size);
+      const t = teacherTags.get(section.teacherId)!;
+      for (const m of candidates[k]) {
+        const used = `u_${t}_${m}`;
+        constraintLines.push(` uses_${k}_${m}: ${varName(k, m)} - ${used} <= 0`);
+        if (!teacherRooms.has(used)) {
+          teacherRooms.add(used);
+          objectiveTerms.push(`- ${ROOM_CHANGE_PENALTY_SCALE * roomWeight} ${used}`);
+          binaryVars.push(used);
+        }
+      }
+    });
+  }
+
+  const lpModel = [
+    'Maximize',
+    ' obj: ' + (objectiveTerms.length > 0 ? objectiveTerms.join(' ') : '0'),
+    'Subject To',
+    ...constraintLines,
+    'Binary',
+    ' ' + binaryVars.join(' '),
+    'End',
+  ].join('\n');
+
+  const solver = await highs();
+  const solution = solver.solve(lpModel);
+
+  const rooms = new Map<SectionId, RoomId>();
+  if (solution.Status === 'Optimal') {
+    sections.forEach((section, k) => {
+      for (const m of candidates[k]) {
+        const value = solution.Columns[varName(k, m)]?.Primal;
+        if (value && value > 0.5) {
+          rooms.set(section.id, input.rooms[m].id);
+        }
+      }
+    });
+  }
+
+  return {
+    success: solution.Status === 'Optimal',
+    rooms,
+    status: solution.Status,
+  };
+}
+
+/**
+ * Why a section ended up without a room, checking each requirement in turn
+ */
+export function explainMissingRoom(
+  section: Section,
+  sections: Section[],
+  input: ScheduleInput
+): UnassignedRoom {
+  const course = input.courses.find(c => c.id === section.courseId);
+  const requiredFeatures = course?.requiredFeatures || [];
+  const size = Math.max(section.enrolledStudents.length, 1); // Even an empty section needs a seat
+  const reason = (text: string): UnassignedRoom => ({ sectionId: section.id, reason: text });
+
+  const withFeatures = input.rooms.filter(r => requiredFeatures.every(f => r.features.includes(f)));
+  if (withFeatures.length === 0) {
+    return reason(`No room has the required features: ${requiredFeatures.join(', ')}`);
+  }
+
+  const bigEnough = withFeatures.filter(r => r.capacity >= size);
+  if (bigEnough.length === 0) {
+    const largest = Math.max(...withFeatures.map(r => r.capacity));
+    const kind = requiredFeatures.length > 0 ? 'with the required features ' : '';
+    return reason(`No room ${kind}seats ${size} student${size > 1 ? 's' : ''} (largest: ${largest})`);
+  }
+
+  const candidates = getCandidateRooms(section, course, input.rooms);
+  if (candidates.length === 0) {
+    return reason(`Suitable rooms are unavailable during its periods: ${bigEnough.map(r => r.id).join(', ')}`);
+  }
+
+  const occupied = candidates.map(room => {
+    const holders = sections.filter(other =>
+      other.id !== section.id &&
+      other.roomId === room.id &&
+      other.periods.some(p => section.periods.some(q => q.day === p.day && q.slot === p.slot))
+    );
+    return `${room.id} (${holders.map(h => h.id).join(', ') || 'free'})`;
+  });
+  return reason(`Suitable rooms are taken during its periods: ${occupied.join('; ')}`);
+}
@@ -0,0 +1,182 @@
+/**
+ * Section count recommendation
+ *
+ * Works out how many sections to open per course instead of taking
+ * Course.sections as given:
+ *   demand   = eligible students requiring the course
+ *            + eligible elective and course group requests, weighted
+ *              (10 - rank)/10 like the ILP objective (first choice 1.0,
+ *              second 0.9, ...)
+ *   sections = ceil(demand / section size), where section size is
+ *              maxStudents or the largest suitable room if smaller
+ * then capped so each section can reach minStudents (keeping one section
+ * when students require the course), and by what is left of qualified
+ * teachers' maxSections and available periods and of suitable rooms' free
+ * periods. Courses that students require are planned first, then those
+ * with the fewest qualified teachers.
+ */
+
+import type {
+  ScheduleInput,
+  Course,
+  Room,
+  SectionRecommendation,
+  SectionLimit,
+  TeacherId,
+  RoomId,
+} from '../types/index.js';
+import { canEnroll } from './eligibility.js';
+import { getChoiceRank } from './course-choices.js';
+import { withTeacherAvailability } from './availability.js';
+import { countUnneededFeatures } from './room-assignment.js';
+import {
+  getQualifiedTeachers,
+  getSectionPeriodCount,
+  getAvailablePeriodCount,
+} from './teacher-assignment.js';
+
+export function recommendSections(rawInput: ScheduleInput): SectionRecommendation[] {
+  const input = withTeacherAvailability(rawInput);
+  const { config } = input;
+  const periodsPerWeek = config.periodsPerDay * config.daysPerWeek;
+
+  // What each teacher and room has left as sections are handed out
+  const teacherSections = new Map<TeacherId, number>(input.teachers.map(t => [t.id, t.maxSections]));
+  const teacherPeriods = new Map<TeacherId, number>(input.teachers.map(t => [t.id, getAvailablePeriodCount(t, config)]));
+  const roomPeriods = new Map<RoomId, number>(input.rooms.map(r => [r.id, periodsPerWeek - (r.unavailable || []).length]));
+
+  const plans = input.courses.map(course => {
+    const students = input.students.filter(s => canEnroll(s, course));
+    const requiredDemand = students.filter(s => s.requiredCourses.includes(course.id)).length;
+    const electiveDemand = students.reduce((sum, s) => {
+      const rank = getChoiceRank(s, course.id);
+      return rank === -1 || s.requiredCourses.includes(course.id) ? sum : sum + Math.max(0, 10 - rank) / 10;
+    }, 0);
+    const qualified = getQualifiedTeachers(course, input.teachers, config);
+    return { course, requiredDemand, electiveDemand, qualified };
+  });
+
+  const order = [...plans].sort((a, b) =>
+    Number(b.requiredDemand > 0) - Number(a.requiredDemand > 0) ||
+    a.qualified.length - b.qualified.length ||
+    (b.requiredDemand + b.electiveDemand) - (a.requiredDemand + a.electiveDemand)
+  );
+
+  const recommendations = new Map<string, SectionRecommendation>();
+
+  for (const { course, requiredDemand, electiveDemand, qualified } of order) {
+    const demand = requiredDemand + electiveDemand;
+    const rooms = input.rooms.filter(room => (course.requiredFeatures || []).every(f => room.features.includes(f)));
+    const largestRoom = Math.max(0, ...rooms.map(r => r.capacity));
+    const sectionSize = rooms.length > 0 ? Math.min(course.maxStudents, largestRoom) : course.maxStudents;
+    const demandText = `${requiredDemand} required + ${round(electiveDemand)} weighted elective requests`;
+
+    const recommend = (recommended: number, limitedBy: SectionLimit, justification: string) => {
+      recommendations.set(course.id, {
+        courseId: course.id,
+        current: course.sections,
+        recommended,
+        requiredDemand,
+        electiveDemand: round(electiveDemand),
+        sectionSize,
+        limitedBy,
+        justification,
+      });
+    };
+
+    if (demand === 0) {
+      recommend(0, 'demand', 'No eligible students request it');
+      continue;
+    }
+
+    let wanted = Math.ceil(demand / sectionSize);
+    let limitedBy: SectionLimit = 'demand';
+    let justification = `${demandText} at ${sectionSize} per section`;
+
+    if (course.minStudents && demand / wanted < course.minStudents) {
+      const byMinimum = Math.max(Math.floor(demand / course.minStudents), requiredDemand > 0 ? 1 : 0);
+      if (byMinimum < wanted) {
+        wanted = byMinimum;
+        limitedBy = 'min_students';
+        justification = `${demandText}; more sections would fall below minStudents ${course.minStudents}`;
+      }
+    }
+
+    // Hand out sections while a qualified teacher and a suitable room have room for one
+    const periodCount = getSectionPeriodCount(course, config);
+    let opened = 0;
+    let shortOf: SectionLimit | null = null;
+    while (opened < wanted) {
+      const teacher = qualified
+        .filter(t => teacherSections.get(t.id)! > 0 && teacherPeriods.get(t.id)! >= periodCount)
+        .sort((a, b) => teacherSections.get(b.id)! - teacherSections.get(a.id)!)[0];
+      if (!teacher) {
+        shortOf = 'teachers';
+        break;
+      }
+      const room = pickRoom(rooms, course, sectionSize, periodCount, roomPeriods);
+      if (!room) {
+        shortOf = 'rooms';
+        break;
+      }
+
+      teacherSections.set(teacher.id, teacherSections.get(teacher.id)! - 1);
+      teacherPeriods.set(teacher.id, teacherPeriods.get(teacher.id)! - periodCount);
+      roomPeriods.set(room.id, roomPeriods.get(room.id)! - periodCount);
+      opened++;
+    }
+
+    if (shortOf === 'teachers') {
+      recommend(opened, 'teachers', qualified.length === 0
+        ? `${demandText}, but no teacher is qualified and available`
+        : `${demandText} want ${wanted}; qualified teachers (${qualified.map(t => t.id).join(', ')}) have time for ${opened}`);
+    } else if (shortOf === 'rooms') {
+      recommend(opened, 'rooms', rooms.length === 0
+        ? `${demandText}, but no room has ${(course.requiredFeatures || []).join(', ')}`
+        : `${demandText} want ${wanted}; suitable rooms (${rooms.map(r => r.id).join(', ')}) have time for ${opened}`);
+    } else {
+      recommend(opened, limitedBy, justification);
+    }
+  }
+
+  return input.courses.map(course => recommendations.get(course.id)!);
+}
+
+/**
+ * Suitable room with time left for the section, preferring rooms without
+ * features the course doesn't need, then the smallest that seats a full
+ * section
+ */
+function pickRoom(
+  rooms: Room[],
+  course: Course,
+  sectionSize: number,
+  periodCount: number,
+  roomPeriods: Map<RoomId, number>
+): Room | undefined {
+  return rooms
+    .filter(room => roomPeriods.get(room.id)! >= periodCount)
+    .sort((a, b) =>
+      countUnneededFeatures(a, course) - countUnneededFeatures(b, course) ||
+      Number(a.capacity < sectionSize) - Number(b.capacity < sectionSize) ||
+      a.capacity - b.capacity
+    )[0];
+}
+
+/**
+ * The input with each course's sections set to the recommended count
+ */
+export function withRecommendedSections(
+  input: ScheduleInput,
+  recommendations: SectionRecommendation[]
+): ScheduleInput {
+  const counts = new Map(recommendations.map(r => [r.courseId, r.recommended]));
+  return {
+    ...input,
+    courses: input.courses.map(course => ({ ...course, sections: counts.get(course.id) ?? course.sections })),
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
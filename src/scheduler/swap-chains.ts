@@ -0,0 +1,213 @@
+/**
+ * Section balancing by swap chains
+ *
+ * The default balancing pass (optimizeSections) moves one student at a time
+ * from a course's largest section to its smallest, and skips a student whose
+ * move clashes with one of their other sections. This pass searches for a
+ * chain of moves instead:
+ *   - a student whose new section clashes with another of their sections
+ *     moves out of that one too, into another section of its course
+ *   - a student entering a full section swaps places with one of its
+ *     students, who moves on to another section of the course
+ * Each of those moves may need a chain of its own, up to MAX_CHAIN_MOVES
+ * moves and SEARCH_LIMIT tries per chain. A chain is kept only if, for
+ * everyone it moves, it keeps capacities and minStudents, unavailable
+ * periods, lunch, daily limits and (under MINIMIZE_GAPS) the gap count,
+ * and it evens out section sizes (lowers the sum of squared sizes of the
+ * sections it touches).
+ *
+ * Used in place of the default pass where no ILP balances the sections
+ * (greedy assignment and joint timetabling), with localSearch 'swap-chains'.
+ */
+
+import type {
+  ScheduleInput,
+  Section,
+  Course,
+  CourseId,
+  StudentId,
+} from '../types/index.js';
+import { getStudentPeriodKeys } from './eligibility.js';
+import { getDaysWithoutLunch } from './lunch.js';
+import { getGapRule, countGaps } from './gaps.js';
+import type { DailyLimitCheck } from './daily-limits.js';
+
+export type LocalSearchMode = 'moves' | 'swap-chains';
+
+const MAX_CHAIN_MOVES = 4;
+const SEARCH_LIMIT = 500;
+
+interface Move {
+  studentId: StudentId;
+  from: Section;
+  to: Section;
+}
+
+// What a chain may not make worse for a student
+interface StudentState {
+  daysWithoutLunch: number;
+  gaps: number;
+}
+
+const periodKey = (p: { day: number; slot: number }) => `${p.day}-${p.slot}`;
+
+const overlaps = (a: Section, b: Section) =>
+  a.periods.some(p => b.periods.some(q => periodKey(p) === periodKey(q)));
+
+/**
+ * Balance section sizes with swap chains; returns the number of chains applied
+ */
+export function balanceWithSwapChains(
+  sections: Section[],
+  input: ScheduleInput,
+  courseMap: Map<CourseId, Course>,
+  maxIterations: number,
+  lunchSlots: number[] = [],
+  breaksDailyLimits: DailyLimitCheck = () => false
+): number {
+  const { daysPerWeek } = input.config;
+  const gapRule = getGapRule(input);
+  const unavailable = new Map(input.students.map(s => [s.id, getStudentPeriodKeys(s, 'unavailable')]));
+  const minStudents = (section: Section) => courseMap.get(section.courseId)?.minStudents ?? 0;
+
+  // Sections below their course's minStudents are closed (or about to be
+  // cancelled), so no chain fills them back up
+  const sectionsByCourse = new Map<CourseId, Section[]>();
+  for (const section of sections) {
+    if (section.enrolledStudents.length < minStudents(section)) continue;
+    sectionsByCourse.set(section.courseId, [...(sectionsByCourse.get(section.courseId) || []), section]);
+  }
+
+  const ownSections = (studentId: StudentId) =>
+    sections.filter(s => s.enrolledStudents.includes(studentId));
+
+  const stateOf = (studentId: StudentId): StudentState => {
+    const periods = ownSections(studentId).flatMap(s => s.periods);
+    return {
+      daysWithoutLunch: lunchSlots.length > 0
+        ? getDaysWithoutLunch(new Set(periods.map(periodKey)), lunchSlots, daysPerWeek).length
+        : 0,
+      gaps: gapRule
+        ? countGaps(periods, daysPerWeek, gapRule.ignoredSlots).reduce((sum, g) => sum + g, 0)
+        : 0,
+    };
+  };
+
+  // The chain being built, and each moved student's state before it
+  const log: Move[] = [];
+  const before = new Map<StudentId, StudentState>();
+  let tries = 0;
+
+  const apply = (move: Move) => {
+    if (!before.has(move.studentId)) before.set(move.studentId, stateOf(move.studentId));
+    move.from.enrolledStudents = move.from.enrolledStudents.filter(id => id !== move.studentId);
+    move.to.enrolledStudents.push(move.studentId);
+    log.push(move);
+  };
+
+  const undo = (mark: number) => {
+    while (log.length > mark) {
+      const move = log.pop()!;
+      move.to.enrolledStudents = move.to.enrolledStudents.filter(id => id !== move.studentId);
+      move.from.enrolledStudents.push(move.studentId);
+    }
+  };
+
+  // Move the student from `from` to `to`, with whatever further moves that
+  // takes; on failure everything since the call is undone
+  const tryMove = (studentId: StudentId, from: Section, to: Section): boolean => {
+    if (log.length >= MAX_CHAIN_MOVES || ++tries > SEARCH_LIMIT) return false;
+    if (to.periods.some(p => unavailable.get(studentId)?.has(periodKey(p)))) return false;
+
+    const mark = log.length;
+    apply({ studentId, from, to });
+
+    // Free the periods `to` shares with the student's other sections
+    for (const clash of ownSections(studentId).filter(s => s !== to && overlaps(s, to))) {
+      if (!relocate(studentId, clash, [])) {
+        undo(mark);
+        return false;
+      }
+    }
+
+    // Make room in `to`, preferably by sending someone back to `from`
+    if (to.enrolledStudents.length > to.capacity) {
+      const swapped = to.enrolledStudents
+        .filter(id => id !== studentId)
+        .some(other => relocate(other, to, [from]));
+      if (!swapped) {
+        undo(mark);
+        return false;
+      }
+    }
+    return true;
+  };
+
+  // Move the student out of `section` into another section of its course
+  const relocate = (studentId: StudentId, section: Section, preferred: Section[]): boolean => {
+    const alternatives = (sectionsByCourse.get(section.courseId) || [])
+      .filter(s => s !== section && !s.enrolledStudents.includes(studentId))
+      .sort((a, b) =>
+        Number(preferred.includes(b)) - Number(preferred.includes(a)) ||
+        a.enrolledStudents.length - b.enrolledStudents.length
+      );
+    return alternatives.some(alternative => tryMove(studentId, section, alternative));
+  };
+
+  // Whether the chain in the log keeps every rule and evens out sizes
+  const chainHolds = (sizesBefore: Map<Section, number>): boolean => {
+    const touched = new Set(log.flatMap(m => [m.from, m.to]));
+    for (const section of touched) {
+      if (section.enrolledStudents.length > section.capacity) return false;
+      if (section.enrolledStudents.length < minStudents(section)) return false;
+    }
+
+    for (const [studentId, previous] of before) {
+      const own = ownSections(studentId);
+      if (own.some((a, i) => own.slice(i + 1).some(b => overlaps(a, b)))) return false;
+      if (own.some(s => breaksDailyLimits(studentId, s))) return false;
+      const now = stateOf(studentId);
+      if (now.daysWithoutLunch > previous.daysWithoutLunch || now.gaps > previous.gaps) return false;
+    }
+
+    let squaresBefore = 0;
+    let squaresAfter = 0;
+    for (const section of touched) {
+      squaresBefore += sizesBefore.get(section)! ** 2;
+      squaresAfter += section.enrolledStudents.length ** 2;
+    }
+    return squaresAfter < squaresBefore;
+  };
+
+  let chains = 0;
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let improved = false;
+
+    for (const [, courseSections] of sectionsByCourse) {
+      if (courseSections.length < 2) continue;
+
+      const sorted = [...courseSections].sort((a, b) => a.enrolledStudents.length - b.enrolledStudents.length);
+      const smallest = sorted[0];
+      const largest = sorted[sorted.length - 1];
+      if (largest.enrolledStudents.length - smallest.enrolledStudents.length <= 1) continue;
+
+      const sizesBefore = new Map(sections.map(s => [s, s.enrolledStudents.length]));
+
+      for (const studentId of [...largest.enrolledStudents]) {
+        tries = 0;
+        before.clear();
+        if (tryMove(studentId, largest, smallest) && chainHolds(sizesBefore)) {
+          log.length = 0;
+          chains++;
+          improved = true;
+          break;
+        }
+        undo(0);
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return chains;
+}
@@ -0,0 +1,212 @@
+/**
+ * Teacher-to-section assignment as an ILP, solved before time slots
+ *
+ * Variables:
+ *   z[k][t] = 1 if teacher t teaches section k (only for teachers qualified
+ *             for the course who have time for at least one of its meetings)
+ *   s[t][j] = 1 if teacher t teaches at least j sections (BALANCED_TEACHER_LOAD)
+ *
+ * Hard Constraints:
+ *   1. At most one teacher per section
+ *   2. Each teacher teaches at most maxSections sections
+ *   3. A teacher's sections fit in the periods they are available, in total
+ *      and on each day (counting the fewest periods each section can meet
+ *      that day)
+ *   4. At most one of a teacher's sections in each period that every
+ *      meeting pattern the teacher is free for uses (fixed-pattern clashes,
+ *      which timetabling could not resolve)
+ *
+ * Objective:
+ *   Maximize: 1000 per staffed section
+ *             - 10*weight * j/maxSections for a teacher's j-th section
+ *               (rising cost per section, so load is spread in proportion
+ *               to each teacher's maxSections)
+ */
+
+import highs from 'highs';
+import type {
+  ScheduleInput,
+  ScheduleConfig,
+  Section,
+  Course,
+  Teacher,
+  Period,
+  SectionId,
+  TeacherId,
+} from '../types/index.js';
+import { getBlockLength, getCandidateMeetings } from './meeting-patterns.js';
+
+const STAFFED_SECTION_WEIGHT = 1000;
+const LOAD_BALANCE_SCALE = 10;
+
+export interface TeacherAssignmentResult {
+  success: boolean;
+  teachers: Map<SectionId, TeacherId>;
+  status: string;
+}
+
+/**
+ * Teachers who can teach the course: qualified for it, and available for at
+ * least one of the ways a section of it can meet
+ */
+export function getQualifiedTeachers(course: Course | undefined, teachers: Teacher[], config: ScheduleConfig): Teacher[] {
+  if (!course) return [];
+  return teachers.filter(teacher =>
+    teacher.subjects.includes(course.id) && getAvailableMeetings(course, teacher, config).length > 0
+  );
+}
+
+/**
+ * The ways a section of the course can meet while the teacher is available
+ */
+export function getAvailableMeetings(course: Course | undefined, teacher: Teacher, config: ScheduleConfig): Period[][] {
+  const unavailable = teacher.unavailable || [];
+  return getCandidateMeetings(course, config).filter(periods =>
+    !periods.some(p => unavailable.some(u => u.day === p.day && u.slot === p.slot))
+  );
+}
+
+/**
+ * Periods per week a section of the course occupies
+ */
+export function getSectionPeriodCount(course: Course | undefined, config: ScheduleConfig): number {
+  return course?.periodsPerWeek ?? config.daysPerWeek * getBlockLength(course, config);
+}
+
+/**
+ * Periods per week the teacher is available to teach
+ */
+export function getAvailablePeriodCount(teacher: Teacher, config: ScheduleConfig): number {
+  return config.periodsPerDay * config.daysPerWeek - (teacher.unavailable || []).length;
+}
+
+export async function solveTeacherAssignment(
+  sections: Section[],
+  input: ScheduleInput
+): Promise<TeacherAssignmentResult> {
+  const courseMap = new Map(input.courses.map(c => [c.id, c]));
+  const loadWeight = input.preferences.find(p => p.type === 'balanced_teacher_load')?.weight ?? 0;
+
+  const varName = (k: number, t: number) => `z_${k}_${t}`;
+  const teacherIndex = new Map(input.teachers.map((teacher, t) => [teacher.id, t]));
+
+  const objectiveTerms: string[] = [];
+  const constraintLines: string[] = [];
+  const binaryVars: string[] = [];
+
+  const qualifiedByCourse = new Map(input.courses.map(course => [
+    course.id,
+    getQualifiedTeachers(course, input.teachers, input.config).map(teacher => teacherIndex.get(teacher.id)!),
+  ]));
+  const candidates = sections.map(section => qualifiedByCourse.get(section.courseId) || []);
+
+  if (candidates.every(list => list.length === 0)) {
+    return { success: true, teachers: new Map(), status: 'Empty' };
+  }
+
+  // Objective: staffed sections
+  sections.forEach((_, k) => {
+    for (const t of candidates[k]) {
+      objectiveTerms.push(`+ ${STAFFED_SECTION_WEIGHT} ${varName(k, t)}`);
+      binaryVars.push(varName(k, t));
+    }
+  });
+
+  // Constraint 1: At most one teacher per section
+  sections.forEach((_, k) => {
+    if (candidates[k].length > 1) {
+      constraintLines.push(` one_${k}: ${candidates[k].map(t => varName(k, t)).join(' + ')} <= 1`);
+    }
+  });
+
+  // Sections each teacher could take
+  const teacherSections = new Map<number, number[]>();
+  sections.forEach((_, k) => {
+    for (const t of candidates[k]) {
+      const list = teacherSections.get(t) || [];
+      list.push(k);
+      teacherSections.set(t, list);
+    }
+  });
+
+  for (const [t, ks] of teacherSections) {
+    const teacher = input.teachers[t];
+    const terms = ks.map(k => varName(k, t));
+
+    // Constraint 2: maxSections
+    if (ks.length > teacher.maxSections) {
+      constraintLines.push(` max_${t}: ${terms.join(' + ')} <= ${teacher.maxSections}`);
+    }
+
+    // Constraint 3: Teaching periods fit the teacher's availability
+    if ((teacher.unavailable || []).length > 0) {
+      const periodTerms = ks.map(k =>
+        `+ ${getSectionPeriodCount(courseMap.get(sections[k].courseId), input.config)} ${varName(k, t)}`
+      );
+      constraintLines.push(` avail_${t}: ${periodTerms.join(' ')} <= ${getAvailablePeriodCount(teacher, input.config)}`);
+    }
+
+    // Constraints 3-4 per day and period, from the meetings each section
+    // could have with this teacher
+    const meetings = new Map(ks.map(k => [k, getAvailableMeetings(courseMap.get(sections[k].courseId), teacher, input.config)]));
+    for (let day = 0; day < input.config.daysPerWeek; day++) {
+      const free = input.config.periodsPerDay - (teacher.unavailable || []).filter(p => p.day === day).length;
+      const needs = ks
+        .map(k => ({ k, need: Math.min(...meetings.get(k)!.map(periods => periods.filter(p => p.day === day).length)) }))
+        .filter(({ need }) => need > 0);
+      if (needs.reduce((sum, { need }) => sum + need, 0) > free) {
+        const dayTerms = needs.map(({ k, need }) => `+ ${need} ${varName(k, t)}`);
+        constraintLines.push(` day_${t}_${day}: ${dayTerms.join(' ')} <= ${free}`);
+      }
+
+      for (let slot = 0; slot < input.config.periodsPerDay; slot++) {
+        const pinned = ks.filter(k => meetings.get(k)!.every(periods => periods.some(p => p.day === day && p.slot === slot)));
+        if (pinned.length > 1) {
+          constraintLines.push(` clash_${t}_${day}_${slot}: ${pinned.map(k => varName(k, t)).join(' + ')} <= 1`);
+        }
+      }
+    }
+
+    // Soft: balanced load (BALANCED_TEACHER_LOAD)
+    if (loadWeight > 0 && teacher.maxSections > 0) {
+      const steps = Math.min(ks.length, teacher.maxSections);
+      const stepVars = [...Array(steps).keys()].map(j => `s_${t}_${j + 1}`);
+      stepVars.forEach((step, j) => {
+        objectiveTerms.push(`- ${LOAD_BALANCE_SCALE * loadWeight * (j + 1) / teacher.maxSections} ${step}`);
+        binaryVars.push(step);
+      });
+      constraintLines.push(` load_${t}: ${terms.join(' + ')} - ${stepVars.join(' - ')} = 0`);
+    }
+  }
+
+  const lpModel = [
+    'Maximize',
+    ' obj: ' + (objectiveTerms.length > 0 ? objectiveTerms.join(' ') : '0'),
+    'Subject To',
+    ...constraintLines,
+    'Binary',
+    ' ' + binaryVars.join(' '),
+    'End',
+  ].join('\n');
+
+  const solver = await highs();
+  const solution = solver.solve(lpModel);
+
+  const teachers = new Map<SectionId, TeacherId>();
+  if (solution.Status === 'Optimal') {
+    sections.forEach((section, k) => {
+      for (const t of candidates[k]) {
+        const value = solution.Columns[varName(k, t)]?.Primal;
+        if (value && value > 0.5) {
+          teachers.set(section.id, input.teachers[t].id);
+        }
+      }
+    });
+  }
+
+  return {
+    success: solution.Status === 'Optimal',
+    teachers,
+    status: solution.Status,
+  };
+}
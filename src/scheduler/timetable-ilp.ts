@@ -0,0 +1,473 @@
+/**
+ * Timetabling ILP: chooses the periods each section meets in
+ *
+ * Variables:
+ *   y[j] = 1 if section option j is used, where each option is one section
+ *          paired with one candidate meeting time (start slot x day pattern)
+ *
+ * Hard Constraints:
+ *   1. Every section meets at exactly one of its candidate times
+ *   2. No teacher conflicts (teacher in at most one section per period)
+ *   3. Rooms: at each period, the sections that can only use rooms from a
+ *      set R never outnumber the rooms in R that are available then
+ *
+ * Options that meet while the section's teacher is unavailable are dropped.
+ * When no timetable satisfies all of these, explainTimetableConflicts names
+ * a minimal set of them that can't hold together (see infeasibility.ts).
+ *
+ * Two ways to use it:
+ *   - Joint: solveScheduleILP(..., { timetable: true }) adds this model to
+ *     the student assignment ILP, so periods and enrollments are optimized
+ *     together. Students are assigned to meeting groups (a course at one
+ *     candidate time) rather than to sections, since sections of a course at
+ *     the same time are interchangeable to them; each group's students are
+ *     split across its running sections afterwards.
+ *   - Decomposed (solveTimetableILP): periods are chosen first, minimizing
+ *     overlaps between courses requested by the same students (which covers
+ *     same-grade conflicts), then students are assigned as usual.
+ *     Suited to large schools where the joint model gets too big.
+ */
+
+import highs from 'highs';
+import type {
+  ScheduleInput,
+  Section,
+  Period,
+  CourseId,
+  SectionId,
+  StudentId,
+  TeacherId,
+  RoomId,
+  ConstraintViolation,
+  ProgressCallback,
+} from '../types/index.js';
+import { canEnroll, getRequestedCourses } from './eligibility.js';
+import { getCandidateMeetings, teacherPreferenceBias } from './meeting-patterns.js';
+import { describePeriods } from './diagnosis.js';
+import { findInfeasibleSubset, constraintIdFor, describeModelRow } from './infeasibility.js';
+
+export type TimetablingMode = 'heuristic' | 'joint' | 'decomposed';
+
+// Decomposed objective: penalty per period two courses overlap, per student
+// requesting both; and per period two sections of one course overlap
+const SHARED_STUDENT_PENALTY = 10;
+const SAME_COURSE_PENALTY = 100;
+
+export interface SectionOption {
+  sectionIndex: number;
+  periods: Period[];
+}
+
+/** A course at one candidate meeting time, with the section options behind it */
+export interface MeetingGroup {
+  courseId: CourseId;
+  periods: Period[];
+  options: number[];
+}
+
+export interface TimetableModel {
+  options: SectionOption[];
+  groups: MeetingGroup[];
+  objectiveTerms: string[];
+  constraintLines: string[];
+  binaryVars: string[];
+  /** Rooms behind each room supply row room_<g>_<day>_<slot> */
+  roomSets: RoomId[][];
+}
+
+export interface TimetableResult {
+  success: boolean;
+  sectionPeriods: Map<SectionId, Period[]>;
+  objectiveValue: number;
+  solveTimeMs: number;
+  status: string;
+  /** Constraints that can't hold together, when the model is infeasible */
+  conflicts?: ConstraintViolation[];
+}
+
+export const optionVar = (j: number) => `y_${j}`;
+
+/**
+ * Build the section-level part of the timetabling model (constraints 1-3 and
+ * the teacher preference terms), shared by the joint and decomposed modes.
+ */
+export function buildTimetableModel(sections: Section[], input: ScheduleInput): TimetableModel {
+  const { config } = input;
+  const courseMap = new Map(input.courses.map(c => [c.id, c]));
+  const teacherMap = new Map(input.teachers.map(t => [t.id, t]));
+  const teacherPreferenceWeight = input.preferences
+    .find(p => p.type === 'teacher_period_preference')?.weight ?? 0;
+
+  const options: SectionOption[] = [];
+  const objectiveTerms: string[] = [];
+  const constraintLines: string[] = [];
+  const binaryVars: string[] = [];
+
+  const optionsBySection: number[][] = sections.map(() => []);
+
+  sections.forEach((section, k) => {
+    const teacher = section.teacherId ? teacherMap.get(section.teacherId) : undefined;
+    const unavailable = new Set((teacher?.unavailable || []).map(p => `${p.day}-${p.slot}`));
+    const meetings = getCandidateMeetings(courseMap.get(section.courseId), config);
+
+    // A teacher with no available option keeps every option, as in the heuristic
+    const available = meetings.filter(periods =>
+      !periods.some(p => unavailable.has(`${p.day}-${p.slot}`))
+    );
+
+    for (const periods of available.length > 0 ? available : meetings) {
+      const j = options.length;
+      options.push({ sectionIndex: k, periods });
+      optionsBySection[k].push(j);
+      binaryVars.push(optionVar(j));
+
+      const bias = teacherPreferenceBias(teacher?.preferences || [], periods, teacherPreferenceWeight);
+      if (bias < 0) {
+        objectiveTerms.push(`+ ${-bias} ${optionVar(j)}`);
+      } else if (bias > 0) {
+        objectiveTerms.push(`- ${bias} ${optionVar(j)}`);
+      }
+    }
+  });
+
+  // Options of the same course and meeting time form a group
+  const groupsByKey = new Map<string, MeetingGroup>();
+  options.forEach((option, j) => {
+    const courseId = sections[option.sectionIndex].courseId;
+    const key = `${courseId}|${option.periods.map(p => `${p.day}-${p.slot}`).join(',')}`;
+    const group = groupsByKey.get(key) || { courseId, periods: option.periods, options: [] };
+    group.options.push(j);
+    groupsByKey.set(key, group);
+  });
+
+  // Options covering each period
+  const optionsByPeriod = new Map<string, number[]>();
+  options.forEach((option, j) => {
+    for (const p of option.periods) {
+      const key = `${p.day}-${p.slot}`;
+      const list = optionsByPeriod.get(key) || [];
+      list.push(j);
+      optionsByPeriod.set(key, list);
+    }
+  });
+
+  // Constraint 1: Exactly one meeting time per section
+  optionsBySection.forEach((indices, k) => {
+    constraintLines.push(` meet_${k}: ${indices.map(optionVar).join(' + ')} = 1`);
+  });
+
+  // Constraint 2: No teacher conflicts
+  for (const [key, indices] of optionsByPeriod) {
+    const byTeacher = new Map<TeacherId, number[]>();
+    for (const j of indices) {
+      const teacherId = sections[options[j].sectionIndex].teacherId;
+      if (!teacherId) continue;
+      const list = byTeacher.get(teacherId) || [];
+      list.push(j);
+      byTeacher.set(teacherId, list);
+    }
+    for (const [teacherId, list] of byTeacher) {
+      if (list.length < 2) continue;
+      const teacherTag = teacherId.replace(/[^a-zA-Z0-9]/g, '_');
+      constraintLines.push(` teach_${teacherTag}_${key.replace('-', '_')}: ${list.map(optionVar).join(' + ')} <= 1`);
+    }
+  }
+
+  // Constraint 3: Room supply. Sections are grouped by the set of rooms that
+  // fit them (capacity and features, as in room assignment); sections with
+  // no suitable room at all are left for room assignment to report.
+  const suitableRooms = sections.map(section => {
+    const requiredFeatures = courseMap.get(section.courseId)?.requiredFeatures || [];
+    return input.rooms.filter(r =>
+      r.capacity >= section.capacity && requiredFeatures.every(f => r.features.includes(f))
+    );
+  });
+  const roomSets = new Map<string, Set<string>>();
+  for (const rooms of suitableRooms) {
+    if (rooms.length > 0) {
+      roomSets.set(rooms.map(r => r.id).sort().join(','), new Set(rooms.map(r => r.id)));
+    }
+  }
+
+  [...roomSets.values()].forEach((roomSet, g) => {
+    for (const [key, indices] of optionsByPeriod) {
+      const terms = indices.filter(j => {
+        const rooms = suitableRooms[options[j].sectionIndex];
+        return rooms.length > 0 && rooms.every(r => roomSet.has(r.id));
+      });
+      const available = input.rooms.filter(r =>
+        roomSet.has(r.id) && !(r.unavailable || []).some(p => `${p.day}-${p.slot}` === key)
+      ).length;
+      if (terms.length > available) {
+        constraintLines.push(` room_${g}_${key.replace('-', '_')}: ${terms.map(optionVar).join(' + ')} <= ${available}`);
+      }
+    }
+  });
+
+  return {
+    options,
+    groups: [...groupsByKey.values()],
+    objectiveTerms,
+    constraintLines,
+    binaryVars,
+    roomSets: [...roomSets.values()].map(roomSet => [...roomSet]),
+  };
+}
+
+/**
+ * A minimal set of the model's hard constraints (constraints 1-3) that no
+ * timetable satisfies together, in domain terms
+ */
+export async function explainTimetableConflicts(
+  sections: Section[],
+  input: ScheduleInput,
+  model: TimetableModel
+): Promise<ConstraintViolation[]> {
+  const courseMap = new Map(input.courses.map(c => [c.id, c]));
+  const teacherMap = new Map(input.teachers.map(t => [t.id, t]));
+  const rows = await findInfeasibleSubset(model.constraintLines, model.binaryVars);
+
+  // Sections behind a row's option variables y_<j>
+  const rowSections = (variables: string[]) => [...new Set(variables.map(v =>
+    sections[model.options[Number(v.slice(2))].sectionIndex]
+  ))];
+  const rowPeriod = (name: string): Period => {
+    const [day, slot] = name.split('_').slice(-2).map(Number);
+    return { day, slot };
+  };
+
+  return rows.map(row => {
+    const kind = row.name.split('_')[0];
+
+    if (kind === 'meet') {
+      const section = sections[Number(row.name.slice('meet_'.length))];
+      const teacher = section.teacherId ? teacherMap.get(section.teacherId) : undefined;
+      const meetings = getCandidateMeetings(courseMap.get(section.courseId), input.config).length;
+      const restricted = row.variables.length < meetings;
+      return {
+        constraintId: restricted ? constraintIdFor(input, 'teacher_availability') : 'section_meets',
+        constraintType: restricted ? 'teacher_availability' : 'custom',
+        description: `${section.id} must meet at one of its ${row.variables.length} candidate times` +
+          (restricted ? ` (${teacher!.id} is unavailable for the other ${meetings - row.variables.length})` : ''),
+        severity: 'error',
+        entities: { sections: [section.id], ...(teacher ? { teachers: [teacher.id] } : {}) },
+      };
+    }
+
+    if (kind === 'teach') {
+      const involved = rowSections(row.variables);
+      const teacherId = involved[0].teacherId!;
+      const period = rowPeriod(row.name);
+      return {
+        constraintId: constraintIdFor(input, 'no_teacher_conflict'),
+        constraintType: 'no_teacher_conflict',
+        description: `${teacherId} can teach only one of ${involved.map(s => s.id).join(', ')} ` +
+          `at ${describePeriods([period], input.config)}`,
+        severity: 'error',
+        entities: { teachers: [teacherId], sections: involved.map(s => s.id), periods: [period] },
+      };
+    }
+
+    if (kind === 'room') {
+      const involved = rowSections(row.variables);
+      const rooms = model.roomSets[Number(row.name.split('_')[1])];
+      const period = rowPeriod(row.name);
+      return {
+        constraintId: constraintIdFor(input, 'no_room_conflict'),
+        constraintType: 'no_room_conflict',
+        description: `${involved.map(s => s.id).join(', ')} can only use ${rooms.join(', ')}, ` +
+          `of which ${row.rhs} ${row.rhs === 1 ? 'is' : 'are'} free at ${describePeriods([period], input.config)}`,
+        severity: 'error',
+        entities: { rooms, sections: involved.map(s => s.id), periods: [period] },
+      };
+    }
+
+    return describeModelRow(row);
+  });
+}
+
+/**
+ * Periods of the options chosen in a solved model, per section
+ */
+export function extractSectionPeriods(
+  sections: Section[],
+  model: TimetableModel,
+  primal: (name: string) => number | undefined
+): Map<SectionId, Period[]> {
+  const sectionPeriods = new Map<SectionId, Period[]>();
+  model.options.forEach((option, j) => {
+    const value = primal(optionVar(j));
+    if (value && value > 0.5) {
+      sectionPeriods.set(sections[option.sectionIndex].id, option.periods);
+    }
+  });
+  return sectionPeriods;
+}
+
+/**
+ * Split the students of each meeting group across the group's running
+ * sections, filling them in order up to capacity
+ */
+export function splitGroupEnrollments(
+  sections: Section[],
+  model: TimetableModel,
+  groupStudents: StudentId[][],
+  primal: (name: string) => number | undefined
+): Map<StudentId, SectionId[]> {
+  const assignments = new Map<StudentId, SectionId[]>();
+  model.groups.forEach((group, g) => {
+    const running = group.options
+      .filter(j => (primal(optionVar(j)) ?? 0) > 0.5)
+      .map(j => sections[model.options[j].sectionIndex]);
+
+    if (running.length === 0) return;
+
+    let index = 0;
+    let filled = 0;
+    for (const studentId of groupStudents[g]) {
+      while (index < running.length - 1 && filled >= running[index].capacity) {
+        index++;
+        filled = 0;
+      }
+      const list = assignments.get(studentId) || [];
+      list.push(running[index].id);
+      assignments.set(studentId, list);
+      filled++;
+    }
+  });
+  return assignments;
+}
+
+/**
+ * Decomposed timetabling: choose section periods before any student is
+ * assigned, keeping apart courses that share students.
+ */
+export async function solveTimetableILP(
+  sections: Section[],
+  input: ScheduleInput,
+  timeLimitSeconds: number,
+  onProgress?: ProgressCallback
+): Promise<TimetableResult> {
+  const startTime = Date.now();
+
+  onProgress?.({
+    phase: 'initializing',
+    percentComplete: 5,
+    currentOperation: 'Building timetabling model...',
+  });
+
+  const model = buildTimetableModel(sections, input);
+  const objectiveTerms = [...model.objectiveTerms];
+  const constraintLines = [...model.constraintLines];
+
+  // Students requesting each pair of courses
+  const courseMap = new Map(input.courses.map(c => [c.id, c]));
+  const sharedStudents = new Map<string, number>();
+  for (const student of input.students) {
+    const requested = [...getRequestedCourses(student, courseMap)]
+      .filter(id => canEnroll(student, courseMap.get(id)))
+      .sort();
+    for (let a = 0; a < requested.length; a++) {
+      for (let b = a + 1; b < requested.length; b++) {
+        const pair = `${requested[a]}|${requested[b]}`;
+        sharedStudents.set(pair, (sharedStudents.get(pair) || 0) + 1);
+      }
+    }
+  }
+
+  // Options of each course covering each period
+  const courseOptions = new Map<CourseId, Map<string, number[]>>();
+  const sectionCount = new Map<CourseId, number>();
+  for (const section of sections) {
+    sectionCount.set(section.courseId, (sectionCount.get(section.courseId) || 0) + 1);
+  }
+  model.options.forEach((option, j) => {
+    const courseId = sections[option.sectionIndex].courseId;
+    const byPeriod = courseOptions.get(courseId) || new Map<string, number[]>();
+    for (const p of option.periods) {
+      const key = `${p.day}-${p.slot}`;
+      const list = byPeriod.get(key) || [];
+      list.push(j);
+      byPeriod.set(key, list);
+    }
+    courseOptions.set(courseId, byPeriod);
+  });
+
+  const courseIds = [...courseOptions.keys()];
+  const courseTag = (id: CourseId) => courseIds.indexOf(id);
+
+  // Overlap slacks z are continuous (default lower bound 0).
+  // Same-course overlap: z >= (sections of the course at the period) - 1
+  for (const [courseId, byPeriod] of courseOptions) {
+    for (const [key, indices] of byPeriod) {
+      if (indices.length < 2 || (sectionCount.get(courseId) || 0) < 2) continue;
+      const slack = `same_${courseTag(courseId)}_${key.replace('-', '_')}`;
+      constraintLines.push(` ${slack}_c: ${indices.map(optionVar).join(' + ')} - ${slack} <= 1`);
+      objectiveTerms.push(`- ${SAME_COURSE_PENALTY} ${slack}`);
+    }
+  }
+
+  // Shared-student overlap: z >= (sections of A) + (sections of B) - 1 at the
+  // period, weighted by the students requesting both. With several sections
+  // students can often move to another one, so the weight is spread over the
+  // section pairs.
+  for (const [pair, count] of sharedStudents) {
+    const [a, b] = pair.split('|');
+    const optionsA = courseOptions.get(a);
+    const optionsB = courseOptions.get(b);
+    if (!optionsA || !optionsB) continue;
+
+    const weight = SHARED_STUDENT_PENALTY * count / ((sectionCount.get(a) || 1) * (sectionCount.get(b) || 1));
+    for (const [key, indicesA] of optionsA) {
+      const indicesB = optionsB.get(key);
+      if (!indicesB) continue;
+      const slack = `share_${courseTag(a)}_${courseTag(b)}_${key.replace('-', '_')}`;
+      constraintLines.push(` ${slack}_c: ${[...indicesA, ...indicesB].map(optionVar).join(' + ')} - ${slack} <= 1`);
+      objectiveTerms.push(`- ${weight} ${slack}`);
+    }
+  }
+
+  const lpModel = [
+    'Maximize',
+    ' obj: ' + (objectiveTerms.length > 0 ? objectiveTerms.join(' ') : '0'),
+    'Subject To',
+    ...constraintLines,
+    'Binary',
+    ' ' + model.binaryVars.join(' '),
+    'End',
+  ].join('\n');
+
+  onProgress?.({
+    phase: 'optimizing',
+    percentComplete: 50,
+    currentOperation: `Solving timetable: ${sections.length} sections, ${model.options.length} options`,
+  });
+
+  const solver = await highs();
+  const solution = solver.solve(lpModel, { time_limit: timeLimitSeconds });
+
+  // On hitting the time limit the best schedule found so far is used, if any
+  const sectionPeriods = solution.Status === 'Optimal' || solution.Status === 'Time limit reached'
+    ? extractSectionPeriods(sections, model, name => solution.Columns[name]?.Primal)
+    : new Map<SectionId, Period[]>();
+  const success = sectionPeriods.size === sections.length;
+
+  const conflicts = solution.Status === 'Infeasible'
+    ? await explainTimetableConflicts(sections, input, model)
+    : undefined;
+
+  onProgress?.({
+    phase: 'complete',
+    percentComplete: 100,
+    currentOperation: 'Timetabling complete',
+  });
+
+  return {
+    success,
+    sectionPeriods,
+    objectiveValue: solution.ObjectiveValue || 0,
+    solveTimeMs: Date.now() - startTime,
+    status: solution.Status,
+    conflicts,
+  };
+}
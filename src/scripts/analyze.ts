@@ -0,0 +1,100 @@
+#!/usr/bin/env tsx
+/**
+ * Feasibility Analysis CLI
+ *
+ * Check input data for problems that will leave students or sections
+ * unscheduled, without running the scheduler.
+ *
+ * Usage:
+ *   npm run analyze -- --data ./data/demo
+ *   npm run analyze -- --data ./local-data --json
+ *   npm run analyze -- --data ./local-data --recommend-sections ./local-data/courses.recommended.json
+ */
+
+import { Command } from 'commander';
+import { resolve } from 'path';
+import { writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import chalk from 'chalk';
+
+import { loadScheduleInput } from '../parser/data-loader.js';
+import { analyzeFeasibility } from '../analyzer/index.js';
+import { recommendSections, withRecommendedSections } from '../scheduler/section-planning.js';
+import { formatSectionRecommendations } from '../reporter/index.js';
+
+const program = new Command();
+
+program
+  .name('analyze')
+  .description('Check input data for scheduling problems before solving')
+  .requiredOption('-d, --data <dir>', 'Directory containing input data files')
+  .option('--verbose', 'Show demand and seats for every course')
+  .option('--recommend-sections <file>', 'Write courses.json with recommended section counts')
+  .option('--json', 'Output results as JSON')
+  .parse(process.argv);
+
+const opts = program.opts();
+
+async function main() {
+  const dataDir = resolve(opts.data);
+
+  if (!existsSync(dataDir)) {
+    console.error(chalk.red(`Error: Data directory not found: ${dataDir}`));
+    process.exit(1);
+  }
+
+  const input = await loadScheduleInput({
+    students: resolve(dataDir, 'students.json'),
+    teachers: resolve(dataDir, 'teachers.json'),
+    rooms: resolve(dataDir, 'rooms.json'),
+    courses: resolve(dataDir, 'courses.json'),
+    constraints: resolve(dataDir, 'constraints.txt'),
+  });
+
+  const analysis = analyzeFeasibility(input);
+  const recommendations = opts.recommendSections ? recommendSections(input) : undefined;
+
+  if (recommendations) {
+    const courses = withRecommendedSections(input, recommendations).courses;
+    await writeFile(resolve(opts.recommendSections), JSON.stringify({ courses }, null, 2) + '\n');
+  }
+
+  if (opts.json) {
+    console.log(JSON.stringify({ ...analysis, ...(recommendations ? { recommendations } : {}) }, null, 2));
+  } else {
+    console.log(chalk.bold('\nFeasibility Analysis'));
+    console.log('═'.repeat(50));
+
+    if (opts.verbose) {
+      console.log(chalk.bold('\nCourse demand (students requiring / seats):'));
+      for (const { courseId, demand, capacity } of analysis.demand) {
+        const color = demand > capacity ? chalk.red : demand > capacity * 0.9 ? chalk.yellow : chalk.green;
+        console.log(color(`  ${courseId.padEnd(20)} ${String(demand).padStart(4)} / ${capacity}`));
+      }
+      console.log('');
+    }
+
+    if (analysis.feasible) {
+      console.log(chalk.green.bold('No problems found'));
+    } else {
+      for (const issue of analysis.issues) {
+        console.log(chalk.red(`  • [${issue.type}] ${issue.description}`));
+      }
+      console.log(`\nProblems: ${analysis.issues.length}`);
+    }
+
+    if (recommendations) {
+      console.log(chalk.bold('\nRecommended section counts:'));
+      console.log(formatSectionRecommendations(recommendations));
+      console.log(chalk.green(`\nSaved to: ${resolve(opts.recommendSections)}`));
+    }
+    console.log('');
+  }
+
+  process.exit(analysis.feasible ? 0 : 1);
+}
+
+main().catch((err) => {
+  console.error(chalk.red('Error:'), err.message);
+  process.exit(1);
+});
@@ -6,11 +6,25 @@
  *
  * Usage:
  *   npm run convert -- --input ./raw-data.csv --output ./local-data --type students
+ *   npm run convert -- --input ./sis.xlsx --format xlsx --output ./local-data --type teachers --mapping ./teachers-mapping.json
  */
 
 import { Command } from 'commander';
+import { resolve } from 'path';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
 import chalk from 'chalk';
 
+import {
+  readTable,
+  convertTable,
+  CONVERT_TYPES,
+  INPUT_FORMATS,
+  type ColumnMapping,
+  type ConvertType,
+  type InputFormat,
+} from '../converter/index.js';
+
 const program = new Command();
 
 program
@@ -20,17 +34,66 @@ program
   .requiredOption('-o, --output <dir>', 'Output directory')
   .requiredOption('-t, --type <type>', 'Data type: students, teachers, courses, rooms')
   .option('--format <fmt>', 'Input format: csv, xlsx, json', 'csv')
+  .option('-m, --mapping <file>', 'JSON column mapping (columns, separators, listSeparator)')
+  .option('--sheet <name>', 'XLSX sheet to read (default: first sheet)')
+  .option('--verbose', 'List every coerced value')
   .parse(process.argv);
 
+const opts = program.opts();
+
 async function main() {
-  // This is a placeholder for future conversion utilities
-  // Real implementations would parse CSV/Excel files and convert to our JSON format
-
-  throw new Error(
-    'Not implemented: Data conversion utilities are planned for future development.\n' +
-    'Currently supported input format is direct JSON.\n' +
-    'See data/demo/ for example JSON structure.'
-  );
+  const inputPath = resolve(opts.input);
+  const outputDir = resolve(opts.output);
+  const type = opts.type as ConvertType;
+  const format = opts.format as InputFormat;
+
+  if (!CONVERT_TYPES.includes(type)) {
+    throw new Error(`Invalid --type "${opts.type}" (expected: ${CONVERT_TYPES.join(', ')})`);
+  }
+  if (!INPUT_FORMATS.includes(format)) {
+    throw new Error(`Invalid --format "${opts.format}" (expected: ${INPUT_FORMATS.join(', ')})`);
+  }
+  if (!existsSync(inputPath)) {
+    throw new Error(`Input file not found: ${inputPath}`);
+  }
+
+  const mapping: ColumnMapping = opts.mapping
+    ? JSON.parse(await readFile(resolve(opts.mapping), 'utf-8'))
+    : {};
+
+  const table = await readTable(inputPath, format, opts.sheet);
+  const result = convertTable(table, type, mapping);
+
+  await mkdir(outputDir, { recursive: true });
+  const outputPath = resolve(outputDir, `${type}.json`);
+  await writeFile(outputPath, JSON.stringify({ [type]: result.records }, null, 2) + '\n');
+
+  // Summary
+  console.log(chalk.bold(`\nConverted ${type} from ${opts.input}`));
+  console.log('═'.repeat(50));
+  console.log(`Columns: ${Object.entries(result.columns).map(([field, column]) =>
+    field === column ? field : `${field} ← "${column}"`).join(', ')}`);
+  console.log(chalk.green(`Converted: ${result.records.length} rows`));
+
+  if (result.skipped.length > 0) {
+    console.log(chalk.red(`Skipped: ${result.skipped.length} rows`));
+    for (const { row, reason } of result.skipped) {
+      console.log(chalk.red(`  • row ${row}: ${reason}`));
+    }
+  }
+
+  if (result.coerced.length > 0) {
+    console.log(chalk.yellow(`Coerced: ${result.coerced.length} values`));
+    const shown = opts.verbose ? result.coerced : result.coerced.slice(0, 10);
+    for (const { row, field, from, to } of shown) {
+      console.log(chalk.yellow(`  • row ${row}: ${field} "${from}" → ${to}`));
+    }
+    if (shown.length < result.coerced.length) {
+      console.log(chalk.yellow(`  ... and ${result.coerced.length - shown.length} more (--verbose to list all)`));
+    }
+  }
+
+  console.log(chalk.green(`\nSaved to: ${outputPath}\n`));
 }
 
 main().catch((err) => {
@@ -0,0 +1,142 @@
+#!/usr/bin/env tsx
+/**
+ * OneRoster CLI
+ *
+ * Import a OneRoster 1.1 CSV bundle as scheduling data, or export a schedule
+ * as OneRoster classes and enrollments for the SIS.
+ *
+ * Usage:
+ *   npm run oneroster -- import --input ./oneroster --output ./local-data
+ *   npm run oneroster -- export --schedule ./output/schedule.json --data ./data/demo --output ./sis --school sch-1 --term term-1
+ */
+
+import { Command, InvalidArgumentError } from 'commander';
+import { resolve } from 'path';
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import chalk from 'chalk';
+
+import { importOneRoster, exportOneRoster } from '../converter/oneroster.js';
+import { loadScheduleInput } from '../parser/data-loader.js';
+import { loadSchedule } from '../parser/schedule-loader.js';
+
+/**
+ * Commander parser for options that must be a positive whole number
+ */
+function positiveInteger(value: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new InvalidArgumentError('Must be a positive whole number.');
+  }
+  return n;
+}
+
+const program = new Command();
+
+program
+  .name('oneroster')
+  .description('Import and export OneRoster 1.1 CSV bundles');
+
+program
+  .command('import')
+  .description('Convert users.csv, courses.csv, classes.csv and enrollments.csv to scheduling format ' +
+    '(demographics.csv is ignored: students, teachers and courses have no fields for it)')
+  .requiredOption('-i, --input <dir>', 'Directory with the OneRoster CSV files')
+  .requiredOption('-o, --output <dir>', 'Output directory')
+  .option('--max-sections <n>', 'Teacher maxSections (raised to the classes they teach)', positiveInteger, 5)
+  .option('--max-students <n>', 'Course maxStudents', positiveInteger, 30)
+  .option('--periods-per-week <n>', 'Course periodsPerWeek', positiveInteger, 5)
+  .action(async (opts) => {
+    const inputDir = resolve(opts.input);
+    const outputDir = resolve(opts.output);
+
+    const read = async (file: string, required: boolean) => {
+      const path = resolve(inputDir, file);
+      if (!existsSync(path)) {
+        if (required) throw new Error(`${file} not found in ${inputDir}`);
+        return undefined;
+      }
+      return readFile(path, 'utf-8');
+    };
+
+    const result = importOneRoster({
+      users: (await read('users.csv', true))!,
+      courses: (await read('courses.csv', true))!,
+      classes: await read('classes.csv', false),
+      enrollments: await read('enrollments.csv', false),
+    }, {
+      maxSections: opts.maxSections,
+      maxStudents: opts.maxStudents,
+      periodsPerWeek: opts.periodsPerWeek,
+    });
+
+    await mkdir(outputDir, { recursive: true });
+    for (const type of ['students', 'teachers', 'courses'] as const) {
+      await writeFile(resolve(outputDir, `${type}.json`), JSON.stringify({ [type]: result[type] }, null, 2) + '\n');
+    }
+
+    // Summary
+    console.log(chalk.bold(`\nImported OneRoster bundle from ${opts.input}`));
+    console.log('═'.repeat(50));
+    console.log(chalk.green(`Students: ${result.students.length}`));
+    console.log(chalk.green(`Teachers: ${result.teachers.length}`));
+    console.log(chalk.green(`Courses:  ${result.courses.length}`));
+
+    if (result.skipped.length > 0) {
+      console.log(chalk.red(`Skipped: ${result.skipped.length} rows`));
+      for (const { file, row, reason } of result.skipped) {
+        console.log(chalk.red(`  • ${file} row ${row}: ${reason}`));
+      }
+    }
+
+    if (existsSync(resolve(inputDir, 'demographics.csv'))) {
+      console.log(chalk.yellow('\ndemographics.csv ignored: students, teachers and courses have no fields for it'));
+    }
+    console.log(chalk.yellow('\nOneRoster has no rooms: add rooms.json and constraints.txt before scheduling'));
+    console.log(chalk.green(`\nSaved to: ${outputDir}\n`));
+  });
+
+program
+  .command('export')
+  .description('Write a schedule as OneRoster classes.csv and enrollments.csv')
+  .requiredOption('-s, --schedule <file>', 'Schedule JSON file')
+  .requiredOption('-d, --data <dir>', 'Data directory the schedule was built from')
+  .requiredOption('-o, --output <dir>', 'Output directory')
+  .requiredOption('--school <id>', 'School (org) sourcedId')
+  .requiredOption('--term <ids>', 'Term (academicSession) sourcedIds, comma-separated')
+  .action(async (opts) => {
+    const dataDir = resolve(opts.data);
+    const outputDir = resolve(opts.output);
+
+    const input = await loadScheduleInput({
+      students: resolve(dataDir, 'students.json'),
+      teachers: resolve(dataDir, 'teachers.json'),
+      rooms: resolve(dataDir, 'rooms.json'),
+      courses: resolve(dataDir, 'courses.json'),
+      constraints: resolve(dataDir, 'constraints.txt'),
+    });
+    const schedule = await loadSchedule(resolve(opts.schedule));
+
+    const bundle = exportOneRoster(schedule, input, {
+      schoolSourcedId: opts.school,
+      termSourcedIds: opts.term.split(',').map((id: string) => id.trim()).filter(Boolean),
+    });
+
+    await mkdir(outputDir, { recursive: true });
+    await writeFile(resolve(outputDir, 'classes.csv'), bundle.classes);
+    await writeFile(resolve(outputDir, 'enrollments.csv'), bundle.enrollments);
+    await writeFile(resolve(outputDir, 'manifest.csv'), bundle.manifest);
+
+    const enrollments = schedule.sections.reduce(
+      (sum, s) => sum + s.enrolledStudents.length + (s.teacherId ? 1 : 0), 0);
+    console.log(chalk.bold(`\nExported ${opts.schedule} as OneRoster`));
+    console.log('═'.repeat(50));
+    console.log(chalk.green(`Classes:     ${schedule.sections.length}`));
+    console.log(chalk.green(`Enrollments: ${enrollments}`));
+    console.log(chalk.green(`\nSaved to: ${outputDir}\n`));
+  });
+
+program.parseAsync(process.argv).catch((err) => {
+  console.error(chalk.red('Error:'), err.message);
+  process.exit(1);
+});
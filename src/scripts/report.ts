@@ -10,14 +10,14 @@
 
 import { Command } from 'commander';
 import { resolve } from 'path';
-import { readFile, writeFile } from 'fs/promises';
+import { writeFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import chalk from 'chalk';
 
+import { loadSchedule } from '../parser/schedule-loader.js';
 import { loadScheduleInput, type DataPaths } from '../parser/data-loader.js';
 import { validateSchedule } from '../validator/index.js';
 import { generateReport, generateStudentSchedule } from '../reporter/index.js';
-import type { Schedule } from '../types/index.js';
 
 const program = new Command();
 
@@ -46,14 +46,7 @@ async function main() {
   }
 
   // Load schedule
-  const scheduleData = JSON.parse(await readFile(schedulePath, 'utf-8'));
-  const schedule: Schedule = scheduleData.sections
-    ? scheduleData
-    : {
-        sections: scheduleData.sections || [],
-        unassignedStudents: scheduleData.unassignedStudents || [],
-        metadata: scheduleData.metadata || {},
-      };
+  const schedule = await loadSchedule(schedulePath);
 
   // Load input data
   const paths: DataPaths = {
@@ -7,6 +7,8 @@
  * Usage:
  *   npm run schedule -- --data ./local-data --output ./output
  *   npm run schedule -- --data ./data/demo
+ *   npm run schedule -- --data ./data/demo --timetabling joint
+ *   npm run schedule -- --data ./data/demo --auto-sections
  */
 
 import { Command } from 'commander';
@@ -18,6 +20,8 @@ import cliProgress from 'cli-progress';
 
 import { loadScheduleInput, type DataPaths } from '../parser/data-loader.js';
 import { generateSchedule } from '../scheduler/index.js';
+import type { TimetablingMode } from '../scheduler/timetable-ilp.js';
+import type { LocalSearchMode } from '../scheduler/swap-chains.js';
 import { validateSchedule } from '../validator/index.js';
 import { generateReport } from '../reporter/index.js';
 
@@ -30,6 +34,10 @@ program
   .option('-o, --output <dir>', 'Output directory for reports', './output')
   .option('--format <type>', 'Output format: json, markdown, text, all', 'all')
   .option('--iterations <n>', 'Max optimization iterations', '1000')
+  .option('--timetabling <mode>', 'Section periods: heuristic, joint (ILP with students), decomposed (ILP, then students)', 'heuristic')
+  .option('--time-limit <seconds>', 'Time limit for the timetabling ILP', '120')
+  .option('--auto-sections', 'Choose section counts from demand, teachers and rooms instead of courses.json')
+  .option('--local-search <mode>', 'Section balancing without the student ILP: moves, swap-chains', 'moves')
   .option('--quiet', 'Suppress progress output')
   .parse(process.argv);
 
@@ -40,6 +48,16 @@ async function main() {
   const outputDir = resolve(opts.output);
   const iterations = parseInt(opts.iterations, 10);
 
+  if (!['heuristic', 'joint', 'decomposed'].includes(opts.timetabling)) {
+    console.error(chalk.red(`Error: Unknown timetabling mode: ${opts.timetabling}`));
+    process.exit(1);
+  }
+
+  if (!['moves', 'swap-chains'].includes(opts.localSearch)) {
+    console.error(chalk.red(`Error: Unknown local search mode: ${opts.localSearch}`));
+    process.exit(1);
+  }
+
   // Verify data directory exists
   if (!existsSync(dataDir)) {
     console.error(chalk.red(`Error: Data directory not found: ${dataDir}`));
@@ -91,6 +109,10 @@ async function main() {
 
   const schedule = await generateSchedule(input, {
     maxOptimizationIterations: iterations,
+    timetabling: opts.timetabling as TimetablingMode,
+    timetablingTimeLimit: parseInt(opts.timeLimit, 10),
+    autoSections: opts.autoSections,
+    localSearch: opts.localSearch as LocalSearchMode,
     onProgress: (progress) => {
       progressBar?.update(progress.percentComplete, {
         operation: progress.currentOperation,
@@ -6,25 +6,31 @@
  *
  * Usage:
  *   npm run validate -- --schedule ./output/schedule.json --data ./data/demo
+ *   npm run validate -- --check-input --data ./data/demo
  */
 
 import { Command } from 'commander';
 import { resolve } from 'path';
-import { readFile } from 'fs/promises';
 import { existsSync } from 'fs';
 import chalk from 'chalk';
 
-import { loadScheduleInput, type DataPaths } from '../parser/data-loader.js';
+import { loadSchedule } from '../parser/schedule-loader.js';
+import {
+  loadScheduleInput,
+  checkScheduleInput,
+  formatDiagnostic,
+  type DataPaths,
+} from '../parser/data-loader.js';
 import { validateSchedule } from '../validator/index.js';
-import type { Schedule } from '../types/index.js';
 
 const program = new Command();
 
 program
   .name('validate')
   .description('Validate an existing schedule against constraints')
-  .requiredOption('-s, --schedule <file>', 'Path to schedule JSON file')
+  .option('-s, --schedule <file>', 'Path to schedule JSON file')
   .requiredOption('-d, --data <dir>', 'Directory containing input data files')
+  .option('--check-input', 'Only check the input files and print diagnostics')
   .option('--verbose', 'Show detailed violation information')
   .option('--json', 'Output results as JSON')
   .parse(process.argv);
@@ -32,33 +38,13 @@ program
 const opts = program.opts();
 
 async function main() {
-  const schedulePath = resolve(opts.schedule);
   const dataDir = resolve(opts.data);
 
-  // Verify files exist
-  if (!existsSync(schedulePath)) {
-    console.error(chalk.red(`Error: Schedule file not found: ${schedulePath}`));
-    process.exit(1);
-  }
-
   if (!existsSync(dataDir)) {
     console.error(chalk.red(`Error: Data directory not found: ${dataDir}`));
     process.exit(1);
   }
 
-  // Load schedule
-  const scheduleData = JSON.parse(await readFile(schedulePath, 'utf-8'));
-
-  // Handle both raw schedule and report format
-  const schedule: Schedule = scheduleData.sections
-    ? scheduleData
-    : {
-        sections: scheduleData.sections || [],
-        unassignedStudents: scheduleData.unassignedStudents || [],
-        metadata: scheduleData.metadata || {},
-      };
-
-  // Load input data
   const paths: DataPaths = {
     students: resolve(dataDir, 'students.json'),
     teachers: resolve(dataDir, 'teachers.json'),
@@ -67,6 +53,28 @@ async function main() {
     constraints: resolve(dataDir, 'constraints.txt'),
   };
 
+  if (opts.checkInput) {
+    await checkInput(paths);
+    return;
+  }
+
+  if (!opts.schedule) {
+    console.error(chalk.red('Error: --schedule is required unless --check-input is given'));
+    process.exit(1);
+  }
+
+  const schedulePath = resolve(opts.schedule);
+
+  // Verify files exist
+  if (!existsSync(schedulePath)) {
+    console.error(chalk.red(`Error: Schedule file not found: ${schedulePath}`));
+    process.exit(1);
+  }
+
+  // Load schedule
+  const schedule = await loadSchedule(schedulePath);
+
+  // Load input data
   const input = await loadScheduleInput(paths);
 
   // Validate
@@ -113,6 +121,35 @@ async function main() {
   process.exit(validation.valid ? 0 : 1);
 }
 
+/**
+ * Print input diagnostics; exits non-zero if any are errors
+ */
+async function checkInput(paths: DataPaths) {
+  const diagnostics = await checkScheduleInput(paths);
+  const errors = diagnostics.filter(d => d.severity === 'error');
+
+  if (opts.json) {
+    console.log(JSON.stringify({ valid: errors.length === 0, diagnostics }, null, 2));
+  } else {
+    console.log(chalk.bold('\nInput Check Results'));
+    console.log('═'.repeat(50));
+
+    for (const diagnostic of diagnostics) {
+      const color = diagnostic.severity === 'error' ? chalk.red : chalk.yellow;
+      console.log(color(`  • ${formatDiagnostic(diagnostic)}`));
+    }
+
+    if (diagnostics.length === 0) {
+      console.log(chalk.green.bold('No problems found'));
+    } else {
+      console.log(`\nErrors: ${errors.length}, Warnings: ${diagnostics.length - errors.length}`);
+    }
+    console.log('');
+  }
+
+  process.exit(errors.length > 0 ? 1 : 0);
+}
+
 main().catch((err) => {
   console.error(chalk.red('Error:'), err.message);
   process.exit(1);
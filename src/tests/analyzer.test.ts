@@ -0,0 +1,109 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { scheduleDemo } from './demo.js';
+import { makeInput, makeStudent, makeTeacher, makeRoom, makeCourse, makeConstraint } from './fixtures.js';
+import { analyzeFeasibility } from '../analyzer/index.js';
+
+const descriptions = (input: Parameters<typeof analyzeFeasibility>[0]) =>
+  analyzeFeasibility(input).issues.map(issue => `${issue.type}: ${issue.description}`);
+
+test('a small input that fits has no issues', () => {
+  const report = analyzeFeasibility(makeInput({
+    students: [makeStudent('s1', ['eng'])],
+    teachers: [makeTeacher('t1', ['eng'])],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('eng')],
+  }));
+
+  assert.deepEqual(report, { feasible: true, issues: [], demand: [{ courseId: 'eng', demand: 1, capacity: 30 }] });
+});
+
+test('demand beyond the seats counts only students in an allowed grade', () => {
+  const students = [
+    makeStudent('s1', ['eng']),
+    makeStudent('s2', ['eng']),
+    makeStudent('s3', ['eng'], { grade: 12 }),
+  ];
+  const input = makeInput({
+    students,
+    teachers: [makeTeacher('t1', ['eng'])],
+    courses: [makeCourse('eng', { maxStudents: 1, gradeRestrictions: [9] })],
+  });
+
+  assert.deepEqual(analyzeFeasibility(input).demand, [{ courseId: 'eng', demand: 2, capacity: 1 }]);
+  assert.deepEqual(descriptions(input), ['course_capacity: eng: 2 students require it but its sections seat 1 (1 short)']);
+});
+
+test('courses nobody can teach or no room can hold are reported', () => {
+  const input = makeInput({
+    teachers: [makeTeacher('t1', ['eng'], { unavailable: [0, 1, 2, 3, 4, 5, 6, 7].map(slot => ({ day: 2, slot })) })],
+    rooms: [makeRoom('r1', { features: ['lab'] })],
+    courses: [
+      makeCourse('eng'),
+      makeCourse('chem', { requiredFeatures: ['lab', 'fume-hood'] }),
+      makeCourse('art', { sections: 0, requiredFeatures: ['kiln'] }),
+    ],
+  });
+
+  // t1 is out all of Wednesday, so can't teach a daily course
+  assert.deepEqual(descriptions(input), [
+    'no_qualified_teacher: eng: no teacher is qualified and available to teach it',
+    'no_qualified_teacher: chem: no teacher is qualified and available to teach it',
+    'no_suitable_room: chem: no room has all of its required features (lab, fume-hood)',
+  ]);
+});
+
+test('teachers are checked against the sections only they can teach', () => {
+  const input = makeInput({
+    teachers: [
+      makeTeacher('t1', ['eng', 'lit'], { maxSections: 2 }),
+      makeTeacher('t2', ['bio'], { maxSections: 1 }),
+      makeTeacher('t3', ['bio'], { maxSections: 1 }),
+      makeTeacher('t4', ['art'], { unavailable: [0, 1, 2, 3, 4].map(day => ({ day, slot: 0 })) }),
+    ],
+    courses: [
+      makeCourse('eng', { sections: 2 }),
+      makeCourse('lit'),
+      makeCourse('bio', { sections: 3 }),
+      makeCourse('art', { sections: 8 }),
+    ],
+  });
+
+  assert.deepEqual(descriptions(input), [
+    'teacher_capacity: bio: 3 sections but its 2 qualified teachers can take 2 in total',
+    'teacher_capacity: t1: only teacher for 3 sections (eng, lit) but maxSections is 2',
+    'teacher_capacity: t4: only teacher for 8 sections (art) but maxSections is 5',
+  ]);
+
+  // Within maxSections, the periods still have to fit t4's availability
+  input.teachers[3].maxSections = 8;
+  assert.equal(descriptions(input)[2], 'teacher_capacity: t4: only teacher for 40 periods a week (art) but available for 35');
+});
+
+test('grades requiring more courses than periods are reported, counting a hard lunch', () => {
+  const courses = ['a', 'b', 'c'].map(id => makeCourse(id));
+  const input = makeInput({
+    students: [makeStudent('s1', ['a', 'b', 'c']), makeStudent('s2', ['a', 'b'], { grade: 10 })],
+    teachers: [makeTeacher('t1', ['a', 'b', 'c'], { maxSections: 3 })],
+    courses,
+    config: { periodsPerDay: 3, daysPerWeek: 5, lunchSlots: [1] },
+  });
+
+  assert.deepEqual(descriptions(input), []);
+
+  input.constraints = [makeConstraint('lunch_period')];
+  assert.deepEqual(descriptions(input), [
+    'grade_overload: Grade 9: 1 student(s) require up to 3 courses but there are 3 periods a day, one kept for lunch',
+  ]);
+});
+
+test('feasibility issues carry over into the schedule warnings', async () => {
+  const { schedule } = await scheduleDemo({
+    courses: courses => {
+      courses[0].maxStudents = 1;
+    },
+  });
+
+  assert.ok(schedule.metadata.warnings.some(w => /^Feasibility: .+ students require it but its sections seat/.test(w)));
+});
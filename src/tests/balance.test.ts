@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { scheduleDemo, violationsOf } from './demo.js';
+import { makeInput, makeStudent, makeCourse, makeSection, everyDay } from './fixtures.js';
+import { balanceWithSwapChains } from '../scheduler/swap-chains.js';
+import type { Section } from '../types/index.js';
+
+test('sections of a course stay within max_spread of each other', async () => {
+  // The demo's BALANCED_SECTIONS line keeps the default max_spread of 5
+  const { schedule, validation } = await scheduleDemo();
+
+  const sizes = new Map<string, number[]>();
+  for (const section of schedule.sections) {
+    sizes.set(section.courseId, [...(sizes.get(section.courseId) ?? []), section.enrolledStudents.length]);
+  }
+  for (const [courseId, counts] of sizes) {
+    if (counts.length < 2) continue;
+    assert.ok(Math.min(...counts) > 0, `${courseId} has an empty section: ${counts.join('/')}`);
+    assert.ok(Math.max(...counts) - Math.min(...counts) <= 5, `${courseId} sections ${counts.join('/')}`);
+  }
+  assert.deepEqual(violationsOf(validation, 'balanced_sections'), []);
+});
+
+const enrolled = (sections: Section[]) => sections.map(s => `${s.id}: ${s.enrolledStudents.join(',')}`);
+
+test('a swap chain moves a student out of a clashing section too', () => {
+  // s1 can only join eng-2 by leaving art-1, which meets at the same time
+  const input = makeInput({ students: ['s1', 's2', 's3'].map(id => makeStudent(id, ['eng', 'art'])) });
+  const sections = [
+    makeSection('eng-1', 'eng', everyDay(0), { enrolledStudents: ['s1', 's2', 's3'] }),
+    makeSection('eng-2', 'eng', everyDay(1)),
+    makeSection('art-1', 'art', everyDay(1), { enrolledStudents: ['s1'] }),
+    makeSection('art-2', 'art', everyDay(2), { enrolledStudents: ['s2'] }),
+  ];
+  const courseMap = new Map(['eng', 'art'].map(id => [id, makeCourse(id)]));
+
+  assert.equal(balanceWithSwapChains(sections, input, courseMap, 10), 2);
+  assert.deepEqual(enrolled(sections), ['eng-1: s2,s3', 'eng-2: s1', 'art-1: s2', 'art-2: s1']);
+});
+
+test('no chain breaks an unavailable period, lunch or minStudents', () => {
+  const sections = () => [
+    makeSection('eng-1', 'eng', everyDay(0), { enrolledStudents: ['s1', 's2'] }),
+    makeSection('eng-2', 'eng', everyDay(1)),
+  ];
+  const courseMap = new Map([['eng', makeCourse('eng')]]);
+  const away = { constraints: [{ type: 'unavailable' as const, periods: everyDay(1) }] };
+
+  const unavailable = makeInput({ students: [makeStudent('s1', ['eng'], away), makeStudent('s2', ['eng'], away)] });
+  assert.equal(balanceWithSwapChains(sections(), unavailable, courseMap, 10), 0);
+
+  // Period 2 is the only lunch slot, so eng-2 takes lunch away
+  const input = makeInput({ students: ['s1', 's2'].map(id => makeStudent(id, ['eng'])) });
+  assert.equal(balanceWithSwapChains(sections(), input, courseMap, 10, [1]), 0);
+
+  const minimum = new Map([['eng', makeCourse('eng', { minStudents: 1 })]]);
+  assert.equal(balanceWithSwapChains(sections(), input, minimum, 10), 0);
+  assert.equal(balanceWithSwapChains(sections(), input, courseMap, 10), 1);
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { scheduleDemo, violationsOf } from './demo.js';
+import { makeInput, makeStudent, makeTeacher, makeRoom, makeCourse, makeSection, makeSchedule } from './fixtures.js';
+import { generateSchedule } from '../scheduler/index.js';
+import { validateSchedule } from '../validator/index.js';
+
+test('block courses meet in runs of blockLength consecutive periods', async () => {
+  // Double-period chemistry labs twice a week
+  const { schedule, validation } = await scheduleDemo({
+    courses: courses => {
+      Object.assign(courses.find(c => c.id === 'sci-chem')!, { blockLength: 2, periodsPerWeek: 4 });
+    },
+  });
+
+  const chemistry = schedule.sections.filter(s => s.courseId === 'sci-chem');
+  assert.ok(chemistry.length > 0);
+  for (const section of chemistry) {
+    assert.equal(section.periods.length, 4, section.id);
+    const days = [...new Set(section.periods.map(p => p.day))];
+    assert.equal(days.length, 2, section.id);
+    for (const day of days) {
+      const slots = section.periods.filter(p => p.day === day).map(p => p.slot).sort((a, b) => a - b);
+      assert.equal(slots.length, 2, `${section.id} on day ${day}`);
+      assert.equal(slots[1], slots[0] + 1, `${section.id} on day ${day}`);
+    }
+  }
+  assert.deepEqual(violationsOf(validation, 'consecutive_periods'), []);
+  assert.deepEqual(violationsOf(validation, 'no_student_conflict'), []);
+});
+
+test('a block fits inside the day and keeps one room', async () => {
+  const input = makeInput({
+    students: [makeStudent('s1', ['lab'])],
+    teachers: [makeTeacher('t1', ['lab'])],
+    rooms: [makeRoom('r1'), makeRoom('r2')],
+    courses: [makeCourse('lab', { blockLength: 3, periodsPerWeek: 6 })],
+    config: { periodsPerDay: 4, daysPerWeek: 5 },
+  });
+
+  const schedule = await generateSchedule(input);
+  const [lab] = schedule.sections;
+  assert.equal(lab.periods.length, 6);
+  assert.ok(lab.periods.every(p => p.slot < 4), JSON.stringify(lab.periods));
+  assert.ok(lab.roomId);
+  assert.deepEqual(violationsOf(validateSchedule(schedule, input), 'consecutive_periods'), []);
+});
+
+test('the validator flags a block split by a free period', () => {
+  const input = makeInput({ courses: [makeCourse('lab', { blockLength: 2, periodsPerWeek: 2 })] });
+  const split = makeSection('lab-1', 'lab', [{ day: 0, slot: 1 }, { day: 0, slot: 3 }]);
+
+  assert.equal(violationsOf(validateSchedule(makeSchedule([split]), input), 'consecutive_periods').length, 1);
+});
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { loadDemo, checkDemo, appendedLine } from './demo.js';
+import { makeInput, makeTeacher, makeConstraint, makePreference } from './fixtures.js';
+import { getTeacherUnavailable } from '../scheduler/availability.js';
+import { getLunchRule } from '../scheduler/lunch.js';
+
+test('constraint parameters are typed by the constraint they belong to', async () => {
+  const input = await loadDemo({
+    constraints: [
+      'HARD: TEACHER_UNAVAILABLE | Staff meeting | teacher=t-smith day=1 periods=1,2',
+      'HARD: TEACHER_UNAVAILABLE | Planning | teacher=t-smith | day=3',
+    ],
+  });
+
+  const rules = input.constraints.filter(c => c.type === 'teacher_availability' && c.params.teacher === 't-smith');
+  assert.deepEqual(rules.map(r => [r.id, r.params]), [
+    ['hard-teacher-unavailable', { teacher: 't-smith', day: [1], periods: [1, 2] }],
+    ['hard-teacher-unavailable-2', { teacher: 't-smith', day: [3] }],
+  ]);
+  assert.equal(input.preferences.find(p => p.type === 'balanced_teacher_load')?.weight, 0.5);
+});
+
+test('TEACHER_UNAVAILABLE days and periods count from 1 and default to all', () => {
+  const teacher = makeTeacher('t1', ['eng'], { unavailable: [{ day: 4, slot: 7 }] });
+  const input = makeInput({
+    teachers: [teacher],
+    config: { periodsPerDay: 3, daysPerWeek: 2 },
+    constraints: [
+      makeConstraint('teacher_availability', { params: { teacher: 't1', day: [1], periods: [1, 2] } }),
+      makeConstraint('teacher_availability', { params: { teacher: 't1', periods: [3] } }),
+      makeConstraint('teacher_availability', { params: { teacher: 't2', day: [2] } }),
+    ],
+  });
+
+  assert.deepEqual(getTeacherUnavailable(teacher, input), [
+    { day: 4, slot: 7 },
+    { day: 0, slot: 0 },
+    { day: 0, slot: 1 },
+    { day: 0, slot: 2 },
+    { day: 1, slot: 2 },
+  ]);
+});
+
+test('LUNCH_AVAILABILITY periods override LUNCH_PERIODS', () => {
+  const config = { periodsPerDay: 8, daysPerWeek: 5, lunchSlots: [3, 4] };
+
+  assert.deepEqual(
+    getLunchRule(makeInput({ config, constraints: [makeConstraint('lunch_period', { params: { periods: [5, 6] } })] }))?.slots,
+    [4, 5]
+  );
+  assert.deepEqual(
+    getLunchRule(makeInput({ config: { periodsPerDay: 8, daysPerWeek: 5 }, preferences: [makePreference('lunch_period')] })),
+    null
+  );
+});
+
+test('malformed parameters are rejected with the file and line number', async () => {
+  // Some lines repeat a demo constraint, which is reported too
+  const rejects = async (line: string, message: string) => assert.deepEqual(
+    (await checkDemo({ constraints: [line] })).filter(d => !d.message.startsWith('Duplicate constraint')),
+    [{ severity: 'error', file: 'constraints.txt', line: appendedLine(), message }]
+  );
+
+  await rejects(
+    'HARD: TEACHER_UNAVAILABLE | Staff meeting | teacher=t-smith days=1',
+    'Unknown parameter "days" for TEACHER_UNAVAILABLE (expected: teacher, day, periods)'
+  );
+  await rejects(
+    'HARD: TEACHER_UNAVAILABLE | Staff meeting | teacher=t-smith periods=one',
+    'Parameter "periods" for TEACHER_UNAVAILABLE must be numeric, got "one"'
+  );
+  await rejects(
+    'HARD: TEACHER_UNAVAILABLE | Staff meeting | day=1',
+    'Missing required parameter "teacher" for TEACHER_UNAVAILABLE'
+  );
+  await rejects(
+    'SOFT: BALANCED_SECTIONS | Even sections | max_spread=3,4',
+    'Parameter "max_spread" for BALANCED_SECTIONS takes a single number'
+  );
+  await rejects(
+    'HARD: NO_TEACHER_CONFLICT | Teachers in one place | strict',
+    'Expected key=value in NO_TEACHER_CONFLICT, got "strict"'
+  );
+});
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { parseCsv, formatCsv } from '../converter/csv.js';
+import { readTable, convertTable } from '../converter/index.js';
+
+test('CSV fields may be quoted, hold commas, quotes and line breaks, and end in CRLF', () => {
+  const text = '\uFEFFid,name,notes\r\ns1,"Doe, Jane","said ""hi""\nthen left"\r\ns2,Bo,';
+
+  assert.deepEqual(parseCsv(text), [
+    ['id', 'name', 'notes'],
+    ['s1', 'Doe, Jane', 'said "hi"\nthen left'],
+    ['s2', 'Bo', ''],
+  ]);
+  assert.deepEqual(parseCsv(formatCsv(parseCsv(text))), parseCsv(text));
+  assert.equal(formatCsv([['a', 1], ['b,c', 'd"e']]), 'a,1\n"b,c","d""e"\n');
+});
+
+test('columns are matched by name, or by the mapping, with list separators', () => {
+  const table = {
+    header: ['Student ID', 'Full Name', 'Grade Level', 'Courses'],
+    rows: [['s1', 'Jane', '9', 'eng|bio|eng']],
+  };
+
+  const result = convertTable(table, 'students', {
+    columns: { id: 'Student ID', name: 'Full Name', grade: 'Grade Level', requiredCourses: 'Courses' },
+    separators: { requiredCourses: '|' },
+  });
+  assert.deepEqual(result.records, [
+    { id: 's1', name: 'Jane', grade: 9, requiredCourses: ['eng', 'bio'], electivePreferences: [] },
+  ]);
+  assert.deepEqual(result.columns, { id: 'Student ID', name: 'Full Name', grade: 'Grade Level', requiredCourses: 'Courses' });
+
+  assert.throws(() => convertTable(table, 'students'), /No column for required students fields: id, name, grade/);
+  assert.throws(() => convertTable(table, 'students', { columns: { grade: 'Year' } }), /Column "Year" for grade not found/);
+  assert.throws(() => convertTable(table, 'students', { columns: { homeroom: 'Room' } }), /Unknown students fields in mapping: homeroom/);
+});
+
+test('fixable values are coerced and reported; unreadable rows are skipped', () => {
+  const table = {
+    header: ['id', 'name', 'capacity', 'unavailable'],
+    rows: [
+      ['r1', 'Lab', '30.0', '0-1;2-3'],
+      ['r2', 'Gym', 'about 100', ''],
+      ['r3', '', '20', ''],
+      ['r4', 'Hall', 'lots', ''],
+      ['', '', '', ''],
+      ['r1', 'Lab again', '30', ''],
+      ['r5', 'Annex', '-5', ''],
+      ['r6', 'Attic', '10', 'monday'],
+    ],
+  };
+
+  const result = convertTable(table, 'rooms');
+  assert.deepEqual(result.records.map(r => (r as { id: string }).id), ['r1', 'r2']);
+  assert.deepEqual((result.records[0] as { unavailable: unknown }).unavailable, [{ day: 0, slot: 1 }, { day: 2, slot: 3 }]);
+  assert.deepEqual(result.coerced, [
+    { row: 2, field: 'capacity', from: '30.0', to: '30' },
+    { row: 3, field: 'capacity', from: 'about 100', to: '100' },
+  ]);
+  assert.deepEqual(result.skipped, [
+    { row: 4, reason: 'Missing name' },
+    { row: 5, reason: 'capacity: "lots" is not a whole number' },
+    { row: 7, reason: 'Duplicate id r1 (first on row 2)' },
+    { row: 8, reason: 'capacity: Number must be greater than or equal to 0' },
+    { row: 9, reason: 'unavailable: "monday" is not a day-slot period (e.g. 0-3)' },
+  ]);
+});
+
+test('JSON exports are read as flat tables, periods as day-slot', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'convert-'));
+  try {
+    const path = join(dir, 'teachers.json');
+    await writeFile(path, JSON.stringify({
+      teachers: [
+        { id: 't1', name: 'Ann', subjects: ['eng', 'lit'], maxSections: 4, unavailable: [{ day: 0, slot: 2 }] },
+        { id: 't2', name: 'Bo', maxSections: 3 },
+      ],
+    }));
+
+    const table = await readTable(path, 'json');
+    assert.deepEqual(table, {
+      header: ['id', 'name', 'subjects', 'maxSections', 'unavailable'],
+      rows: [['t1', 'Ann', 'eng;lit', '4', '0-2'], ['t2', 'Bo', '', '3', '']],
+    });
+    assert.deepEqual(convertTable(table, 'teachers').records, [
+      { id: 't1', name: 'Ann', subjects: ['eng', 'lit'], maxSections: 4, unavailable: [{ day: 0, slot: 2 }] },
+      { id: 't2', name: 'Bo', subjects: [], maxSections: 3 },
+    ]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { scheduleDemo, sectionsByStudent, violationsOf } from './demo.js';
+import { makeInput, makeStudent, makeTeacher, makeRoom, makeCourse } from './fixtures.js';
+import { generateSchedule } from '../scheduler/index.js';
+import { getCorequisiteClosure, getRequestedCourses } from '../scheduler/eligibility.js';
+import { validateSchedule } from '../validator/index.js';
+
+test('students in a course are also enrolled in its corequisites', async () => {
+  const { schedule, validation } = await scheduleDemo({
+    courses: courses => {
+      courses.find(c => c.id === 'cs-intro')!.corequisites = ['art-intro'];
+    },
+  });
+
+  const csStudents = schedule.sections
+    .filter(s => s.courseId === 'cs-intro')
+    .flatMap(s => s.enrolledStudents);
+  assert.ok(csStudents.length > 0);
+  const byStudent = sectionsByStudent(schedule.sections);
+  for (const studentId of csStudents) {
+    assert.ok(
+      byStudent.get(studentId)!.some(s => s.courseId === 'art-intro'),
+      `${studentId} takes cs-intro without art-intro`
+    );
+  }
+  assert.deepEqual(violationsOf(validation, 'corequisites'), []);
+});
+
+test('corequisites are followed transitively and through cycles', () => {
+  const courseMap = new Map([
+    makeCourse('chem', { corequisites: ['chem-lab'] }),
+    makeCourse('chem-lab', { corequisites: ['safety', 'chem'] }),
+    makeCourse('safety'),
+    makeCourse('art'),
+  ].map(c => [c.id, c]));
+
+  assert.deepEqual(getCorequisiteClosure('chem', courseMap), ['chem', 'chem-lab', 'safety']);
+  assert.deepEqual(getCorequisiteClosure('art', courseMap), ['art']);
+  assert.deepEqual(
+    [...getRequestedCourses(makeStudent('s1', ['art'], { electivePreferences: ['chem'] }), courseMap)],
+    ['art', 'chem', 'chem-lab', 'safety']
+  );
+});
+
+test('a student requiring a course gets its corequisite, and the validator flags one without it', async () => {
+  const input = makeInput({
+    students: [makeStudent('s1', ['chem']), makeStudent('s2', ['art'])],
+    teachers: [makeTeacher('t1', ['chem', 'chem-lab', 'art'])],
+    rooms: [makeRoom('r1'), makeRoom('r2')],
+    courses: [makeCourse('chem', { corequisites: ['chem-lab'] }), makeCourse('chem-lab'), makeCourse('art')],
+  });
+
+  const schedule = await generateSchedule(input);
+  const byStudent = sectionsByStudent(schedule.sections);
+  assert.deepEqual(byStudent.get('s1')!.map(s => s.courseId).sort(), ['chem', 'chem-lab']);
+  assert.deepEqual(byStudent.get('s2')!.map(s => s.courseId), ['art']);
+  assert.deepEqual(violationsOf(validateSchedule(schedule, input), 'corequisites'), []);
+
+  schedule.sections.find(s => s.courseId === 'chem')!.enrolledStudents.push('s2');
+  assert.equal(violationsOf(validateSchedule(schedule, input), 'corequisites').length, 1);
+});
@@ -0,0 +1,113 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { scheduleDemo, sectionsByStudent, violationsOf } from './demo.js';
+import { makeInput, makeStudent, makeCourse, makeSection, makeSchedule, everyDay } from './fixtures.js';
+import { getCourseChoices, getChoiceRank, getChoiceResults, describeChoice } from '../scheduler/course-choices.js';
+import { solveScheduleILP } from '../scheduler/ilp-solver.js';
+import { validateSchedule } from '../validator/index.js';
+import { checkReferences } from '../parser/input-checks.js';
+import { formatDiagnostic } from '../parser/diagnostics.js';
+
+const student = makeStudent('s1', ['eng'], {
+  electivePreferences: ['art', 'music'],
+  electiveCount: 1,
+  courseGroups: [{ courses: ['spanish', 'french'] }],
+});
+
+test('electives and each course group are ranked choices with a count', () => {
+  const choices = getCourseChoices(student);
+  assert.deepEqual(choices.map(describeChoice), ['electives (1 of art, music)', 'group 1 (1 of spanish, french)']);
+  assert.deepEqual(getCourseChoices(makeStudent('s2', [], { electivePreferences: ['art'] })).map(describeChoice), [
+    'electives (any of art)',
+  ]);
+
+  assert.equal(getChoiceRank(student, 'music'), 1);
+  assert.equal(getChoiceRank(student, 'spanish'), 0);
+  assert.equal(getChoiceRank(student, 'eng'), -1);
+  assert.deepEqual(getChoiceResults(student, new Set(['eng', 'music', 'french'])).map(r => r.received), [
+    [{ courseId: 'music', rank: 2 }],
+    [{ courseId: 'french', rank: 2 }],
+  ]);
+});
+
+test('the ILP takes the top choice that fits, up to each count', async () => {
+  // spanish meets with eng, so the group falls to french
+  const sections = [
+    makeSection('eng-1', 'eng', everyDay(0)),
+    makeSection('art-1', 'art', everyDay(1)),
+    makeSection('music-1', 'music', everyDay(2)),
+    makeSection('spanish-1', 'spanish', everyDay(0)),
+    makeSection('french-1', 'french', everyDay(3)),
+  ];
+  const input = makeInput({
+    students: [student],
+    courses: ['eng', 'art', 'music', 'spanish', 'french'].map(id => makeCourse(id)),
+  });
+
+  const result = await solveScheduleILP(sections, input);
+  assert.deepEqual(result.assignments.get('s1'), ['eng-1', 'art-1', 'french-1']);
+  assert.deepEqual(result.objectiveBreakdown?.find(t => t.term === 'course_choices'), { term: 'course_choices', value: 0 });
+});
+
+test('the validator reports students short of or over a count', () => {
+  const input = makeInput({
+    students: [student, makeStudent('s2', [], { electivePreferences: ['art', 'music'], electiveCount: 1 })],
+    courses: ['eng', 'art', 'music'].map(id => makeCourse(id)),
+  });
+  const schedule = makeSchedule([
+    makeSection('eng-1', 'eng', everyDay(0), { enrolledStudents: ['s1'] }),
+    makeSection('art-1', 'art', everyDay(1), { enrolledStudents: ['s2'] }),
+    makeSection('music-1', 'music', everyDay(2), { enrolledStudents: ['s2'] }),
+  ]);
+
+  assert.deepEqual(violationsOf(validateSchedule(schedule, input), 'course_choices'), [
+    '1 students are 2 courses short of their elective counts and course groups',
+    '1 students have more courses than their elective counts or course groups ask for',
+  ]);
+});
+
+test('counts beyond the listed courses and courses listed twice are input errors', () => {
+  const diagnostics = checkReferences({
+    students: [makeStudent('s1', [], {
+      electivePreferences: ['art'],
+      electiveCount: 2,
+      courseGroups: [{ courses: ['art', 'latin'], count: 3 }],
+    })],
+    teachers: [],
+    rooms: [],
+    courses: [makeCourse('art')],
+  }, { students: [0], teachers: [], rooms: [], courses: [] }, { periodsPerDay: 8, daysPerWeek: 5 }, {
+    students: 'students.json', teachers: 'teachers.json', rooms: 'rooms.json', courses: 'courses.json',
+  });
+
+  assert.deepEqual(diagnostics.map(formatDiagnostic), [
+    'students.json at students[0].electiveCount: error: electiveCount 2 is more than the 1 electives listed',
+    'students.json at students[0].courseGroups[0].courses[1]: error: Unknown course latin',
+    'students.json at students[0].courseGroups[0].count: error: count 3 is more than the 2 courses listed',
+    'students.json at students[0].courseGroups[0].courses: error: Course art is already listed in electivePreferences or another group',
+  ]);
+});
+
+test('students get exactly electiveCount electives and count courses from each group', async () => {
+  const { input, schedule, validation } = await scheduleDemo({
+    students: students => {
+      for (const student of students) student.electiveCount = 1;
+      // s-001 needs one of two history courses instead of hist-world
+      const student = students.find(s => s.id === 's-001')!;
+      student.requiredCourses = student.requiredCourses.filter(c => c !== 'hist-world');
+      student.courseGroups = [{ courses: ['hist-world', 'hist-us'] }];
+    },
+  });
+
+  const byStudent = sectionsByStudent(schedule.sections);
+  for (const student of input.students) {
+    const courses = (byStudent.get(student.id) ?? []).map(s => s.courseId);
+    const electives = courses.filter(c => student.electivePreferences.includes(c));
+    assert.equal(electives.length, 1, `${student.id} takes ${electives.join(', ') || 'no electives'}`);
+  }
+  const history = byStudent.get('s-001')!.map(s => s.courseId).filter(c => c.startsWith('hist-'));
+  assert.equal(history.length, 1, `s-001 takes ${history.join(', ')}`);
+  assert.deepEqual(schedule.unassignedStudents.filter(u => u.studentId === 's-001'), []);
+  assert.deepEqual(violationsOf(validation, 'course_choices'), []);
+});
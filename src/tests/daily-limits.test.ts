@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { scheduleDemo, sectionsByStudent, violationsOf } from './demo.js';
+import { makeInput, makeStudent, makeCourse, makeSection, makeSchedule, makeConstraint, everyDay } from './fixtures.js';
+import {
+  getDailyLimits,
+  countDailyPeriods,
+  findGapConflicts,
+  createDailyLimitCheck,
+} from '../scheduler/daily-limits.js';
+import { diagnoseUnassigned } from '../scheduler/diagnosis.js';
+import { validateSchedule } from '../validator/index.js';
+import type { ConstraintParams } from '../types/index.js';
+
+const maxLine = (id: string, params: ConstraintParams) => makeConstraint('max_periods_per_day', { id, params });
+const gapLine = (id: string, params: ConstraintParams) => makeConstraint('min_periods_between', { id, params });
+
+test('a grade\'s own line overrides the line for all grades', () => {
+  const input = makeInput({
+    constraints: [
+      maxLine('max-all', { max: 6 }),
+      maxLine('max-9', { max: 4, grades: [9], exclude: ['pe'] }),
+      gapLine('gap-all', { courses: ['math', 'sci'] }),
+      gapLine('gap-9', { courses: ['sci', 'math'], gap: 2, grades: [9] }),
+      gapLine('gap-art', { courses: ['art', 'music'], grades: [10] }),
+    ],
+  });
+
+  assert.deepEqual(getDailyLimits(input, 9), {
+    maxPeriods: { constraintId: 'max-9', max: 4, exclude: ['pe'] },
+    minGaps: [{ constraintId: 'gap-9', courses: ['sci', 'math'], gap: 2 }],
+  });
+  assert.deepEqual(getDailyLimits(input, 10), {
+    maxPeriods: { constraintId: 'max-all', max: 6, exclude: [] },
+    minGaps: [
+      { constraintId: 'gap-all', courses: ['math', 'sci'], gap: 1 },
+      { constraintId: 'gap-art', courses: ['art', 'music'], gap: 1 },
+    ],
+  });
+  assert.deepEqual(getDailyLimits(makeInput(), 9), { maxPeriods: null, minGaps: [] });
+});
+
+test('excluded courses don\'t count, and only different listed courses can be too close', () => {
+  const rule = { constraintId: 'max', max: 1, exclude: ['pe'] };
+  assert.deepEqual(countDailyPeriods([
+    { courseId: 'eng', periods: [{ day: 0, slot: 0 }, { day: 2, slot: 0 }] },
+    { courseId: 'pe', periods: [{ day: 0, slot: 1 }] },
+    { courseId: 'art', periods: [{ day: 2, slot: 3 }] },
+  ], rule, 3), [1, 0, 2]);
+
+  const gap = { constraintId: 'gap', courses: ['math', 'sci'], gap: 1 };
+  const math = makeSection('math-1', 'math', [{ day: 0, slot: 2 }, { day: 1, slot: 2 }]);
+  const sci = makeSection('sci-1', 'sci', [{ day: 0, slot: 3 }, { day: 1, slot: 5 }]);
+  const conflicts = findGapConflicts([math, makeSection('math-2', 'math', everyDay(1)), sci], [gap]);
+  assert.deepEqual(conflicts.map(c => [c.first.id, c.second.id, c.day]), [['math-1', 'sci-1', 0]]);
+});
+
+test('the greedy check, the validator and the diagnosis agree on a broken limit', () => {
+  // s1 already has two periods on Monday; eng-1 would be a third
+  const input = makeInput({
+    students: [makeStudent('s1', ['art', 'math', 'eng', 'sci'])],
+    courses: ['art', 'math', 'eng', 'sci'].map(id => makeCourse(id)),
+    constraints: [maxLine('max', { max: 2 }), gapLine('gap', { courses: ['math', 'sci'] })],
+    config: { periodsPerDay: 4, daysPerWeek: 5 },
+  });
+  const sections = [
+    makeSection('art-1', 'art', [{ day: 0, slot: 0 }], { enrolledStudents: ['s1'] }),
+    makeSection('math-1', 'math', [{ day: 0, slot: 1 }], { enrolledStudents: ['s1'] }),
+    makeSection('eng-1', 'eng', [{ day: 0, slot: 3 }]),
+    makeSection('sci-1', 'sci', [{ day: 1, slot: 2 }]),
+    makeSection('sci-2', 'sci', [{ day: 0, slot: 2 }]),
+  ];
+
+  const breaks = createDailyLimitCheck(input, sections);
+  assert.deepEqual(sections.map(s => breaks('s1', s)), [false, false, true, false, true]);
+
+  const schedule = makeSchedule(sections, {
+    unassignedStudents: [{ studentId: 's1', courseId: 'eng', reason: 'No section fits' }],
+  });
+  diagnoseUnassigned(schedule, input);
+  assert.deepEqual(schedule.unassignedStudents[0].diagnosis, {
+    sections: [{ sectionId: 'eng-1', blocks: [{ type: 'daily_limit', detail: 'Would exceed 2 periods a day on Mon (max)' }] }],
+    suggestion: 'No single change found: see the blocks listed for each section',
+  });
+
+  sections[2].enrolledStudents = ['s1'];
+  sections[4].enrolledStudents = ['s1'];
+  const validation = validateSchedule(schedule, input);
+  assert.deepEqual(violationsOf(validation, 'max'), ['Student s1 has 4 periods on day 0 (max: 2)']);
+  assert.deepEqual(violationsOf(validation, 'gap'), [
+    'Student s1 has math-1 and sci-2 on day 0 with fewer than 1 period(s) between them',
+  ]);
+});
+
+test('students stay within MAX_PERIODS_PER_DAY and MIN_PERIODS_BETWEEN', async () => {
+  const { input, schedule, validation } = await scheduleDemo({
+    constraints: [
+      'HARD: MAX_PERIODS_PER_DAY | Daily class load | max=5 exclude=pe',
+      'HARD: MIN_PERIODS_BETWEEN | Break between math and science | courses=math-alg1,sci-bio gap=1',
+    ],
+  });
+
+  for (const [studentId, sections] of sectionsByStudent(schedule.sections)) {
+    for (let day = 0; day < input.config.daysPerWeek; day++) {
+      const slotsOf = (courseId: string) => sections
+        .filter(s => s.courseId === courseId)
+        .flatMap(s => s.periods)
+        .filter(p => p.day === day)
+        .map(p => p.slot);
+
+      const periods = sections.filter(s => s.courseId !== 'pe').flatMap(s => s.periods).filter(p => p.day === day);
+      assert.ok(periods.length <= 5, `${studentId} has ${periods.length} periods on day ${day}`);
+
+      for (const math of slotsOf('math-alg1')) {
+        for (const science of slotsOf('sci-bio')) {
+          assert.ok(Math.abs(math - science) > 1, `${studentId} has math-alg1 and sci-bio back to back on day ${day}`);
+        }
+      }
+    }
+  }
+  assert.deepEqual(validation.hardConstraintViolations, []);
+});
@@ -0,0 +1,115 @@
+/**
+ * Demo data for the solver checks
+ *
+ * Each check copies data/demo with its own edits and schedules it through
+ * the same loader and scheduler as the CLI.
+ */
+
+import { mkdtemp, readFile, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, resolve, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+import {
+  loadScheduleInput,
+  checkScheduleInput,
+  type DataPaths,
+  type InputDiagnostic,
+} from '../parser/data-loader.js';
+import { generateSchedule, type SchedulerOptions } from '../scheduler/index.js';
+import { validateSchedule } from '../validator/index.js';
+import type {
+  Schedule,
+  ScheduleInput,
+  ValidationResult,
+  Student,
+  Course,
+  Section,
+  StudentId,
+} from '../types/index.js';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const demoDir = resolve(__dirname, '../../data/demo');
+
+// Appended constraint lines follow the demo file and one blank line
+const demoConstraintLines = (await readFile(join(demoDir, 'constraints.txt'), 'utf-8')).split('\n').length;
+
+export interface DemoEdits {
+  students?: (students: Student[]) => void;
+  courses?: (courses: Course[]) => void;
+  constraints?: string[]; // Lines appended to constraints.txt
+  input?: (input: ScheduleInput) => void; // After loading, e.g. to drop a preference
+}
+
+export interface DemoRun {
+  input: ScheduleInput;
+  schedule: Schedule;
+  validation: ValidationResult;
+}
+
+// Copy data/demo with the edits to a temp dir and read it from there
+async function withDemoFiles<T>(edits: DemoEdits, read: (paths: DataPaths) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), 'schedule-demo-'));
+  try {
+    for (const name of ['teachers', 'rooms']) {
+      await writeFile(join(dir, `${name}.json`), await readFile(join(demoDir, `${name}.json`), 'utf-8'));
+    }
+    const students = JSON.parse(await readFile(join(demoDir, 'students.json'), 'utf-8'));
+    edits.students?.(students.students);
+    await writeFile(join(dir, 'students.json'), JSON.stringify(students));
+    const courses = JSON.parse(await readFile(join(demoDir, 'courses.json'), 'utf-8'));
+    edits.courses?.(courses.courses);
+    await writeFile(join(dir, 'courses.json'), JSON.stringify(courses));
+    const constraints = await readFile(join(demoDir, 'constraints.txt'), 'utf-8');
+    await writeFile(join(dir, 'constraints.txt'), [constraints, ...(edits.constraints ?? [])].join('\n'));
+
+    return await read({
+      students: join(dir, 'students.json'),
+      teachers: join(dir, 'teachers.json'),
+      rooms: join(dir, 'rooms.json'),
+      courses: join(dir, 'courses.json'),
+      constraints: join(dir, 'constraints.txt'),
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+export async function loadDemo(edits: DemoEdits = {}): Promise<ScheduleInput> {
+  const input = await withDemoFiles(edits, loadScheduleInput);
+  edits.input?.(input);
+  return input;
+}
+
+// Line number in constraints.txt of DemoEdits.constraints[index]
+export function appendedLine(index = 0): number {
+  return demoConstraintLines + 1 + index;
+}
+
+// What `validate --check-input` reports for the edited demo data
+export function checkDemo(edits: DemoEdits = {}): Promise<InputDiagnostic[]> {
+  return withDemoFiles(edits, checkScheduleInput);
+}
+
+export async function scheduleDemo(edits: DemoEdits = {}, options: SchedulerOptions = {}): Promise<DemoRun> {
+  const input = await loadDemo(edits);
+  const schedule = await generateSchedule(input, options);
+  return { input, schedule, validation: validateSchedule(schedule, input) };
+}
+
+// Validator findings from one constraint, hard and soft
+export function violationsOf(validation: ValidationResult, constraintId: string): string[] {
+  return [...validation.hardConstraintViolations, ...validation.softConstraintViolations]
+    .filter(v => v.constraintId === constraintId)
+    .map(v => v.description);
+}
+
+export function sectionsByStudent(sections: Section[]): Map<StudentId, Section[]> {
+  const byStudent = new Map<StudentId, Section[]>();
+  for (const section of sections) {
+    for (const studentId of section.enrolledStudents) {
+      byStudent.set(studentId, [...(byStudent.get(studentId) ?? []), section]);
+    }
+  }
+  return byStudent;
+}
@@ -0,0 +1,95 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { makeInput, makeStudent, makeTeacher, makeRoom, makeCourse, makeSection, makeSchedule, everyDay } from './fixtures.js';
+import { describePeriods, diagnoseUnassigned } from '../scheduler/diagnosis.js';
+import type { Schedule, ScheduleInput, Section, Course } from '../types/index.js';
+
+const config = { periodsPerDay: 3, daysPerWeek: 5 };
+
+// s1 left out of eng in a schedule of the given sections
+function diagnose(sections: Section[], parts: { courses?: Course[] } & Partial<Schedule> = {}) {
+  const { courses = [makeCourse('eng'), makeCourse('art')], ...extra } = parts;
+  const input: ScheduleInput = makeInput({
+    students: [makeStudent('s1', ['eng', 'art'])],
+    teachers: [makeTeacher('t1', ['eng']), makeTeacher('t2', ['art'])],
+    rooms: [makeRoom('r1', { capacity: 1 }), makeRoom('r2')],
+    courses,
+    config,
+  });
+  const schedule = makeSchedule(sections, {
+    unassignedStudents: [{ studentId: 's1', courseId: 'eng', reason: 'No section fits' }],
+    ...extra,
+  });
+  diagnoseUnassigned(schedule, input);
+  return schedule.unassignedStudents[0].diagnosis!;
+}
+
+test('periods read as a slot every day, or a slot on some days', () => {
+  assert.equal(describePeriods(everyDay(3), config), 'period 4');
+  assert.equal(describePeriods([{ day: 2, slot: 3 }, { day: 0, slot: 3 }, { day: 1, slot: 0 }], config), 'period 1 on Tue, period 4 on Mon/Wed');
+  assert.equal(describePeriods([], config), '');
+});
+
+test('a full section suggests one more seat, and a bigger room when needed', () => {
+  const diagnosis = diagnose([
+    makeSection('eng-1', 'eng', everyDay(0), { teacherId: 't1', roomId: 'r1', capacity: 1, enrolledStudents: ['s2'] }),
+  ]);
+
+  assert.deepEqual(diagnosis, {
+    sections: [{ sectionId: 'eng-1', blocks: [{ type: 'full', detail: 'Full (1/1)' }] }],
+    suggestion: 'Add one seat to eng-1 (1 → 2, in a room for 2)',
+  });
+});
+
+test('a time conflict suggests moving the student to another section of the conflicting course', () => {
+  const diagnosis = diagnose([
+    makeSection('eng-1', 'eng', everyDay(0), { teacherId: 't1' }),
+    makeSection('art-1', 'art', everyDay(0), { teacherId: 't2', enrolledStudents: ['s1'] }),
+    makeSection('art-2', 'art', everyDay(1), { teacherId: 't2' }),
+  ]);
+
+  assert.deepEqual(diagnosis.sections, [{
+    sectionId: 'eng-1',
+    blocks: [{ type: 'time_conflict', detail: 'Meets at the same time as art-1 (period 1)', sectionId: 'art-1' }],
+  }]);
+  assert.equal(diagnosis.suggestion, 'Move s1 from art-1 to art-2');
+});
+
+test('without another section to move to, the section moves to a time free for everyone', () => {
+  // t1 also teaches homeroom at period 2, so eng-1 can only go to period 3
+  const diagnosis = diagnose([
+    makeSection('eng-1', 'eng', everyDay(0), { teacherId: 't1' }),
+    makeSection('home-1', 'home', everyDay(1), { teacherId: 't1' }),
+    makeSection('art-1', 'art', everyDay(0), { teacherId: 't2', enrolledStudents: ['s1'] }),
+  ]);
+
+  assert.equal(diagnosis.suggestion, 'Move eng-1 to period 3');
+});
+
+test('rules no schedule change can fix, missing and cancelled sections are explained', () => {
+  const restricted = diagnose(
+    [makeSection('eng-1', 'eng', everyDay(0))],
+    { courses: [makeCourse('eng', { gradeRestrictions: [10, 11] }), makeCourse('art')] }
+  );
+  assert.equal(restricted.suggestion, 'No schedule change helps: Grade 9 not allowed (grades 10, 11)');
+
+  assert.deepEqual(diagnose([]), { sections: [], suggestion: 'Open a section of eng: none is offered' });
+
+  const cancelled = diagnose([], {
+    cancelledSections: [{ sectionId: 'eng-1', courseId: 'eng', enrollment: 2, minStudents: 5, movedStudents: [] }],
+  });
+  assert.deepEqual(cancelled, {
+    sections: [{ sectionId: 'eng-1', blocks: [{ type: 'cancelled', detail: 'Cancelled (2 enrolled, minimum 5)' }] }],
+    suggestion: 'Reopen eng-1: every section of eng was cancelled below minStudents',
+  });
+});
+
+test('an open section is pointed out', () => {
+  const diagnosis = diagnose([makeSection('eng-1', 'eng', everyDay(2))]);
+
+  assert.deepEqual(diagnosis, {
+    sections: [{ sectionId: 'eng-1', blocks: [] }],
+    suggestion: 'Enroll s1 in eng-1: it has a seat and no conflict',
+  });
+});
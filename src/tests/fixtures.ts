@@ -0,0 +1,88 @@
+/**
+ * Small in-memory inputs for focused checks
+ *
+ * Each builder fills in the fields a check doesn't care about, so a test
+ * only spells out what it is about.
+ */
+
+import type {
+  ScheduleInput,
+  Student,
+  Teacher,
+  Room,
+  Course,
+  Section,
+  Schedule,
+  Period,
+  CourseId,
+  ScheduleConstraint,
+  ConstraintType,
+  SchedulePreference,
+  PreferenceType,
+} from '../types/index.js';
+
+export function makeInput(parts: Partial<ScheduleInput> = {}): ScheduleInput {
+  return {
+    students: [],
+    teachers: [],
+    rooms: [],
+    courses: [],
+    constraints: [],
+    preferences: [],
+    config: { periodsPerDay: 8, daysPerWeek: 5 },
+    ...parts,
+  };
+}
+
+export function makeStudent(id: string, requiredCourses: CourseId[], extra: Partial<Student> = {}): Student {
+  return { id, name: id, grade: 9, requiredCourses, electivePreferences: [], ...extra };
+}
+
+export function makeTeacher(id: string, subjects: CourseId[], extra: Partial<Teacher> = {}): Teacher {
+  return { id, name: id, subjects, maxSections: 5, ...extra };
+}
+
+export function makeRoom(id: string, extra: Partial<Room> = {}): Room {
+  return { id, name: id, capacity: 30, features: [], ...extra };
+}
+
+export function makeCourse(id: CourseId, extra: Partial<Course> = {}): Course {
+  return { id, name: id, maxStudents: 30, periodsPerWeek: 5, sections: 1, ...extra };
+}
+
+export function makeSection(id: string, courseId: CourseId, periods: Period[], extra: Partial<Section> = {}): Section {
+  return { id, courseId, periods, enrolledStudents: [], capacity: 30, ...extra };
+}
+
+// A HARD: line of constraints.txt
+export function makeConstraint(type: ConstraintType, extra: Partial<ScheduleConstraint> = {}): ScheduleConstraint {
+  return { id: `hard-${type}`, type, description: type, params: {}, priority: 'hard', ...extra };
+}
+
+// A SOFT: line of constraints.txt
+export function makePreference(type: PreferenceType, weight = 1, extra: Partial<SchedulePreference> = {}): SchedulePreference {
+  return { id: `soft-${type}`, type, description: type, params: {}, weight, ...extra };
+}
+
+// A schedule of hand-placed sections, for validator checks
+export function makeSchedule(sections: Section[], extra: Partial<Schedule> = {}): Schedule {
+  return {
+    sections,
+    unassignedStudents: [],
+    metadata: {
+      generatedAt: new Date(0).toISOString(),
+      algorithmVersion: 'test',
+      iterations: 0,
+      score: 0,
+      constraintsSatisfied: 0,
+      constraintsTotal: 0,
+      warnings: [],
+    },
+    ...extra,
+  };
+}
+
+// One slot on each day of the week
+export function everyDay(slot: number, daysPerWeek = 5): Period[] {
+  return [...Array(daysPerWeek).keys()].map(day => ({ day, slot }));
+}
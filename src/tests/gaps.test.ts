@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { loadDemo } from './demo.js';
+import {
+  makeInput,
+  makeStudent,
+  makeCourse,
+  makeSection,
+  makeSchedule,
+  makeConstraint,
+  makePreference,
+  everyDay,
+} from './fixtures.js';
+import { generateSchedule } from '../scheduler/index.js';
+import { countGaps, createGapCheck, getGapRule, getGapStatistics } from '../scheduler/gaps.js';
+import { validateSchedule } from '../validator/index.js';
+import type { ScheduleInput } from '../types/index.js';
+
+async function totalGaps(input: ScheduleInput): Promise<number> {
+  const schedule = await generateSchedule(input);
+  return getGapStatistics(schedule.sections, input).reduce((sum, grade) => sum + grade.totalGaps, 0);
+}
+
+test('MINIMIZE_GAPS leaves students fewer free periods between classes', async () => {
+  // Without BALANCED_SECTIONS, which a gap costs less than, so sections are
+  // chosen by gaps alone
+  const demo = await loadDemo();
+  const input = { ...demo, preferences: demo.preferences.filter(p => p.type !== 'balanced_class_sizes') };
+  const withoutGapRule = { ...input, preferences: input.preferences.filter(p => p.type !== 'compact_schedule') };
+
+  const gaps = await totalGaps(input);
+  const uncompacted = await totalGaps(withoutGapRule);
+  assert.ok(gaps < uncompacted, `${gaps} gaps with MINIMIZE_GAPS, ${uncompacted} without`);
+});
+
+test('gaps are free periods between classes on a day, not counting lunch', () => {
+  const periods = [
+    { day: 0, slot: 0 }, { day: 0, slot: 4 },              // 3 free periods between
+    { day: 1, slot: 2 },                                   // One class, no gap
+    { day: 2, slot: 1 }, { day: 2, slot: 2 }, { day: 2, slot: 6 },
+  ];
+
+  assert.deepEqual(countGaps(periods, 5, []), [3, 0, 3, 0, 0]);
+  assert.deepEqual(countGaps(periods, 5, [3, 4]), [2, 0, 1, 0, 0]);
+});
+
+test('the gap rule ignores the lunch slots only when there is a lunch rule', () => {
+  const config = { periodsPerDay: 8, daysPerWeek: 5, lunchSlots: [3] };
+
+  assert.equal(getGapRule(makeInput({ config })), null);
+  assert.deepEqual(getGapRule(makeInput({ config, preferences: [makePreference('compact_schedule', 0.3)] })), {
+    weight: 0.3,
+    ignoredSlots: [],
+  });
+  assert.deepEqual(getGapRule(makeInput({
+    config,
+    preferences: [makePreference('compact_schedule', 0.3)],
+    constraints: [makeConstraint('lunch_period')],
+  }))?.ignoredSlots, [3]);
+});
+
+test('balancing checks whether a move would give the student a new gap', () => {
+  const input = makeInput({ preferences: [makePreference('compact_schedule')] });
+  const sections = [
+    makeSection('math-1', 'math', everyDay(0), { enrolledStudents: ['s1'] }),
+    makeSection('eng-1', 'eng', everyDay(1), { enrolledStudents: ['s1', 's2'] }),
+    makeSection('eng-2', 'eng', everyDay(3), { enrolledStudents: ['s3'] }),
+  ];
+
+  assert.equal(createGapCheck(input, sections)('s1', sections[2]), true);
+  assert.equal(createGapCheck(input, sections)('s1', sections[1]), false);
+  // With an empty section the course is lopsided, and evening it out wins
+  const withEmpty = [...sections, makeSection('eng-3', 'eng', everyDay(5))];
+  assert.equal(createGapCheck(input, withEmpty)('s1', withEmpty[2]), false);
+  assert.equal(createGapCheck(makeInput(), sections)('s1', sections[2]), false);
+});
+
+test('the validator summary reports gaps per grade', () => {
+  const input = makeInput({
+    students: [makeStudent('s1', ['a', 'b']), makeStudent('s2', ['a']), makeStudent('s3', ['a', 'b'], { grade: 10 })],
+    courses: [makeCourse('a'), makeCourse('b')],
+  });
+  const schedule = makeSchedule([
+    makeSection('a-1', 'a', everyDay(0), { enrolledStudents: ['s1', 's2', 's3'] }),
+    makeSection('b-1', 'b', [{ day: 0, slot: 3 }], { enrolledStudents: ['s1'] }),
+    makeSection('b-2', 'b', everyDay(1), { enrolledStudents: ['s3'] }),
+  ]);
+
+  const validation = validateSchedule(schedule, input);
+  assert.deepEqual(validation.gapsByGrade, [
+    { grade: 9, students: 2, totalGaps: 2, averageGaps: 1, maxGapsPerDay: 2, studentsWithGaps: 1 },
+    { grade: 10, students: 1, totalGaps: 0, averageGaps: 0, maxGapsPerDay: 0, studentsWithGaps: 0 },
+  ]);
+  assert.ok(validation.summary.includes('Grade 9: 2 total, 1 per student, 1/2 students with gaps, at most 2 in a day'));
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { makeInput, makeTeacher, makeRoom, makeCourse, makeSection, makeSchedule, makeConstraint, everyDay } from './fixtures.js';
+import { parseRow, findInfeasibleSubset, constraintIdFor, describeModelRow } from '../scheduler/infeasibility.js';
+import { solveTimetableILP } from '../scheduler/timetable-ilp.js';
+import { SavedScheduleSchema } from '../parser/schemas.js';
+
+test('model rows are read back from their CPLEX LP lines', () => {
+  assert.deepEqual(parseRow(' room_0_1_2: y_1 + 2 y_3 - z_4 <= 1'), {
+    name: 'room_0_1_2',
+    variables: ['y_1', 'y_3', 'z_4'],
+    rhs: 1,
+  });
+  assert.deepEqual(parseRow(' need_0_eng: x_0_1 + x_0_2 >= 1').rhs, 1);
+});
+
+test('the infeasible subset keeps only rows that conflict', async () => {
+  const rows = [
+    ' both: a + b >= 2',
+    ' spare: c + d <= 1',
+    ' one: a + b <= 1',
+    ' loose: b - d <= 5',
+  ];
+
+  assert.deepEqual((await findInfeasibleSubset(rows, ['a', 'b', 'c', 'd'])).map(r => r.name), ['both', 'one']);
+  assert.deepEqual(await findInfeasibleSubset(rows.filter(r => !r.includes('one')), ['a', 'b', 'c', 'd']), []);
+});
+
+test('rows are reported against the constraints.txt id when there is one', () => {
+  const input = makeInput({ constraints: [makeConstraint('no_room_conflict', { id: 'hard-no-room-conflict' })] });
+
+  assert.equal(constraintIdFor(input, 'no_room_conflict'), 'hard-no-room-conflict');
+  assert.equal(constraintIdFor(input, 'no_teacher_conflict'), 'no_teacher_conflict');
+  assert.deepEqual(describeModelRow(parseRow(' odd_1: y_1 + y_2 <= 1')), {
+    constraintId: 'odd_1',
+    constraintType: 'custom',
+    description: 'Model row odd_1 (2 variables, limit 1)',
+    severity: 'error',
+    entities: {},
+  });
+});
+
+test('an infeasible timetable names its conflicting constraints in domain terms', async () => {
+  // t1 teaches two daily courses but is free only in period 1
+  const input = makeInput({
+    teachers: [makeTeacher('t1', ['art', 'music'], { unavailable: everyDay(1) })],
+    rooms: [makeRoom('r1'), makeRoom('r2')],
+    courses: [makeCourse('art'), makeCourse('music')],
+    config: { periodsPerDay: 2, daysPerWeek: 5 },
+  });
+  const sections = [
+    makeSection('art-1', 'art', [], { teacherId: 't1' }),
+    makeSection('music-1', 'music', [], { teacherId: 't1' }),
+  ];
+
+  const result = await solveTimetableILP(sections, input, 10);
+  assert.equal(result.status, 'Infeasible');
+  assert.deepEqual(result.conflicts?.map(c => [c.constraintId, c.description]), [
+    ['teacher_availability', 'art-1 must meet at one of its 1 candidate times (t1 is unavailable for the other 1)'],
+    ['teacher_availability', 'music-1 must meet at one of its 1 candidate times (t1 is unavailable for the other 1)'],
+    ['no_teacher_conflict', 't1 can teach only one of art-1, music-1 at period 1 on Mon'],
+  ]);
+
+  const saved = makeSchedule([]);
+  saved.metadata.infeasibleConstraints = result.conflicts;
+  assert.deepEqual(SavedScheduleSchema.parse(JSON.parse(JSON.stringify(saved))).metadata.infeasibleConstraints, result.conflicts);
+});
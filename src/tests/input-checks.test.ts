@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { checkDemo, appendedLine } from './demo.js';
+import { makeStudent, makeTeacher, makeCourse } from './fixtures.js';
+import { parseEntities, checkReferences } from '../parser/input-checks.js';
+import { StudentSchema } from '../parser/schemas.js';
+import { formatDiagnostic, type InputDiagnostic } from '../parser/diagnostics.js';
+
+const files = { students: 'students.json', teachers: 'teachers.json', rooms: 'rooms.json', courses: 'courses.json' };
+const config = { periodsPerDay: 8, daysPerWeek: 5 };
+
+test('invalid entries are reported by path and left out', () => {
+  const diagnostics: InputDiagnostic[] = [];
+  const parsed = parseEntities({
+    students: [
+      makeStudent('s1', ['eng']),
+      { ...makeStudent('s2', ['eng']), grade: 'ninth' },
+      makeStudent('s3', ['eng'], { constraints: [{ type: 'avoid', periods: [{ day: -1, slot: 0 }] }] }),
+    ],
+  }, 'students', StudentSchema, 'students.json', diagnostics);
+
+  assert.deepEqual(parsed.values.map(s => s.id), ['s1']);
+  assert.deepEqual(parsed.indices, [0]);
+  assert.deepEqual(diagnostics.map(d => d.path), ['students[1].grade', 'students[2].constraints[0].periods[0].day']);
+  assert.equal(formatDiagnostic(diagnostics[0]), 'students.json at students[1].grade: error: Expected number, received string');
+});
+
+test('a file without its top-level array is one error', () => {
+  const diagnostics: InputDiagnostic[] = [];
+  parseEntities({ pupils: [] }, 'students', StudentSchema, 'students.json', diagnostics);
+  parseEntities(undefined, 'students', StudentSchema, 'students.json', diagnostics);
+
+  assert.deepEqual(diagnostics, [{ severity: 'error', file: 'students.json', message: 'Expected a top-level "students" array' }]);
+});
+
+test('references are checked across files, with paths into the original arrays', () => {
+  const diagnostics = checkReferences({
+    students: [makeStudent('s1', ['eng', 'bio']), makeStudent('s1', ['eng'])],
+    teachers: [makeTeacher('t1', ['eng'], { unavailable: [{ day: 5, slot: 0 }] })],
+    rooms: [],
+    courses: [makeCourse('eng', { prerequisites: ['eng-0'] })],
+  }, {
+    // The second student was entry 2 in the file; entry 1 failed its schema
+    students: [0, 2],
+    teachers: [0],
+    rooms: [],
+    courses: [0],
+  }, config, files);
+
+  assert.deepEqual(diagnostics.map(formatDiagnostic), [
+    'students.json at students[2].id: error: Duplicate id s1 (first at index 0)',
+    'students.json at students[0].requiredCourses[1]: error: Unknown course bio',
+    'teachers.json at teachers[0].unavailable[0]: error: Period (day 5, slot 0) is outside the week (days 0-4, slots 0-7)',
+    'courses.json at courses[0].prerequisites[0]: error: Unknown course eng-0',
+  ]);
+});
+
+test('check-input reports JSON problems alongside constraint file ones', async () => {
+  let added = 0;
+  const diagnostics = await checkDemo({
+    students: students => {
+      (students[3] as { grade: unknown }).grade = '10';
+      added = students[4].requiredCourses.push('underwater-basket-weaving') - 1;
+    },
+    constraints: ['CONFIG: COLOR = blue'],
+  });
+
+  assert.deepEqual(diagnostics.map(d => `${d.file}: ${d.path ?? d.line}: ${d.message}`), [
+    'students.json: students[3].grade: Expected number, received string',
+    `students.json: students[4].requiredCourses[${added}]: Unknown course underwater-basket-weaving`,
+    `constraints.txt: ${appendedLine()}: Unknown CONFIG key COLOR (ignored)`,
+  ]);
+});
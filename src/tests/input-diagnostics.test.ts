@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { loadDemo, checkDemo, appendedLine } from './demo.js';
+import { formatDiagnostic } from '../parser/data-loader.js';
+
+const messages = async (constraints: string[]) =>
+  (await checkDemo({ constraints })).map(d => `${d.line}: ${d.severity}: ${d.message}`);
+
+test('the demo input has no problems', async () => {
+  assert.deepEqual(await checkDemo(), []);
+});
+
+test('misspelled constraint names suggest the closest known one', async () => {
+  assert.deepEqual(await messages([
+    'HARD: NO_TEACHER_CONFLICTS | Teachers in one place',
+    'SOFT: MINIMISE_GAPS | Compact days | weight=0.3',
+    'HARD: TOTALLY_NEW_RULE | Something else',
+  ]), [
+    `${appendedLine(0)}: error: Unknown hard constraint NO_TEACHER_CONFLICTS (did you mean NO_TEACHER_CONFLICT?)`,
+    `${appendedLine(1)}: error: Unknown soft constraint MINIMISE_GAPS (did you mean MINIMIZE_GAPS?)`,
+    `${appendedLine(2)}: error: Unknown hard constraint TOTALLY_NEW_RULE`,
+  ]);
+});
+
+test('days on constraint lines are checked against CONFIG, then teachers against teachers.json', async () => {
+  assert.deepEqual(await messages([
+    'HARD: TEACHER_UNAVAILABLE | Staff meeting | teacher=t-smyth day=1',
+    'HARD: TEACHER_UNAVAILABLE | Staff meeting | teacher=t-smith day=6 periods=0,2',
+  ]), [
+    `${appendedLine(1)}: error: Parameter "day" values 6 outside 1-5`,
+    `${appendedLine(1)}: error: Parameter "periods" values 0 outside 1-8`,
+    `${appendedLine(0)}: error: Unknown teacher t-smyth (did you mean t-smith?)`,
+  ]);
+});
+
+test('duplicate constraints, bad weights and bad CONFIG lines are reported', async () => {
+  assert.deepEqual(await messages([
+    'HARD: NO_ROOM_CONFLICT | Rooms hold one class',
+    'SOFT: BALANCED_SECTIONS | Even sections | weight=2',
+    'CONFIG: DAYS_PER_WEEK = 9',
+    'CONFIG: COLOR = blue',
+    'Schedule nicely please',
+  ]), [
+    `${appendedLine(0)}: error: Duplicate constraint hard-no-room-conflict (first defined on line 12)`,
+    `${appendedLine(1)}: error: Weight for BALANCED_SECTIONS must be between 0 and 1, got 2`,
+    `${appendedLine(1)}: error: Duplicate constraint soft-balanced-sections (first defined on line 26)`,
+    `${appendedLine(2)}: warning: CONFIG DAYS_PER_WEEK is set again (overrides line 39)`,
+    `${appendedLine(2)}: error: CONFIG DAYS_PER_WEEK must be a whole number from 1 to 7, got "9"`,
+    `${appendedLine(3)}: warning: Unknown CONFIG key COLOR (ignored)`,
+    `${appendedLine(4)}: error: Unrecognized line; expected HARD:, SOFT:, CONFIG: or GOAL:`,
+  ]);
+});
+
+test('loading fails with every error, but not with warnings', async () => {
+  await loadDemo({ constraints: ['CONFIG: COLOR = blue'] });
+
+  const lines = ['HARD: NO_TEACHER_CONFLICTS | Teachers in one place', 'CONFIG: PERIODS_PER_DAY = 0'];
+  const diagnostics = (await checkDemo({ constraints: lines })).filter(d => d.severity === 'error');
+  await assert.rejects(loadDemo({ constraints: lines }), {
+    message: `Invalid input (2 errors):\n${diagnostics.map(formatDiagnostic).join('\n')}`,
+  });
+  assert.match(formatDiagnostic(diagnostics[1]), /^constraints\.txt:\d+: error: CONFIG PERIODS_PER_DAY/);
+});
+
+test('daily limit lines are checked per grade, against the period count and courses.json', async () => {
+  assert.deepEqual(await messages([
+    'HARD: MAX_PERIODS_PER_DAY | Daily load | max=6',
+    'HARD: MAX_PERIODS_PER_DAY | Lighter days | max=5 grades=9,10',
+    'HARD: MAX_PERIODS_PER_DAY | Daily load again | max=9',
+    'HARD: MAX_PERIODS_PER_DAY | Lighter days again | max=5 grades=10,11 exclude=p-e',
+    'HARD: MIN_PERIODS_BETWEEN | Break | courses=math-alg1,sci-bioo gap=8',
+  ]), [
+    `${appendedLine(2)}: error: MAX_PERIODS_PER_DAY is already set for all grades on line ${appendedLine(0)}`,
+    `${appendedLine(2)}: error: Parameter "max" values 9 outside 1-8`,
+    `${appendedLine(3)}: error: MAX_PERIODS_PER_DAY is already set for grade 10 on line ${appendedLine(1)}`,
+    `${appendedLine(4)}: error: Parameter "gap" values 8 outside 1-7`,
+    `${appendedLine(3)}: error: Unknown course p-e (did you mean pe?)`,
+    `${appendedLine(4)}: error: Unknown course sci-bioo (did you mean sci-bio?)`,
+  ]);
+});
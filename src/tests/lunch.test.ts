@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { scheduleDemo, sectionsByStudent, violationsOf, type DemoRun } from './demo.js';
+import {
+  makeInput,
+  makeStudent,
+  makeCourse,
+  makeSection,
+  makeSchedule,
+  makeConstraint,
+  makePreference,
+  everyDay,
+} from './fixtures.js';
+import { getLunchRule, getDaysWithoutLunch, blocksLunch, losesLunch } from '../scheduler/lunch.js';
+import { validateSchedule } from '../validator/index.js';
+
+test('a hard lunch rule leaves every student a lunch period each day', async () => {
+  const { input, schedule, validation } = await scheduleDemo({
+    constraints: ['HARD: LUNCH_AVAILABILITY | Lunch in period 4 or 5'],
+  });
+
+  // LUNCH_PERIODS = 4,5 are slots 3 and 4
+  for (const [studentId, sections] of sectionsByStudent(schedule.sections)) {
+    const taken = new Set(sections.flatMap(s => s.periods).map(p => `${p.day}-${p.slot}`));
+    for (let day = 0; day < input.config.daysPerWeek; day++) {
+      assert.ok(!taken.has(`${day}-3`) || !taken.has(`${day}-4`), `${studentId} has no lunch on day ${day}`);
+    }
+  }
+  assert.deepEqual(schedule.unassignedStudents, []);
+  assert.deepEqual(violationsOf(validation, 'lunch_period'), []);
+});
+
+test('a soft lunch rule costs no student an elective', async () => {
+  const placedElectives = ({ input, schedule }: DemoRun) => {
+    const byStudent = sectionsByStudent(schedule.sections);
+    return input.students.reduce((sum, student) => sum + (byStudent.get(student.id) ?? [])
+      .filter(s => student.electivePreferences.includes(s.courseId)).length, 0);
+  };
+
+  // The demo's SOFT: LUNCH_AVAILABILITY line against the same data without it
+  const withLunch = await scheduleDemo();
+  const withoutLunch = await scheduleDemo({
+    input: input => {
+      input.preferences = input.preferences.filter(p => p.type !== 'lunch_period');
+    },
+  });
+  assert.equal(placedElectives(withLunch), placedElectives(withoutLunch));
+});
+
+test('the lunch rule is hard, soft or absent depending on constraints.txt', () => {
+  const config = { periodsPerDay: 8, daysPerWeek: 5, lunchSlots: [3, 4] };
+
+  assert.equal(getLunchRule(makeInput({ config: { periodsPerDay: 8, daysPerWeek: 5 } })), null);
+  assert.equal(getLunchRule(makeInput({ config })), null);
+  assert.deepEqual(
+    getLunchRule(makeInput({ config, constraints: [makeConstraint('lunch_period')] })),
+    { slots: [3, 4], hard: true, weight: 1 }
+  );
+  assert.deepEqual(
+    getLunchRule(makeInput({ config, preferences: [makePreference('lunch_period', 0.9)] })),
+    { slots: [3, 4], hard: false, weight: 0.9 }
+  );
+});
+
+test('lunch checks count a day only when every lunch slot is taken', () => {
+  const schedule = new Set(['0-3', '0-4', '1-3']);
+
+  assert.deepEqual(getDaysWithoutLunch(schedule, [3, 4], 5), [0]);
+  assert.equal(blocksLunch(schedule, [{ day: 1, slot: 4 }], [3, 4]), true);
+  assert.equal(blocksLunch(schedule, [{ day: 2, slot: 4 }], [3, 4]), false);
+  // Moving day 1's class from slot 2 to slot 4 takes the last lunch slot;
+  // moving it off slot 3 to slot 4 keeps one free
+  assert.equal(losesLunch(schedule, [{ day: 1, slot: 2 }], [{ day: 1, slot: 4 }], [3, 4]), true);
+  assert.equal(losesLunch(new Set(['0-3', '0-4']), [{ day: 1, slot: 3 }], [{ day: 1, slot: 4 }], [3, 4]), false);
+});
+
+test('the validator names the days a student has no lunch under a hard rule', () => {
+  const input = makeInput({
+    students: [makeStudent('s1', ['a', 'b'])],
+    courses: [makeCourse('a'), makeCourse('b')],
+    constraints: [makeConstraint('lunch_period')],
+    config: { periodsPerDay: 8, daysPerWeek: 5, lunchSlots: [3, 4] },
+  });
+  const schedule = makeSchedule([
+    makeSection('a-1', 'a', everyDay(3), { enrolledStudents: ['s1'] }),
+    makeSection('b-1', 'b', [{ day: 1, slot: 4 }], { enrolledStudents: ['s1'] }),
+  ]);
+
+  assert.deepEqual(
+    violationsOf(validateSchedule(schedule, input), 'lunch_period'),
+    ['Student s1 has no free lunch period: period 4 on Tue, period 5 on Tue all taken']
+  );
+});
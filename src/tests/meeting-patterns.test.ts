@@ -0,0 +1,67 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { makeInput, makeStudent, makeTeacher, makeRoom, makeCourse } from './fixtures.js';
+import { generateSchedule } from '../scheduler/index.js';
+import { buildMeetingPatterns, getCandidateMeetings } from '../scheduler/meeting-patterns.js';
+
+test('sections meet periodsPerWeek times, on days spread across the week', async () => {
+  const input = makeInput({
+    students: [makeStudent('s1', ['daily', 'mwf', 'twice'])],
+    teachers: [makeTeacher('t1', ['daily', 'mwf', 'twice'])],
+    rooms: [makeRoom('r1')],
+    courses: [
+      makeCourse('daily'),
+      makeCourse('mwf', { periodsPerWeek: 3 }),
+      makeCourse('twice', { periodsPerWeek: 2 }),
+    ],
+  });
+
+  const schedule = await generateSchedule(input);
+  const days = (courseId: string) => schedule.sections
+    .find(s => s.courseId === courseId)!.periods.map(p => p.day).sort();
+
+  assert.deepEqual(days('daily'), [0, 1, 2, 3, 4]);
+  assert.deepEqual(days('mwf'), [0, 2, 4]);
+  const twice = days('twice');
+  assert.equal(twice.length, 2);
+  assert.ok(twice[1] - twice[0] >= 2, `twice meets on days ${twice.join(', ')}`);
+  assert.equal(schedule.sections.find(s => s.courseId === 'mwf')!.enrolledStudents.length, 1);
+});
+
+test('two sections of a course get different periods', async () => {
+  const input = makeInput({
+    teachers: [makeTeacher('t1', ['bio'])],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('bio', { periodsPerWeek: 3, sections: 2 })],
+  });
+
+  const [first, second] = (await generateSchedule(input)).sections;
+  const keys = (periods: { day: number; slot: number }[]) => periods.map(p => `${p.day}-${p.slot}`);
+  assert.equal(first.periods.length, 3);
+  assert.equal(second.periods.length, 3);
+  assert.ok(!keys(first.periods).some(key => keys(second.periods).includes(key)));
+});
+
+test('meeting patterns keep a free day between meetings where they can', () => {
+  assert.deepEqual(buildMeetingPatterns(5, 5), [[0, 1, 2, 3, 4]]);
+  assert.deepEqual(buildMeetingPatterns(3, 5), [[0, 2, 4]]);
+  assert.deepEqual(buildMeetingPatterns(2, 5), [[0, 2], [0, 3], [0, 4], [1, 3], [1, 4], [2, 4]]);
+  // Four of five days can't be spread, so every combination is offered
+  assert.equal(buildMeetingPatterns(4, 5).length, 5);
+  // More meetings than days are capped at one a day
+  assert.deepEqual(buildMeetingPatterns(7, 5), [[0, 1, 2, 3, 4]]);
+});
+
+test('block courses get one candidate per start slot and day pattern, inside the day', () => {
+  const config = { periodsPerDay: 3, daysPerWeek: 5 };
+  const candidates = getCandidateMeetings(makeCourse('lab', { blockLength: 2, periodsPerWeek: 4 }), config);
+
+  // Start slots 0 and 1, six two-day patterns each
+  assert.equal(candidates.length, 12);
+  for (const periods of candidates) {
+    assert.equal(periods.length, 4);
+    assert.ok(periods.every(p => p.slot < 3));
+  }
+  assert.deepEqual(candidates[0], [{ day: 0, slot: 0 }, { day: 0, slot: 1 }, { day: 2, slot: 0 }, { day: 2, slot: 1 }]);
+});
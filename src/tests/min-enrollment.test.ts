@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { scheduleDemo, violationsOf } from './demo.js';
+import { makeInput, makeStudent, makeCourse, makeSection, makeSchedule, everyDay } from './fixtures.js';
+import { getUnderEnrolledSections, cancelUnderEnrolledSections } from '../scheduler/min-enrollment.js';
+import { validateSchedule } from '../validator/index.js';
+import type { Course, UnassignedStudent } from '../types/index.js';
+
+test('sections below minStudents are cancelled and their students placed elsewhere', async () => {
+  // Twelve students require eng-10, too few for two sections of seven
+  const { schedule, validation } = await scheduleDemo({
+    courses: courses => {
+      courses.find(c => c.id === 'eng-10')!.minStudents = 7;
+    },
+  });
+
+  const english = schedule.sections.filter(s => s.courseId === 'eng-10');
+  assert.equal(english.length, 1);
+  assert.equal(english[0].enrolledStudents.length, 12);
+  assert.deepEqual(schedule.cancelledSections?.map(c => c.courseId), ['eng-10']);
+  assert.deepEqual(schedule.unassignedStudents.filter(u => u.courseId === 'eng-10'), []);
+  assert.deepEqual(violationsOf(validation, 'min_section_enrollment'), []);
+});
+
+const course = (id: string, extra: Partial<Course> = {}) => makeCourse(id, { minStudents: 3, ...extra });
+const courseMapOf = (courses: Course[]) => new Map(courses.map(c => [c.id, c]));
+
+test('only sections below their course minimum are under-enrolled', () => {
+  const courseMap = courseMapOf([course('eng'), makeCourse('art')]);
+  const sections = [
+    makeSection('eng-1', 'eng', everyDay(0), { enrolledStudents: ['s1', 's2'] }),
+    makeSection('eng-2', 'eng', everyDay(1), { enrolledStudents: ['s3', 's4', 's5'] }),
+    makeSection('art-1', 'art', everyDay(2)),
+  ];
+
+  assert.deepEqual(getUnderEnrolledSections(sections, courseMap).map(s => s.id), ['eng-1']);
+});
+
+test('a cancelled section moves its students to one still below the minimum first', () => {
+  const courses = [course('eng')];
+  const input = makeInput({ students: ['s1', 's2', 's3', 's4', 's5'].map(id => makeStudent(id, ['eng'])), courses });
+  const sections = [
+    makeSection('eng-1', 'eng', everyDay(0), { teacherId: 't1', enrolledStudents: ['s1'] }),
+    makeSection('eng-2', 'eng', everyDay(1), { enrolledStudents: ['s2', 's3'] }),
+    makeSection('eng-3', 'eng', everyDay(2), { enrolledStudents: ['s4', 's5', 's6', 's7'] }),
+  ];
+  const unassigned: UnassignedStudent[] = [];
+
+  const cancelled = cancelUnderEnrolledSections(sections, input, courseMapOf(courses), unassigned);
+  assert.deepEqual(cancelled, [{
+    sectionId: 'eng-1',
+    courseId: 'eng',
+    teacherId: 't1',
+    enrollment: 1,
+    minStudents: 3,
+    movedStudents: [{ studentId: 's1', toSectionId: 'eng-2' }],
+  }]);
+  assert.deepEqual(sections.map(s => [s.id, s.enrolledStudents.length]), [['eng-2', 3], ['eng-3', 4]]);
+  assert.deepEqual(unassigned, []);
+});
+
+test('students with no section to move to lose the course and its corequisite partners', () => {
+  // chem must be taken with chem-lab; the only other chem-lab section clashes with s1's art
+  const courses = [makeCourse('chem', { corequisites: ['chem-lab'] }), course('chem-lab'), makeCourse('art')];
+  const input = makeInput({ students: [makeStudent('s1', ['chem', 'chem-lab', 'art'])], courses });
+  const sections = [
+    makeSection('chem-1', 'chem', everyDay(0), { enrolledStudents: ['s1'] }),
+    makeSection('chem-lab-1', 'chem-lab', everyDay(1), { enrolledStudents: ['s1'] }),
+    makeSection('chem-lab-2', 'chem-lab', everyDay(2), { enrolledStudents: ['s2', 's3', 's4'] }),
+    makeSection('art-1', 'art', everyDay(2), { enrolledStudents: ['s1'] }),
+  ];
+  const unassigned: UnassignedStudent[] = [];
+
+  const cancelled = cancelUnderEnrolledSections(sections, input, courseMapOf(courses), unassigned);
+  assert.deepEqual(cancelled.map(c => c.movedStudents), [[{ studentId: 's1' }]]);
+  assert.deepEqual(sections.find(s => s.id === 'chem-1')?.enrolledStudents, []);
+  assert.deepEqual(unassigned, [
+    {
+      studentId: 's1',
+      courseId: 'chem-lab',
+      reason: 'Section chem-lab-1 cancelled (1 enrolled, minStudents 3); no other section of chem-lab fits',
+    },
+    { studentId: 's1', courseId: 'chem', reason: 'Dropped with corequisite chem-lab (section chem-lab-1 cancelled)' },
+  ]);
+});
+
+test('the validator flags sections below minStudents', () => {
+  const input = makeInput({ courses: [course('eng')] });
+  const schedule = makeSchedule([makeSection('eng-1', 'eng', everyDay(0), { enrolledStudents: ['s1'] })]);
+
+  assert.deepEqual(
+    violationsOf(validateSchedule(schedule, input), 'min_section_enrollment'),
+    ['Section eng-1 has 1 students (min: 3)']
+  );
+});
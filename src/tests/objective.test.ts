@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { makeInput, makeStudent, makeTeacher, makeRoom, makeCourse, makeSection, makePreference, everyDay } from './fixtures.js';
+import { solveScheduleILP } from '../scheduler/ilp-solver.js';
+import { generateSchedule } from '../scheduler/index.js';
+import { generateReport } from '../reporter/index.js';
+import { validateSchedule } from '../validator/index.js';
+import { SavedScheduleSchema } from '../parser/schemas.js';
+import type { ObjectiveTerm } from '../types/index.js';
+
+const total = (terms: ObjectiveTerm[] = []) => terms.reduce((sum, t) => sum + t.value, 0);
+
+test('each term reports its value with the SOFT: line that weighs it', async () => {
+  const input = makeInput({
+    students: [makeStudent('s1', ['eng'], { electivePreferences: ['art', 'music'] })],
+    courses: [makeCourse('eng'), makeCourse('art'), makeCourse('music')],
+    preferences: [makePreference('student_elective_preference', 0.5)],
+  });
+  const sections = [
+    makeSection('eng-1', 'eng', everyDay(0)),
+    makeSection('art-1', 'art', everyDay(1)),
+    makeSection('music-1', 'music', everyDay(2)),
+  ];
+
+  const result = await solveScheduleILP(sections, input);
+  assert.deepEqual(result.objectiveBreakdown, [
+    { term: 'required_courses', value: 1000 },
+    { term: 'elective_preferences', value: 9.5, preferenceId: 'soft-student_elective_preference', weight: 0.5 },
+  ]);
+  assert.equal(total(result.objectiveBreakdown), result.objectiveValue);
+});
+
+test('BALANCED_SECTIONS outweighs a period preference, and sections go unbalanced without it', async () => {
+  // Both students would rather have eng in period 1 on Monday
+  const students = ['s1', 's2'].map(id => makeStudent(id, ['eng'], {
+    constraints: [{ type: 'prefer', periods: [{ day: 0, slot: 0 }] }],
+  }));
+  const sections = [makeSection('eng-1', 'eng', everyDay(0)), makeSection('eng-2', 'eng', everyDay(1))];
+  const solve = (weight?: number) => solveScheduleILP(sections, makeInput({
+    students,
+    courses: [makeCourse('eng', { sections: 2 })],
+    preferences: weight === undefined ? [] : [makePreference('balanced_class_sizes', weight)],
+  }));
+
+  const unbalanced = await solve();
+  assert.deepEqual(unbalanced.assignments.get('s2'), ['eng-1']);
+  assert.equal(unbalanced.objectiveBreakdown?.some(t => t.term === 'balanced_sections'), false);
+
+  const balanced = await solve(1);
+  assert.deepEqual([...balanced.assignments.values()].flat().sort(), ['eng-1', 'eng-2']);
+  assert.deepEqual(balanced.objectiveBreakdown?.find(t => t.term === 'balanced_sections'), {
+    term: 'balanced_sections',
+    value: 0,
+    preferenceId: 'soft-balanced_class_sizes',
+    weight: 1,
+  });
+});
+
+test('the breakdown is saved with the schedule and shown in the report', async () => {
+  const input = makeInput({
+    students: [makeStudent('s1', ['eng'])],
+    teachers: [makeTeacher('t1', ['eng'])],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('eng')],
+  });
+
+  const schedule = await generateSchedule(input);
+  assert.deepEqual(schedule.metadata.objectiveBreakdown, [{ term: 'required_courses', value: 1000 }]);
+  assert.deepEqual(
+    SavedScheduleSchema.parse(JSON.parse(JSON.stringify(schedule))).metadata.objectiveBreakdown,
+    schedule.metadata.objectiveBreakdown
+  );
+
+  const report = generateReport(schedule, input, validateSchedule(schedule, input), { format: 'markdown' });
+  assert.match(report, /\| required_courses \| - \| 1000 \|/);
+});
@@ -0,0 +1,127 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { makeInput, makeRoom, makeCourse, makeSection, makeSchedule } from './fixtures.js';
+import { importOneRoster, exportOneRoster, parseGrades } from '../converter/oneroster.js';
+import { parseCsv } from '../converter/csv.js';
+import { loadSchedule } from '../parser/schedule-loader.js';
+
+test('OneRoster grade codes become grade numbers', () => {
+  assert.deepEqual(parseGrades('09, 10'), [9, 10]);
+  assert.deepEqual(parseGrades('KG,01'), [0, 1]);
+  assert.deepEqual(parseGrades('PK,UG,Other'), []);
+  assert.deepEqual(parseGrades(''), []);
+});
+
+test('users, courses, classes and enrollments become students, teachers and courses', () => {
+  const result = importOneRoster({
+    users: [
+      'sourcedId,status,enabledUser,role,givenName,familyName,grades',
+      'u1,,true,student,Jane,Doe,09',
+      'u2,,true,teacher,Ann,Lee,',
+      'u3,,true,student,No,Grade,UG',
+      'u4,tobedeleted,true,student,Gone,Away,10',
+      'u5,,true,administrator,Pat,Boss,',
+      'u1,,true,student,Jane,Again,09',
+    ].join('\n'),
+    courses: [
+      'sourcedId,title,grades',
+      'c-eng,English 9,09',
+      'c-bio,Biology,"09,10"',
+    ].join('\n'),
+    classes: [
+      'sourcedId,courseSourcedId',
+      'k1,c-eng',
+      'k2,c-eng',
+      'k3,c-art',
+    ].join('\n'),
+    enrollments: [
+      'sourcedId,classSourcedId,userSourcedId,role',
+      'e1,k1,u1,student',
+      'e2,k1,u2,teacher',
+      'e3,k2,u2,teacher',
+      'e4,k3,u1,student',
+    ].join('\n'),
+  }, { maxSections: 1 });
+
+  assert.deepEqual(result.students, [
+    { id: 'u1', name: 'Jane Doe', grade: 9, requiredCourses: ['c-eng'], electivePreferences: [] },
+  ]);
+  // Teaching two classes raises maxSections above the default of 1
+  assert.deepEqual(result.teachers, [{ id: 'u2', name: 'Ann Lee', subjects: ['c-eng'], maxSections: 2 }]);
+  assert.deepEqual(result.courses, [
+    { id: 'c-eng', name: 'English 9', maxStudents: 30, periodsPerWeek: 5, sections: 2, gradeRestrictions: [9] },
+    { id: 'c-bio', name: 'Biology', maxStudents: 30, periodsPerWeek: 5, sections: 1, gradeRestrictions: [9, 10] },
+  ]);
+  assert.deepEqual(result.skipped, [
+    { file: 'classes.csv', row: 4, reason: 'Unknown course c-art for class k3' },
+    { file: 'enrollments.csv', row: 5, reason: 'Unknown class k3' },
+    { file: 'users.csv', row: 4, reason: 'Student u3 has no numeric grade ("UG")' },
+    { file: 'users.csv', row: 7, reason: 'Duplicate sourcedId u1' },
+  ]);
+});
+
+test('a schedule exports as classes with their teacher and student enrollments', () => {
+  const input = makeInput({
+    courses: [makeCourse('eng', { name: 'English', gradeRestrictions: [0, 9] })],
+    rooms: [makeRoom('r1', { name: 'Room 101' })],
+  });
+  const schedule = makeSchedule([
+    makeSection('eng-1', 'eng', [{ day: 0, slot: 2 }, { day: 1, slot: 0 }, { day: 2, slot: 2 }], {
+      teacherId: 't1',
+      roomId: 'r1',
+      enrolledStudents: ['s1', 's2'],
+    }),
+  ]);
+
+  const exported = exportOneRoster(schedule, input, { schoolSourcedId: 'sch', termSourcedIds: ['fall', 'spring'] });
+  const [classHeader, classRow] = parseCsv(exported.classes);
+  const classes = Object.fromEntries(classHeader.map((key, i) => [key, classRow[i]]));
+  assert.deepEqual(
+    [classes.title, classes.grades, classes.courseSourcedId, classes.location, classes.termSourcedIds, classes.periods],
+    ['English - Section 1', 'KG,09', 'eng', 'Room 101', 'fall,spring', '1,3']
+  );
+
+  const [, ...enrollments] = parseCsv(exported.enrollments);
+  assert.deepEqual(enrollments.map(row => [row[0], row[5], row[6], row[7]]), [
+    ['eng-1-t1', 't1', 'teacher', 'true'],
+    ['eng-1-s1', 's1', 'student', 'false'],
+    ['eng-1-s2', 's2', 'student', 'false'],
+  ]);
+  assert.ok(parseCsv(exported.manifest).some(([key, value]) => key === 'file.enrollments' && value === 'bulk'));
+});
+
+test('saved schedules load in either section format and report schema errors by path', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'schedule-'));
+  const write = async (name: string, data: unknown) => {
+    const path = join(dir, name);
+    await writeFile(path, JSON.stringify(data));
+    return path;
+  };
+  try {
+    const { metadata } = makeSchedule([]);
+    const raw = makeSection('eng-1', 'eng', [{ day: 0, slot: 0 }], { teacherId: 't1', enrolledStudents: ['s1'] });
+    const report = { id: 'eng-2', course: 'eng', room: 'r1', periods: [], students: ['s2'], capacity: 30 };
+
+    const loaded = await loadSchedule(await write('ok.json', { sections: [raw, report], metadata }));
+    assert.deepEqual(loaded.sections, [
+      raw,
+      { id: 'eng-2', courseId: 'eng', teacherId: undefined, roomId: 'r1', periods: [], enrolledStudents: ['s2'], capacity: 30 },
+    ]);
+    assert.deepEqual(loaded.unassignedStudents, []);
+
+    const bad = await write('bad.json', { sections: [{ ...raw, periods: [{ day: 0 }] }], metadata: { ...metadata, score: 'high' } });
+    await assert.rejects(loadSchedule(bad), {
+      message: [
+        'Invalid schedule (2 errors):',
+        `${bad} at sections[0].periods[0].slot: error: Required`,
+        `${bad} at metadata.score: error: Expected number, received string`,
+      ].join('\n'),
+    });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
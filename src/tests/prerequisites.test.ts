@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { scheduleDemo, violationsOf } from './demo.js';
+import { makeInput, makeStudent, makeTeacher, makeRoom, makeCourse } from './fixtures.js';
+import { generateSchedule } from '../scheduler/index.js';
+import { getMissingPrerequisites, prerequisiteReason } from '../scheduler/eligibility.js';
+import { validateSchedule } from '../validator/index.js';
+
+test('students are only enrolled in courses whose prerequisites they completed', async () => {
+  // s-013 requires math-alg2 but has not taken math-alg1
+  const { input, schedule, validation } = await scheduleDemo({
+    students: students => {
+      students.find(s => s.id === 's-013')!.completedCourses = [];
+    },
+  });
+  const courseMap = new Map(input.courses.map(c => [c.id, c]));
+  const studentMap = new Map(input.students.map(s => [s.id, s]));
+
+  for (const section of schedule.sections) {
+    for (const studentId of section.enrolledStudents) {
+      const completed = studentMap.get(studentId)!.completedCourses ?? [];
+      for (const prerequisite of courseMap.get(section.courseId)!.prerequisites ?? []) {
+        assert.ok(completed.includes(prerequisite), `${studentId} in ${section.id} without ${prerequisite}`);
+      }
+    }
+  }
+  assert.deepEqual(
+    schedule.unassignedStudents
+      .filter(u => u.studentId === 's-013')
+      .map(u => [u.courseId, u.reason]),
+    [['math-alg2', 'Missing prerequisite: math-alg1']]
+  );
+  assert.deepEqual(violationsOf(validation, 'prerequisites'), []);
+});
+
+test('only missing prerequisites are listed, and only for students with a course history', () => {
+  const calculus = makeCourse('calc', { prerequisites: ['alg1', 'alg2'] });
+
+  assert.deepEqual(getMissingPrerequisites(makeStudent('s1', [], { completedCourses: ['alg1'] }), calculus), ['alg2']);
+  assert.deepEqual(getMissingPrerequisites(makeStudent('s2', [], { completedCourses: ['alg1', 'alg2'] }), calculus), []);
+  assert.deepEqual(getMissingPrerequisites(makeStudent('s3', []), calculus), []);
+  assert.equal(prerequisiteReason(['alg1', 'alg2']), 'Missing prerequisites: alg1, alg2');
+});
+
+test('a student without the prerequisite is left unassigned, and the validator flags a manual enrollment', async () => {
+  const input = makeInput({
+    students: [
+      makeStudent('ready', ['alg2'], { completedCourses: ['alg1'] }),
+      makeStudent('not-ready', ['alg2'], { completedCourses: [] }),
+    ],
+    teachers: [makeTeacher('t1', ['alg2'])],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('alg2', { prerequisites: ['alg1'] })],
+  });
+
+  const schedule = await generateSchedule(input);
+  assert.deepEqual(schedule.sections.flatMap(s => s.enrolledStudents), ['ready']);
+  assert.deepEqual(schedule.unassignedStudents.map(u => [u.studentId, u.reason]), [['not-ready', 'Missing prerequisite: alg1']]);
+
+  schedule.sections[0].enrolledStudents.push('not-ready');
+  assert.equal(violationsOf(validateSchedule(schedule, input), 'prerequisites').length, 1);
+});
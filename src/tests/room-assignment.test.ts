@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { violationsOf } from './demo.js';
+import {
+  makeInput,
+  makeTeacher,
+  makeRoom,
+  makeCourse,
+  makeSection,
+  makeSchedule,
+  makePreference,
+  everyDay,
+} from './fixtures.js';
+import { getCandidateRooms, solveRoomAssignment, explainMissingRoom } from '../scheduler/room-assignment.js';
+import { validateSchedule } from '../validator/index.js';
+
+const students = (count: number) => [...Array(count).keys()].map(i => `s${i + 1}`);
+
+test('candidate rooms need the features, the seats and the periods', () => {
+  const section = makeSection('chem-1', 'chem', everyDay(0), { enrolledStudents: students(20) });
+  const course = makeCourse('chem', { requiredFeatures: ['lab'] });
+  const rooms = [
+    makeRoom('lab', { features: ['lab'] }),
+    makeRoom('plain'),
+    makeRoom('small-lab', { capacity: 10, features: ['lab'] }),
+    makeRoom('busy-lab', { features: ['lab'], unavailable: [{ day: 2, slot: 0 }] }),
+  ];
+
+  assert.deepEqual(getCandidateRooms(section, course, rooms).map(r => r.id), ['lab']);
+});
+
+test('an empty section still needs a room with at least one seat', () => {
+  const section = makeSection('art-1', 'art', everyDay(0));
+  const rooms = [makeRoom('closet', { capacity: 0 }), makeRoom('studio')];
+
+  assert.deepEqual(getCandidateRooms(section, makeCourse('art'), rooms).map(r => r.id), ['studio']);
+
+  const input = makeInput({ courses: [makeCourse('art')], rooms: [rooms[0]] });
+  assert.deepEqual(explainMissingRoom(section, [section], input), {
+    sectionId: 'art-1',
+    reason: 'No room seats 1 student (largest: 0)',
+  });
+});
+
+test('room assignment keeps the lab free for the course that needs it', async () => {
+  const input = makeInput({
+    courses: [makeCourse('chem', { requiredFeatures: ['lab'] }), makeCourse('eng')],
+    rooms: [makeRoom('lab', { features: ['lab'] }), makeRoom('r1')],
+  });
+  // Both meet at the same time, English listed first
+  const sections = [
+    makeSection('eng-1', 'eng', everyDay(0), { enrolledStudents: students(10) }),
+    makeSection('chem-1', 'chem', everyDay(0), { enrolledStudents: students(10) }),
+  ];
+
+  const result = await solveRoomAssignment(sections, input);
+  assert.equal(result.success, true);
+  assert.deepEqual(Object.fromEntries(result.rooms), { 'eng-1': 'r1', 'chem-1': 'lab' });
+});
+
+test('room assignment prefers the snugger room', async () => {
+  const input = makeInput({
+    courses: [makeCourse('eng')],
+    rooms: [makeRoom('hall', { capacity: 200 }), makeRoom('r1', { capacity: 25 })],
+  });
+  const sections = [makeSection('eng-1', 'eng', everyDay(0), { enrolledStudents: students(20) })];
+
+  const result = await solveRoomAssignment(sections, input);
+  assert.equal(result.rooms.get('eng-1'), 'r1');
+});
+
+test('a section that loses its only room is explained by who holds it', async () => {
+  const input = makeInput({ courses: [makeCourse('eng')], rooms: [makeRoom('r1')] });
+  const sections = [
+    makeSection('eng-1', 'eng', everyDay(0), { enrolledStudents: students(10) }),
+    makeSection('eng-2', 'eng', everyDay(0), { enrolledStudents: students(5) }),
+  ];
+
+  const result = await solveRoomAssignment(sections, input);
+  assert.equal(result.rooms.size, 1);
+  const roomed = sections.map(s => ({ ...s, roomId: result.rooms.get(s.id) }));
+  const unroomed = roomed.find(s => !s.roomId)!;
+  const holder = roomed.find(s => s.roomId)!;
+  assert.deepEqual(explainMissingRoom(unroomed, roomed, input).reason, `Suitable rooms are taken during its periods: r1 (${holder.id})`);
+});
+
+test('with MINIMIZE_ROOM_CHANGES a teacher keeps one room', async () => {
+  const input = makeInput({
+    teachers: [makeTeacher('t1', ['eng'])],
+    courses: [makeCourse('eng')],
+    rooms: [makeRoom('r1', { capacity: 40 }), makeRoom('r2', { capacity: 20 })],
+    preferences: [makePreference('minimize_room_changes')],
+  });
+  // The snug fit alone would split them: 20 students in r2, 30 in r1
+  const sections = [
+    makeSection('eng-1', 'eng', everyDay(0), { teacherId: 't1', enrolledStudents: students(20) }),
+    makeSection('eng-2', 'eng', everyDay(1), { teacherId: 't1', enrolledStudents: students(30) }),
+  ];
+
+  const result = await solveRoomAssignment(sections, input);
+  assert.deepEqual(Object.fromEntries(result.rooms), { 'eng-1': 'r1', 'eng-2': 'r1' });
+
+  const split = makeSchedule([
+    { ...sections[0], roomId: 'r2' },
+    { ...sections[1], roomId: 'r1' },
+  ]);
+  assert.deepEqual(
+    violationsOf(validateSchedule(split, input), 'minimize_room_changes'),
+    ['1 teachers teach in more than one room (1 extra rooms)']
+  );
+});
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { makeInput, makeStudent, makeTeacher, makeRoom, makeCourse } from './fixtures.js';
+import { recommendSections } from '../scheduler/section-planning.js';
+import { generateSchedule } from '../scheduler/index.js';
+import { SavedScheduleSchema } from '../parser/schemas.js';
+import type { Student, CourseId } from '../types/index.js';
+
+const requiring = (count: number, courseId: CourseId, extra: Partial<Student> = {}) =>
+  [...Array(count).keys()].map(i => makeStudent(`${courseId}-s${i + 1}`, [courseId], extra));
+
+const recommend = (...parts: Parameters<typeof makeInput>) =>
+  recommendSections(makeInput(...parts)).map(r => [r.courseId, r.recommended, r.limitedBy, r.justification]);
+
+test('sections follow required and rank-weighted elective demand', () => {
+  const [recommendation] = recommendSections(makeInput({
+    students: [
+      ...requiring(45, 'eng'),
+      makeStudent('e1', [], { electivePreferences: ['eng'] }),
+      makeStudent('e2', [], { electivePreferences: ['art', 'eng'] }),
+      makeStudent('e3', [], { electivePreferences: ['eng'], grade: 12 }),
+    ],
+    teachers: [makeTeacher('t1', ['eng'])],
+    rooms: [makeRoom('r1'), makeRoom('r2')],
+    courses: [makeCourse('eng', { maxStudents: 20, gradeRestrictions: [9] })],
+  }));
+
+  assert.deepEqual(recommendation, {
+    courseId: 'eng',
+    current: 1,
+    recommended: 3,
+    requiredDemand: 45,
+    electiveDemand: 1.9,
+    sectionSize: 20,
+    limitedBy: 'demand',
+    justification: '45 required + 1.9 weighted elective requests at 20 per section',
+  });
+});
+
+test('the largest suitable room caps the section size', () => {
+  const [recommendation] = recommendSections(makeInput({
+    students: requiring(20, 'chem'),
+    teachers: [makeTeacher('t1', ['chem'])],
+    rooms: [makeRoom('lab', { capacity: 15, features: ['lab'] }), makeRoom('hall', { capacity: 100 })],
+    courses: [makeCourse('chem', { requiredFeatures: ['lab'], periodsPerWeek: 1 })],
+  }));
+
+  assert.equal(recommendation.sectionSize, 15);
+  assert.equal(recommendation.recommended, 2);
+});
+
+test('minStudents, teachers and rooms cap the count', () => {
+  assert.deepEqual(recommend({
+    students: requiring(25, 'eng'),
+    teachers: [makeTeacher('t1', ['eng'])],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('eng', { maxStudents: 20, minStudents: 15 })],
+  }), [['eng', 1, 'min_students', '25 required + 0 weighted elective requests; more sections would fall below minStudents 15']]);
+
+  assert.deepEqual(recommend({
+    students: requiring(60, 'eng'),
+    teachers: [makeTeacher('t1', ['eng'], { maxSections: 2 })],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('eng', { maxStudents: 20 })],
+  }), [['eng', 2, 'teachers', '60 required + 0 weighted elective requests want 3; qualified teachers (t1) have time for 2']]);
+
+  // One room, one period a day: room time for a single daily section
+  assert.deepEqual(recommend({
+    students: requiring(40, 'eng'),
+    teachers: [makeTeacher('t1', ['eng']), makeTeacher('t2', ['eng'])],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('eng', { maxStudents: 20 })],
+    config: { periodsPerDay: 1, daysPerWeek: 5 },
+  }), [['eng', 1, 'rooms', '40 required + 0 weighted elective requests want 2; suitable rooms (r1) have time for 1']]);
+});
+
+test('courses nobody requests get no sections, and required courses are planned first', () => {
+  assert.deepEqual(recommend({
+    students: [...requiring(10, 'eng'), makeStudent('e1', [], { electivePreferences: ['art'] })],
+    // t1's only section goes to the required course, though art is listed first
+    teachers: [makeTeacher('t1', ['art', 'eng'], { maxSections: 1 })],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('art'), makeCourse('eng'), makeCourse('latin')],
+  }), [
+    ['art', 0, 'teachers', '0 required + 1 weighted elective requests want 1; qualified teachers (t1) have time for 0'],
+    ['eng', 1, 'demand', '10 required + 0 weighted elective requests at 30 per section'],
+    ['latin', 0, 'demand', 'No eligible students request it'],
+  ]);
+});
+
+test('autoSections schedules the recommended counts and saves them with the schedule', async () => {
+  const input = makeInput({
+    students: requiring(3, 'eng'),
+    teachers: [makeTeacher('t1', ['eng'])],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('eng', { maxStudents: 2, sections: 1 })],
+  });
+
+  const schedule = await generateSchedule(input, { autoSections: true });
+  assert.equal(schedule.sections.length, 2);
+  assert.deepEqual(schedule.unassignedStudents, []);
+  assert.deepEqual(
+    SavedScheduleSchema.parse(JSON.parse(JSON.stringify(schedule))).metadata.sectionRecommendations,
+    schedule.metadata.sectionRecommendations
+  );
+  assert.equal(schedule.metadata.sectionRecommendations?.[0].recommended, 2);
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { violationsOf } from './demo.js';
+import { makeInput, makeStudent, makeTeacher, makeRoom, makeCourse } from './fixtures.js';
+import { generateSchedule } from '../scheduler/index.js';
+import { validateSchedule } from '../validator/index.js';
+import type { Student, StudentConstraint } from '../types/index.js';
+
+// Two sections of one course; time slots don't depend on the students, so
+// a first run shows where each section meets
+async function twoSections(constraints: (first: StudentConstraint['periods']) => StudentConstraint[]) {
+  const input = makeInput({
+    students: [makeStudent('s1', ['bio'])],
+    teachers: [makeTeacher('t1', ['bio'])],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('bio', { sections: 2 })],
+  });
+  const [first] = (await generateSchedule(input)).sections;
+
+  const student: Student = { ...input.students[0], constraints: constraints(first.periods) };
+  const constrained = { ...input, students: [student] };
+  const schedule = await generateSchedule(constrained);
+  return { input: constrained, schedule, first: first.id };
+}
+
+test('students are never placed in a section during their unavailable periods', async () => {
+  const { input, schedule, first } = await twoSections(periods => [{ type: 'unavailable', periods: periods!.slice(0, 1) }]);
+
+  const placed = schedule.sections.find(s => s.enrolledStudents.includes('s1'));
+  assert.ok(placed && placed.id !== first, `s1 placed in ${placed?.id}`);
+  assert.deepEqual(violationsOf(validateSchedule(schedule, input), 'student_availability'), []);
+
+  // The validator catches a manual move into the blocked section
+  placed.enrolledStudents = [];
+  schedule.sections.find(s => s.id === first)!.enrolledStudents = ['s1'];
+  const validation = validateSchedule(schedule, input);
+  assert.equal(validation.hardConstraintViolations.filter(v => v.constraintId === 'student_availability').length, 1);
+});
+
+test('avoided periods steer the student to the other section', async () => {
+  const { input, schedule, first } = await twoSections(periods => [{ type: 'avoid', periods }]);
+
+  const placed = schedule.sections.find(s => s.enrolledStudents.includes('s1'));
+  assert.ok(placed && placed.id !== first, `s1 placed in ${placed?.id}`);
+  assert.deepEqual(violationsOf(validateSchedule(schedule, input), 'student_availability'), []);
+});
+
+test('a student unavailable for every section is left unassigned', async () => {
+  const everyPeriod = [...Array(5).keys()].flatMap(day => [...Array(8).keys()].map(slot => ({ day, slot })));
+  const { schedule } = await twoSections(() => [{ type: 'unavailable', periods: everyPeriod }]);
+
+  assert.deepEqual(schedule.sections.flatMap(s => s.enrolledStudents), []);
+  assert.deepEqual(schedule.unassignedStudents.map(u => u.studentId), ['s1']);
+});
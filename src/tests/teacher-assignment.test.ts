@@ -0,0 +1,90 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { violationsOf } from './demo.js';
+import {
+  makeInput,
+  makeTeacher,
+  makeCourse,
+  makeSection,
+  makeSchedule,
+  makePreference,
+  everyDay,
+} from './fixtures.js';
+import { getAvailableMeetings, getQualifiedTeachers, solveTeacherAssignment } from '../scheduler/teacher-assignment.js';
+import { validateSchedule } from '../validator/index.js';
+import type { Period } from '../types/index.js';
+
+const config = { periodsPerDay: 2, daysPerWeek: 5 };
+
+// Every period of the week except the given ones
+function allBut(...free: Period[]): Period[] {
+  return [...Array(config.daysPerWeek).keys()].flatMap(day => [...Array(config.periodsPerDay).keys()]
+    .map(slot => ({ day, slot }))
+    .filter(p => !free.some(f => f.day === p.day && f.slot === p.slot)));
+}
+
+test('a teacher free for a single period can only teach one section that meets once', async () => {
+  const course = makeCourse('art', { periodsPerWeek: 1 });
+  const teacher = makeTeacher('t1', ['art'], { unavailable: allBut({ day: 0, slot: 0 }) });
+  const input = makeInput({ teachers: [teacher], courses: [course], config });
+
+  assert.deepEqual(getAvailableMeetings(course, teacher, config), [[{ day: 0, slot: 0 }]]);
+
+  const sections = [makeSection('art-1', 'art', []), makeSection('art-2', 'art', [])];
+  const result = await solveTeacherAssignment(sections, input);
+  assert.equal(result.success, true);
+  assert.equal(result.teachers.size, 1);
+});
+
+test('a teacher without time for any meeting pattern is not qualified', () => {
+  const daily = makeCourse('eng', { periodsPerWeek: 5 });
+  const teachers = [
+    makeTeacher('t1', ['eng'], { unavailable: everyDay(0).slice(1).concat(everyDay(1).slice(1)) }),
+    makeTeacher('t2', ['eng'], { unavailable: [{ day: 3, slot: 0 }] }),
+    makeTeacher('t3', ['math']),
+  ];
+
+  assert.deepEqual(getQualifiedTeachers(daily, teachers, config).map(t => t.id), ['t2']);
+});
+
+test('teachers take no more than maxSections sections', async () => {
+  const input = makeInput({
+    teachers: [makeTeacher('t1', ['eng'], { maxSections: 1 })],
+    courses: [makeCourse('eng')],
+  });
+  const sections = [makeSection('eng-1', 'eng', []), makeSection('eng-2', 'eng', [])];
+
+  const result = await solveTeacherAssignment(sections, input);
+  assert.equal(result.teachers.size, 1);
+
+  const overloaded = makeSchedule([
+    makeSection('eng-1', 'eng', everyDay(0), { teacherId: 't1' }),
+    makeSection('eng-2', 'eng', everyDay(1), { teacherId: 't1' }),
+  ]);
+  assert.deepEqual(
+    violationsOf(validateSchedule(overloaded, input), 'teacher_max_sections'),
+    ['Teacher t1 teaches 2 sections (max: 1)']
+  );
+});
+
+test('BALANCED_TEACHER_LOAD splits sections between equally qualified teachers', async () => {
+  const input = makeInput({
+    teachers: [makeTeacher('t1', ['eng'], { maxSections: 2 }), makeTeacher('t2', ['eng'], { maxSections: 2 })],
+    courses: [makeCourse('eng')],
+    preferences: [makePreference('balanced_teacher_load')],
+  });
+  const sections = [makeSection('eng-1', 'eng', []), makeSection('eng-2', 'eng', [])];
+
+  const result = await solveTeacherAssignment(sections, input);
+  assert.deepEqual(new Set(result.teachers.values()), new Set(['t1', 't2']));
+
+  const lopsided = makeSchedule([
+    makeSection('eng-1', 'eng', everyDay(0), { teacherId: 't1' }),
+    makeSection('eng-2', 'eng', everyDay(1), { teacherId: 't1' }),
+  ]);
+  assert.deepEqual(
+    violationsOf(validateSchedule(lopsided, input), 'balanced_teacher_load'),
+    ['Teacher t1 teaches 2 of 2 sections while t2 teaches 0 of 2']
+  );
+});
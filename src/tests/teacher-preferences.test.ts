@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { violationsOf } from './demo.js';
+import { makeInput, makeTeacher, makeRoom, makeCourse, makePreference, everyDay } from './fixtures.js';
+import { generateSchedule } from '../scheduler/index.js';
+import { validateSchedule } from '../validator/index.js';
+import type { Schedule, ScheduleInput, TeacherPreference } from '../types/index.js';
+
+function withPreference(preference: TeacherPreference, weight?: number): ScheduleInput {
+  return makeInput({
+    teachers: [makeTeacher('t1', ['art'], { preferences: [preference] })],
+    rooms: [makeRoom('r1')],
+    courses: [makeCourse('art')],
+    preferences: weight === undefined ? [] : [makePreference('teacher_period_preference', weight)],
+  });
+}
+
+const slotsOf = (schedule: Schedule) => [...new Set(schedule.sections[0].periods.map(p => p.slot))];
+
+test('sections move to the periods their teacher prefers', async () => {
+  const afternoons: TeacherPreference = { type: 'prefer', periods: everyDay(5), weight: 1 };
+  const input = withPreference(afternoons, 0.4);
+
+  const schedule = await generateSchedule(input);
+  assert.deepEqual(slotsOf(schedule), [5]);
+  assert.deepEqual(violationsOf(validateSchedule(schedule, input), 'teacher_preferences'), []);
+});
+
+test('sections move away from periods their teacher avoids', async () => {
+  const mornings: TeacherPreference = { type: 'avoid', periods: [0, 1, 2].flatMap(slot => everyDay(slot)), weight: 1 };
+
+  const slots = slotsOf(await generateSchedule(withPreference(mornings, 0.4)));
+  assert.ok(slots.every(slot => slot > 2), `meets in slot ${slots.join(', ')}`);
+});
+
+test('without a TEACHER_PREFERENCES line, preferences are only reported', async () => {
+  const input = withPreference({ type: 'prefer', periods: everyDay(5), weight: 1 });
+
+  const schedule = await generateSchedule(input);
+  assert.deepEqual(slotsOf(schedule), [0]);
+  assert.deepEqual(violationsOf(validateSchedule(schedule, input), 'teacher_preferences'), ['0/5 teacher period preferences honored (1 teachers affected)']);
+});
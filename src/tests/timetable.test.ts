@@ -0,0 +1,45 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { sectionsByStudent } from './demo.js';
+import { makeInput, makeStudent, makeTeacher, makeRoom, makeCourse, makeSection } from './fixtures.js';
+import { generateSchedule } from '../scheduler/index.js';
+import { solveTimetableILP } from '../scheduler/timetable-ilp.js';
+
+test('decomposed timetabling keeps apart courses that share a student', async () => {
+  const input = makeInput({
+    students: [makeStudent('s1', ['art', 'music'])],
+    teachers: [makeTeacher('t1', ['art']), makeTeacher('t2', ['music'])],
+    rooms: [makeRoom('r1'), makeRoom('r2')],
+    courses: [makeCourse('art'), makeCourse('music')],
+    config: { periodsPerDay: 2, daysPerWeek: 5 },
+  });
+  const sections = [
+    makeSection('art-1', 'art', [], { teacherId: 't1' }),
+    makeSection('music-1', 'music', [], { teacherId: 't2' }),
+  ];
+
+  const result = await solveTimetableILP(sections, input, 10);
+  assert.ok(result.success, result.status);
+  const art = result.sectionPeriods.get('art-1')!.map(p => p.slot);
+  const music = result.sectionPeriods.get('music-1')!.map(p => p.slot);
+  assert.ok(!art.some(slot => music.includes(slot)), `art in ${art}, music in ${music}`);
+});
+
+for (const timetabling of ['decomposed', 'joint'] as const) {
+  test(`${timetabling} timetabling fits a teacher's three courses into a three-period day`, async () => {
+    const input = makeInput({
+      students: [makeStudent('s1', ['a', 'b', 'c'])],
+      teachers: [makeTeacher('t1', ['a', 'b', 'c'])],
+      rooms: [makeRoom('r1')],
+      courses: [makeCourse('a'), makeCourse('b'), makeCourse('c')],
+      config: { periodsPerDay: 3, daysPerWeek: 5 },
+    });
+
+    const schedule = await generateSchedule(input, { timetabling, timetablingTimeLimit: 10 });
+    const slots = schedule.sections.map(s => s.periods[0].slot).sort();
+    assert.deepEqual(slots, [0, 1, 2]);
+    assert.equal(sectionsByStudent(schedule.sections).get('s1')?.length, 3);
+    assert.deepEqual(schedule.unassignedStudents, []);
+  });
+}
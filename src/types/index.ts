@@ -27,9 +27,18 @@ export interface Student {
   grade: number;
   requiredCourses: CourseId[];
   electivePreferences: CourseId[]; // Ordered by preference
+  electiveCount?: number;          // Exactly this many of electivePreferences (default: any number)
+  courseGroups?: CourseGroup[];    // "Any of" needs, e.g. one of Spanish I and French I
+  completedCourses?: CourseId[];   // Course history, checked against prerequisites
   constraints?: StudentConstraint[];
 }
 
+// `count` (default 1) of the courses, ordered by preference
+export interface CourseGroup {
+  courses: CourseId[];
+  count?: number;
+}
+
 export interface StudentConstraint {
   type: 'unavailable' | 'prefer' | 'avoid';
   periods?: Period[];
@@ -66,6 +75,7 @@ export interface Course {
   minStudents?: number;
   maxStudents: number;
   periodsPerWeek: number;
+  blockLength?: number;         // Consecutive periods per meeting (default 1)
   gradeRestrictions?: number[]; // Which grades can take this course
   prerequisites?: CourseId[];
   corequisites?: CourseId[];    // Must be taken same semester
@@ -98,13 +108,18 @@ export interface ScheduleConfig {
   daysPerWeek: number;
   maxStudentsPerSection?: number;
   allowConcurrentSections?: boolean;
+  lunchSlots?: number[];        // 0-based slots that can serve as lunch
 }
 
+// key=value parameters from constraints.txt, typed per constraint
+export type ConstraintParamValue = number | string | number[] | string[];
+export type ConstraintParams = Record<string, ConstraintParamValue>;
+
 export interface ScheduleConstraint {
   id: string;
   type: ConstraintType;
   description: string;
-  params: Record<string, unknown>;
+  params: ConstraintParams;
   priority: 'hard' | 'soft';
   weight?: number; // For soft constraints, 0-1
 }
@@ -117,6 +132,8 @@ export type ConstraintType =
   | 'teacher_availability'
   | 'student_availability'
   | 'consecutive_periods'
+  | 'teacher_max_sections'
+  | 'min_section_enrollment'
   | 'max_periods_per_day'
   | 'min_periods_between'
   | 'same_teacher_same_course'
@@ -128,7 +145,7 @@ export interface SchedulePreference {
   id: string;
   type: PreferenceType;
   description: string;
-  params: Record<string, unknown>;
+  params: ConstraintParams;
   weight: number; // 0-1, importance
 }
 
@@ -136,14 +153,18 @@ export type PreferenceType =
   | 'balanced_class_sizes'
   | 'teacher_period_preference'
   | 'minimize_room_changes'
+  | 'balanced_teacher_load'
   | 'student_elective_preference'
   | 'compact_schedule'
+  | 'lunch_period'
   | 'custom';
 
 // Schedule output
 export interface Schedule {
   sections: Section[];
   unassignedStudents: UnassignedStudent[];
+  unassignedRooms?: UnassignedRoom[]; // Sections left without a room, with the reason
+  cancelledSections?: CancelledSection[]; // Closed for falling below Course.minStudents
   metadata: ScheduleMetadata;
 }
 
@@ -151,6 +172,54 @@ export interface UnassignedStudent {
   studentId: StudentId;
   courseId: CourseId;
   reason: string;
+  diagnosis?: PlacementDiagnosis;
+}
+
+// Why each section of the course was closed to the student, and the
+// smallest change that would let them in
+export interface PlacementDiagnosis {
+  sections: SectionDiagnosis[];
+  suggestion: string;
+}
+
+export interface SectionDiagnosis {
+  sectionId: SectionId;
+  blocks: PlacementBlock[]; // Empty if the section is open to the student as the schedule stands
+}
+
+export type PlacementBlockType =
+  | 'full'
+  | 'time_conflict'
+  | 'grade_restriction'
+  | 'prerequisite'
+  | 'student_unavailable'
+  | 'lunch'
+  | 'daily_limit'
+  | 'cancelled';
+
+export interface PlacementBlock {
+  type: PlacementBlockType;
+  detail: string;
+  sectionId?: SectionId; // The student's conflicting section, for time_conflict and daily_limit spacing
+}
+
+export interface UnassignedRoom {
+  sectionId: SectionId;
+  reason: string;
+}
+
+export interface CancelledSection {
+  sectionId: SectionId;
+  courseId: CourseId;
+  teacherId?: TeacherId;   // Freed for other sections
+  enrollment: number;      // Students enrolled when it was cancelled
+  minStudents: number;
+  movedStudents: MovedStudent[];
+}
+
+export interface MovedStudent {
+  studentId: StudentId;
+  toSectionId?: SectionId; // Omitted when no other section of the course fit
 }
 
 export interface ScheduleMetadata {
@@ -161,6 +230,44 @@ export interface ScheduleMetadata {
   constraintsSatisfied: number;
   constraintsTotal: number;
   warnings: string[];
+  algorithm?: string;    // 'ilp-highs' or 'greedy'
+  ilpObjective?: number;
+  sectionRecommendations?: SectionRecommendation[]; // With the autoSections option
+  infeasibleConstraints?: ConstraintViolation[];    // Minimal conflicting set, when an ILP was infeasible
+  objectiveBreakdown?: ObjectiveTerm[];             // Parts of ilpObjective
+}
+
+export type ObjectiveTermType =
+  | 'required_courses'
+  | 'elective_preferences'
+  | 'student_period_preferences'
+  | 'lunch'
+  | 'gaps'
+  | 'balanced_sections'
+  | 'open_sections'
+  | 'course_choices'
+  | 'teacher_preferences';
+
+// One part of the student assignment ILP's objective (penalties are negative)
+export interface ObjectiveTerm {
+  term: ObjectiveTermType;
+  value: number;
+  preferenceId?: string; // The SOFT: line whose weight scales the term
+  weight?: number;
+}
+
+// What capped a course's recommended section count
+export type SectionLimit = 'demand' | 'min_students' | 'teachers' | 'rooms';
+
+export interface SectionRecommendation {
+  courseId: CourseId;
+  current: number;        // Course.sections in the input
+  recommended: number;
+  requiredDemand: number; // Eligible students requiring the course
+  electiveDemand: number; // Eligible elective requests, weighted by preference rank
+  sectionSize: number;    // maxStudents, or less if no suitable room is that big
+  limitedBy: SectionLimit;
+  justification: string;
 }
 
 // Validation results
@@ -170,6 +277,17 @@ export interface ValidationResult {
   softConstraintViolations: ConstraintViolation[];
   score: number;
   summary: string;
+  gapsByGrade: GradeGapStatistics[];
+}
+
+// Free periods between a student's classes, per grade (see scheduler/gaps.ts)
+export interface GradeGapStatistics {
+  grade: number;
+  students: number;
+  totalGaps: number;
+  averageGaps: number;    // Per student per week
+  maxGapsPerDay: number;  // Most gaps any student has on one day
+  studentsWithGaps: number;
 }
 
 export interface ConstraintViolation {
@@ -186,6 +304,37 @@ export interface ConstraintViolation {
   };
 }
 
+// Feasibility analysis (before scheduling)
+export type FeasibilityIssueType =
+  | 'course_capacity'       // More students require the course than its sections seat
+  | 'no_qualified_teacher'  // No teacher can teach the course
+  | 'no_suitable_room'      // No room has the course's required features
+  | 'teacher_capacity'      // Teachers can't cover the sections only they can teach
+  | 'grade_overload';       // Students require more courses than fit in a day
+
+export interface FeasibilityIssue {
+  type: FeasibilityIssueType;
+  description: string;
+  entities: {
+    courses?: CourseId[];
+    teachers?: TeacherId[];
+    students?: StudentId[];
+    grades?: number[];
+  };
+}
+
+export interface CourseDemand {
+  courseId: CourseId;
+  demand: number;   // Students requiring the course who are in an allowed grade
+  capacity: number; // sections * maxStudents
+}
+
+export interface FeasibilityReport {
+  feasible: boolean;
+  issues: FeasibilityIssue[];
+  demand: CourseDemand[];
+}
+
 // Progress reporting
 export interface ProgressCallback {
   (progress: ProgressReport): void;
@@ -10,13 +10,29 @@ import type {
   ScheduleInput,
   ValidationResult,
   ConstraintViolation,
+  GradeGapStatistics,
   Section,
+  Student,
+  Teacher,
+  Course,
   Period,
   StudentId,
   TeacherId,
   RoomId,
   CourseId,
 } from '../types/index.js';
+import { getMissingPrerequisites, getStudentPeriodKeys } from '../scheduler/eligibility.js';
+import { getLunchRule, getDaysWithoutLunch } from '../scheduler/lunch.js';
+import { withTeacherAvailability } from '../scheduler/availability.js';
+import {
+  getDailyLimits,
+  hasDailyLimits,
+  countDailyPeriods,
+  findGapConflicts,
+} from '../scheduler/daily-limits.js';
+import { getGapStatistics } from '../scheduler/gaps.js';
+import { describePeriods } from '../scheduler/diagnosis.js';
+import { getChoiceResults } from '../scheduler/course-choices.js';
 
 export function validateSchedule(
   schedule: Schedule,
@@ -27,7 +43,7 @@ export function validateSchedule(
 
   // Build lookup maps
   const courseMap = new Map(input.courses.map(c => [c.id, c]));
-  const teacherMap = new Map(input.teachers.map(t => [t.id, t]));
+  const teacherMap = new Map(withTeacherAvailability(input).teachers.map(t => [t.id, t]));
   const roomMap = new Map(input.rooms.map(r => [r.id, r]));
   const studentMap = new Map(input.students.map(s => [s.id, s]));
 
@@ -67,12 +83,47 @@ export function validateSchedule(
   const qualificationViolations = checkTeacherQualifications(schedule.sections, teacherMap);
   hardViolations.push(...qualificationViolations);
 
+  // 9. Prerequisites
+  const prerequisiteViolations = checkPrerequisites(schedule.sections, courseMap, studentMap);
+  hardViolations.push(...prerequisiteViolations);
+
+  // 10. Corequisites
+  const corequisiteViolations = checkCorequisites(schedule.sections, courseMap);
+  hardViolations.push(...corequisiteViolations);
+
+  // 11. Consecutive periods for block courses
+  const consecutiveViolations = checkConsecutivePeriods(schedule.sections, courseMap);
+  hardViolations.push(...consecutiveViolations);
+
+  // 12. Student availability
+  const studentAvailabilityViolations = checkStudentAvailability(schedule.sections, studentMap);
+  hardViolations.push(...studentAvailabilityViolations);
+
+  // 13. Teacher max sections
+  const maxSectionViolations = checkTeacherMaxSections(schedule.sections, teacherMap);
+  hardViolations.push(...maxSectionViolations);
+
+  // 14. Lunch (hard or soft depending on the constraints file)
+  const lunchViolations = checkLunch(schedule.sections, input);
+  for (const violation of lunchViolations) {
+    (violation.severity === 'error' ? hardViolations : softViolations).push(violation);
+  }
+
+  // 15. Minimum enrollment
+  const minEnrollmentViolations = checkMinimumEnrollment(schedule.sections, courseMap);
+  hardViolations.push(...minEnrollmentViolations);
+
+  // 16-17. Periods per day and spacing between listed courses
+  const dailyLimitViolations = checkDailyLimits(schedule.sections, input);
+  hardViolations.push(...dailyLimitViolations);
+
   // =========================================================================
   // SOFT CONSTRAINT CHECKS
   // =========================================================================
 
   // 1. Balanced section sizes
-  const balanceViolations = checkBalancedSections(schedule.sections);
+  const balanceParams = input.preferences.find(p => p.type === 'balanced_class_sizes')?.params;
+  const balanceViolations = checkBalancedSections(schedule.sections, (balanceParams?.max_spread as number | undefined) ?? 5);
   softViolations.push(...balanceViolations);
 
   // 2. Student elective preferences
@@ -83,6 +134,30 @@ export function validateSchedule(
   const missingRequiredViolations = checkMissingRequiredCourses(schedule, input.students);
   softViolations.push(...missingRequiredViolations);
 
+  // 3b. Elective counts and course groups met exactly
+  const choiceViolations = checkCourseChoices(schedule.sections, input.students);
+  softViolations.push(...choiceViolations);
+
+  // 4. Students scheduled in periods they asked to avoid
+  const avoidViolations = checkStudentAvoidPeriods(schedule.sections, studentMap);
+  softViolations.push(...avoidViolations);
+
+  // 5. Teacher period preferences
+  const teacherPreferenceViolations = checkTeacherPreferences(schedule.sections, input.teachers);
+  softViolations.push(...teacherPreferenceViolations);
+
+  // 6. Teacher room changes (only checked when the preference is set)
+  if (input.preferences.some(p => p.type === 'minimize_room_changes')) {
+    const roomChangeViolations = checkRoomChanges(schedule.sections);
+    softViolations.push(...roomChangeViolations);
+  }
+
+  // 7. Teacher load balance (only checked when the preference is set)
+  if (input.preferences.some(p => p.type === 'balanced_teacher_load')) {
+    const loadViolations = checkTeacherLoad(schedule.sections, input.teachers);
+    softViolations.push(...loadViolations);
+  }
+
   // Calculate score
   const hardPenalty = hardViolations.length * 20;
   const softPenalty = softViolations.reduce((sum, v) => {
@@ -91,8 +166,11 @@ export function validateSchedule(
 
   const score = Math.max(0, 100 - hardPenalty - softPenalty);
 
+  // Free periods between classes, reported alongside the violations
+  const gapsByGrade = getGapStatistics(schedule.sections, input);
+
   // Generate summary
-  const summary = generateSummary(schedule, hardViolations, softViolations, input);
+  const summary = generateSummary(schedule, hardViolations, softViolations, gapsByGrade, input);
 
   return {
     valid: hardViolations.length === 0,
@@ -100,6 +178,7 @@ export function validateSchedule(
     softConstraintViolations: softViolations,
     score,
     summary,
+    gapsByGrade,
   };
 }
 
@@ -401,7 +480,505 @@ function checkTeacherQualifications(
   return violations;
 }
 
-function checkBalancedSections(sections: Section[]): ConstraintViolation[] {
+function checkTeacherMaxSections(
+  sections: Section[],
+  teacherMap: Map<TeacherId, { maxSections: number }>
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  const teacherSections = new Map<TeacherId, Section[]>();
+  for (const section of sections) {
+    if (!section.teacherId) continue;
+    const list = teacherSections.get(section.teacherId) || [];
+    list.push(section);
+    teacherSections.set(section.teacherId, list);
+  }
+
+  for (const [teacherId, taught] of teacherSections) {
+    const teacher = teacherMap.get(teacherId);
+    if (!teacher) continue;
+
+    if (taught.length > teacher.maxSections) {
+      violations.push({
+        constraintId: 'teacher_max_sections',
+        constraintType: 'teacher_max_sections',
+        description: `Teacher ${teacherId} teaches ${taught.length} sections (max: ${teacher.maxSections})`,
+        severity: 'error',
+        entities: {
+          teachers: [teacherId],
+          sections: taught.map(s => s.id),
+        },
+      });
+    }
+  }
+
+  return violations;
+}
+
+function checkMinimumEnrollment(
+  sections: Section[],
+  courseMap: Map<CourseId, Course>
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  for (const section of sections) {
+    const minStudents = courseMap.get(section.courseId)?.minStudents;
+    if (minStudents === undefined || section.enrolledStudents.length >= minStudents) continue;
+
+    violations.push({
+      constraintId: 'min_section_enrollment',
+      constraintType: 'min_section_enrollment',
+      description: `Section ${section.id} has ${section.enrolledStudents.length} students (min: ${minStudents})`,
+      severity: 'error',
+      entities: {
+        sections: [section.id],
+        students: [...section.enrolledStudents],
+      },
+    });
+  }
+
+  return violations;
+}
+
+function checkPrerequisites(
+  sections: Section[],
+  courseMap: Map<CourseId, Course>,
+  studentMap: Map<StudentId, Student>
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  for (const section of sections) {
+    const course = courseMap.get(section.courseId);
+    if (!course?.prerequisites?.length) continue;
+
+    for (const studentId of section.enrolledStudents) {
+      const student = studentMap.get(studentId);
+      if (!student) continue;
+
+      const missing = getMissingPrerequisites(student, course);
+      if (missing.length > 0) {
+        violations.push({
+          constraintId: 'prerequisites',
+          constraintType: 'custom',
+          description: `Student ${studentId} is enrolled in ${section.id} without prerequisites [${missing.join(', ')}]`,
+          severity: 'error',
+          entities: {
+            students: [studentId],
+            sections: [section.id],
+          },
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+function checkCorequisites(
+  sections: Section[],
+  courseMap: Map<CourseId, Course>
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  // Build enrollment lookup
+  const studentEnrollments = new Map<StudentId, Set<CourseId>>();
+  for (const section of sections) {
+    for (const studentId of section.enrolledStudents) {
+      if (!studentEnrollments.has(studentId)) {
+        studentEnrollments.set(studentId, new Set());
+      }
+      studentEnrollments.get(studentId)!.add(section.courseId);
+    }
+  }
+
+  for (const section of sections) {
+    const course = courseMap.get(section.courseId);
+    if (!course?.corequisites?.length) continue;
+
+    for (const studentId of section.enrolledStudents) {
+      const enrolled = studentEnrollments.get(studentId)!;
+      const missing = course.corequisites.filter(c => !enrolled.has(c));
+
+      if (missing.length > 0) {
+        violations.push({
+          constraintId: 'corequisites',
+          constraintType: 'custom',
+          description: `Student ${studentId} is enrolled in ${section.id} but not its corequisites [${missing.join(', ')}]`,
+          severity: 'error',
+          entities: {
+            students: [studentId],
+            sections: [section.id],
+          },
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+function checkConsecutivePeriods(
+  sections: Section[],
+  courseMap: Map<CourseId, Course>
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  for (const section of sections) {
+    const blockLength = courseMap.get(section.courseId)?.blockLength ?? 1;
+    if (blockLength <= 1) continue;
+
+    // Group slots by day
+    const slotsByDay = new Map<number, number[]>();
+    for (const period of section.periods) {
+      const list = slotsByDay.get(period.day) || [];
+      list.push(period.slot);
+      slotsByDay.set(period.day, list);
+    }
+
+    for (const [day, slots] of slotsByDay) {
+      slots.sort((a, b) => a - b);
+
+      // Split the day's slots into runs of consecutive periods
+      const runs: number[][] = [];
+      for (const slot of slots) {
+        const run = runs[runs.length - 1];
+        if (run && slot === run[run.length - 1] + 1) {
+          run.push(slot);
+        } else {
+          runs.push([slot]);
+        }
+      }
+
+      const brokenRuns = runs.filter(run => run.length % blockLength !== 0);
+      if (brokenRuns.length > 0) {
+        violations.push({
+          constraintId: 'consecutive_periods',
+          constraintType: 'consecutive_periods',
+          description: `Section ${section.id} needs blocks of ${blockLength} consecutive periods but meets at periods [${slots.join(', ')}] on day ${day}`,
+          severity: 'error',
+          entities: {
+            sections: [section.id],
+            periods: brokenRuns.flat().map(slot => ({ day, slot })),
+          },
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+function checkStudentAvailability(
+  sections: Section[],
+  studentMap: Map<StudentId, Student>
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  for (const section of sections) {
+    for (const studentId of section.enrolledStudents) {
+      const student = studentMap.get(studentId);
+      if (!student?.constraints) continue;
+
+      const unavailable = getStudentPeriodKeys(student, 'unavailable');
+      const blocked = section.periods.filter(p => unavailable.has(`${p.day}-${p.slot}`));
+
+      if (blocked.length > 0) {
+        violations.push({
+          constraintId: 'student_availability',
+          constraintType: 'student_availability',
+          description: `Student ${studentId} is unavailable at ${blocked.length} period(s) of ${section.id}`,
+          severity: 'error',
+          entities: {
+            students: [studentId],
+            sections: [section.id],
+            periods: blocked,
+          },
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+function checkStudentAvoidPeriods(
+  sections: Section[],
+  studentMap: Map<StudentId, Student>
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  const studentsInAvoided = new Set<StudentId>();
+
+  for (const section of sections) {
+    for (const studentId of section.enrolledStudents) {
+      const student = studentMap.get(studentId);
+      if (!student?.constraints) continue;
+
+      const avoided = getStudentPeriodKeys(student, 'avoid');
+      if (section.periods.some(p => avoided.has(`${p.day}-${p.slot}`))) {
+        studentsInAvoided.add(studentId);
+      }
+    }
+  }
+
+  if (studentsInAvoided.size > 0) {
+    violations.push({
+      constraintId: 'student_availability',
+      constraintType: 'student_availability',
+      description: `${studentsInAvoided.size} students have classes in periods they asked to avoid`,
+      severity: 'warning',
+      entities: {
+        students: [...studentsInAvoided].slice(0, 10), // Limit for readability
+      },
+    });
+  }
+
+  return violations;
+}
+
+function checkTeacherPreferences(
+  sections: Section[],
+  teachers: Teacher[]
+): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  // Build teaching lookup
+  const teachingPeriods = new Map<TeacherId, Set<string>>();
+  for (const section of sections) {
+    if (!section.teacherId) continue;
+    if (!teachingPeriods.has(section.teacherId)) {
+      teachingPeriods.set(section.teacherId, new Set());
+    }
+    for (const period of section.periods) {
+      teachingPeriods.get(section.teacherId)!.add(`${period.day}-${period.slot}`);
+    }
+  }
+
+  // A prefer period is honored when the teacher teaches then, an avoid
+  // period when they don't
+  let honored = 0;
+  let total = 0;
+  const teachersNotHonored: TeacherId[] = [];
+
+  for (const teacher of teachers) {
+    if (!teacher.preferences?.length) continue;
+
+    const teaching = teachingPeriods.get(teacher.id) || new Set<string>();
+    let missed = 0;
+
+    for (const preference of teacher.preferences) {
+      for (const period of preference.periods) {
+        const teaches = teaching.has(`${period.day}-${period.slot}`);
+        total++;
+        if (teaches === (preference.type === 'prefer')) {
+          honored++;
+        } else {
+          missed++;
+        }
+      }
+    }
+
+    if (missed > 0) {
+      teachersNotHonored.push(teacher.id);
+    }
+  }
+
+  if (honored < total) {
+    violations.push({
+      constraintId: 'teacher_preferences',
+      constraintType: 'teacher_period_preference',
+      description: `${honored}/${total} teacher period preferences honored (${teachersNotHonored.length} teachers affected)`,
+      severity: 'warning',
+      entities: {
+        teachers: teachersNotHonored,
+      },
+    });
+  }
+
+  return violations;
+}
+
+function checkRoomChanges(sections: Section[]): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  // Rooms each teacher teaches in
+  const teacherRooms = new Map<TeacherId, Set<RoomId>>();
+  for (const section of sections) {
+    if (!section.teacherId || !section.roomId) continue;
+    if (!teacherRooms.has(section.teacherId)) {
+      teacherRooms.set(section.teacherId, new Set());
+    }
+    teacherRooms.get(section.teacherId)!.add(section.roomId);
+  }
+
+  const moving = [...teacherRooms].filter(([, rooms]) => rooms.size > 1);
+
+  if (moving.length > 0) {
+    const extraRooms = moving.reduce((sum, [, rooms]) => sum + rooms.size - 1, 0);
+    violations.push({
+      constraintId: 'minimize_room_changes',
+      constraintType: 'minimize_room_changes',
+      description: `${moving.length} teachers teach in more than one room (${extraRooms} extra rooms)`,
+      severity: 'warning',
+      entities: {
+        teachers: moving.map(([teacherId]) => teacherId),
+        rooms: [...new Set(moving.flatMap(([, rooms]) => [...rooms]))],
+      },
+    });
+  }
+
+  return violations;
+}
+
+function checkTeacherLoad(sections: Section[], teachers: Teacher[]): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  const sectionCount = new Map<TeacherId, number>();
+  for (const section of sections) {
+    if (!section.teacherId) continue;
+    sectionCount.set(section.teacherId, (sectionCount.get(section.teacherId) || 0) + 1);
+  }
+  const load = (teacher: Teacher, extra = 0) =>
+    teacher.maxSections > 0 ? ((sectionCount.get(teacher.id) || 0) + extra) / teacher.maxSections : Infinity;
+
+  // A teacher is overloaded if one of their sections could move to another
+  // qualified teacher who would still be less loaded afterwards
+  for (const teacher of teachers) {
+    const courses = new Set(sections.filter(s => s.teacherId === teacher.id).map(s => s.courseId));
+    const lighter = teachers.find(other =>
+      other.id !== teacher.id &&
+      [...courses].some(c => other.subjects.includes(c)) &&
+      load(other, 1) <= 1 &&
+      load(other, 1) < load(teacher)
+    );
+
+    if (lighter) {
+      violations.push({
+        constraintId: 'balanced_teacher_load',
+        constraintType: 'balanced_teacher_load',
+        description: `Teacher ${teacher.id} teaches ${sectionCount.get(teacher.id)} of ${teacher.maxSections} sections while ${lighter.id} teaches ${sectionCount.get(lighter.id) || 0} of ${lighter.maxSections}`,
+        severity: 'warning',
+        entities: {
+          teachers: [teacher.id, lighter.id],
+        },
+      });
+    }
+  }
+
+  return violations;
+}
+
+function checkDailyLimits(sections: Section[], input: ScheduleInput): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  if (!hasDailyLimits(input)) return violations;
+
+  const studentSections = new Map<StudentId, Section[]>();
+  for (const section of sections) {
+    for (const studentId of section.enrolledStudents) {
+      studentSections.set(studentId, [...(studentSections.get(studentId) || []), section]);
+    }
+  }
+
+  for (const student of input.students) {
+    const own = studentSections.get(student.id) || [];
+    const limits = getDailyLimits(input, student.grade);
+
+    const maxRule = limits.maxPeriods;
+    if (maxRule) {
+      countDailyPeriods(own, maxRule, input.config.daysPerWeek).forEach((count, day) => {
+        if (count <= maxRule.max) return;
+        violations.push({
+          constraintId: maxRule.constraintId,
+          constraintType: 'max_periods_per_day',
+          description: `Student ${student.id} has ${count} periods on day ${day} (max: ${maxRule.max})`,
+          severity: 'error',
+          entities: {
+            students: [student.id],
+            sections: own
+              .filter(s => !maxRule.exclude.includes(s.courseId) && s.periods.some(p => p.day === day))
+              .map(s => s.id),
+          },
+        });
+      });
+    }
+
+    for (const { rule, first, second, day } of findGapConflicts(own, limits.minGaps)) {
+      violations.push({
+        constraintId: rule.constraintId,
+        constraintType: 'min_periods_between',
+        description: `Student ${student.id} has ${first.id} and ${second.id} on day ${day} ` +
+          `with fewer than ${rule.gap} period(s) between them`,
+        severity: 'error',
+        entities: {
+          students: [student.id],
+          sections: [first.id, second.id],
+          periods: [...first.periods, ...second.periods].filter(p => p.day === day),
+        },
+      });
+    }
+  }
+
+  return violations;
+}
+
+function checkLunch(sections: Section[], input: ScheduleInput): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+  const lunchRule = getLunchRule(input);
+  if (!lunchRule) return violations;
+
+  // Build student period lookup
+  const studentPeriods = new Map<StudentId, Set<string>>();
+  for (const section of sections) {
+    for (const studentId of section.enrolledStudents) {
+      if (!studentPeriods.has(studentId)) {
+        studentPeriods.set(studentId, new Set());
+      }
+      for (const period of section.periods) {
+        studentPeriods.get(studentId)!.add(`${period.day}-${period.slot}`);
+      }
+    }
+  }
+
+  const lunchNames = `period ${lunchRule.slots.map(slot => slot + 1).join('/')}`;
+  const studentsWithoutLunch: StudentId[] = [];
+
+  for (const [studentId, periods] of studentPeriods) {
+    const days = getDaysWithoutLunch(periods, lunchRule.slots, input.config.daysPerWeek);
+    if (days.length === 0) continue;
+
+    studentsWithoutLunch.push(studentId);
+    if (lunchRule.hard) {
+      const taken = days.flatMap(day => lunchRule.slots.map(slot => ({ day, slot })));
+      violations.push({
+        constraintId: 'lunch_period',
+        constraintType: 'lunch_period',
+        description: `Student ${studentId} has no free lunch period: ${describePeriods(taken, input.config)} all taken`,
+        severity: 'error',
+        entities: {
+          students: [studentId],
+          periods: taken,
+        },
+      });
+    }
+  }
+
+  if (!lunchRule.hard && studentsWithoutLunch.length > 0) {
+    const listed = studentsWithoutLunch.slice(0, 10).join(', ');
+    const more = studentsWithoutLunch.length > 10 ? ` and ${studentsWithoutLunch.length - 10} more` : '';
+    violations.push({
+      constraintId: 'lunch_period',
+      constraintType: 'lunch_period',
+      description: `${studentsWithoutLunch.length} students have no free lunch period (${lunchNames}) on some day: ${listed}${more}`,
+      severity: 'warning',
+      entities: {
+        students: studentsWithoutLunch,
+      },
+    });
+  }
+
+  return violations;
+}
+
+function checkBalancedSections(sections: Section[], maxSpread: number): ConstraintViolation[] {
   const violations: ConstraintViolation[] = [];
 
   // Group by course
@@ -420,7 +997,7 @@ function checkBalancedSections(sections: Section[]): ConstraintViolation[] {
     const min = Math.min(...sizes);
     const diff = max - min;
 
-    if (diff > 5) {
+    if (diff > maxSpread) {
       violations.push({
         constraintId: 'balanced_sections',
         constraintType: 'balanced_class_sizes',
@@ -524,10 +1101,72 @@ function checkMissingRequiredCourses(
   return violations;
 }
 
+function checkCourseChoices(sections: Section[], students: Student[]): ConstraintViolation[] {
+  const violations: ConstraintViolation[] = [];
+
+  // Build enrollment lookup
+  const studentEnrollments = new Map<StudentId, Set<CourseId>>();
+  for (const section of sections) {
+    for (const studentId of section.enrolledStudents) {
+      if (!studentEnrollments.has(studentId)) {
+        studentEnrollments.set(studentId, new Set());
+      }
+      studentEnrollments.get(studentId)!.add(section.courseId);
+    }
+  }
+
+  let totalShort = 0;
+  const studentsShort: StudentId[] = [];
+  const studentsOver: StudentId[] = [];
+
+  for (const student of students) {
+    const enrolled = studentEnrollments.get(student.id) || new Set();
+    let short = 0;
+    let over = false;
+    for (const { choice, received } of getChoiceResults(student, enrolled)) {
+      if (choice.count === null) continue;
+      short += Math.max(0, choice.count - received.length);
+      if (received.length > choice.count) over = true;
+    }
+
+    if (short > 0) {
+      totalShort += short;
+      studentsShort.push(student.id);
+    }
+    if (over) studentsOver.push(student.id);
+  }
+
+  if (totalShort > 0) {
+    violations.push({
+      constraintId: 'course_choices',
+      constraintType: 'custom',
+      description: `${studentsShort.length} students are ${totalShort} courses short of their elective counts and course groups`,
+      severity: 'warning',
+      entities: {
+        students: studentsShort.slice(0, 10), // Limit for readability
+      },
+    });
+  }
+  if (studentsOver.length > 0) {
+    violations.push({
+      constraintId: 'course_choices',
+      constraintType: 'custom',
+      description: `${studentsOver.length} students have more courses than their elective counts or course groups ask for`,
+      severity: 'warning',
+      entities: {
+        students: studentsOver.slice(0, 10),
+      },
+    });
+  }
+
+  return violations;
+}
+
 function generateSummary(
   schedule: Schedule,
   hardViolations: ConstraintViolation[],
   softViolations: ConstraintViolation[],
+  gapsByGrade: GradeGapStatistics[],
   input: ScheduleInput
 ): string {
   const lines: string[] = [];
@@ -557,6 +1196,14 @@ function generateSummary(
   lines.push(`  Unassigned students: ${schedule.unassignedStudents.length}`);
   lines.push('');
 
+  // Gaps per grade
+  lines.push('GAPS (free periods between classes):');
+  for (const g of gapsByGrade) {
+    lines.push(`  Grade ${g.grade}: ${g.totalGaps} total, ${g.averageGaps} per student, ` +
+      `${g.studentsWithGaps}/${g.students} students with gaps, at most ${g.maxGapsPerDay} in a day`);
+  }
+  lines.push('');
+
   // Constraint summary
   lines.push('CONSTRAINTS:');
   lines.push(`  Hard violations: ${hardViolations.length}`);